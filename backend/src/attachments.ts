@@ -0,0 +1,59 @@
+import * as crypto from "crypto";
+
+// Rules for uploaded attachments: which types are accepted, what the bytes
+// must look like, and how they're named when served back.
+
+export const BLOB_ID_PATTERN = /^[0-9a-f]{64}$/;
+export const ATTACHMENT_NAME_MAX_LENGTH = 200;
+
+export function hashContent(data: Buffer): string {
+    return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+// "image/*,application/pdf" -> ["image/*", "application/pdf"]
+export function parseTypeList(value: string): string[] {
+    return value
+        .split(",")
+        .map((type) => type.trim().toLowerCase())
+        .filter((type) => type.length > 0);
+}
+
+// The media type without parameters: "text/plain; charset=utf-8" -> "text/plain"
+export function baseContentType(value: string | undefined): string {
+    return (value ?? "").split(";")[0].trim().toLowerCase();
+}
+
+export function isAllowedType(contentType: string, allowed: string[]): boolean {
+    return allowed.some((type) => type === contentType || (type.endsWith("/*") && contentType.startsWith(type.slice(0, -1))));
+}
+
+const SIGNATURES: Array<{ type: string; matches: (data: Buffer) => boolean }> = [
+    { type: "image/png", matches: (data) => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+    { type: "image/jpeg", matches: (data) => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff },
+    { type: "image/gif", matches: (data) => ["GIF87a", "GIF89a"].includes(data.subarray(0, 6).toString("latin1")) },
+    { type: "image/webp", matches: (data) => data.subarray(0, 4).toString("latin1") === "RIFF" && data.subarray(8, 12).toString("latin1") === "WEBP" },
+];
+
+// Images are shown inline, so their bytes must match the declared type;
+// anything else is only ever served as a download
+export function contentMatchesType(data: Buffer, contentType: string): boolean {
+    const signature = SIGNATURES.find((entry) => entry.type === contentType);
+    if (signature) return signature.matches(data);
+    return !contentType.startsWith("image/");
+}
+
+export function isInlineType(contentType: string): boolean {
+    return SIGNATURES.some((entry) => entry.type === contentType);
+}
+
+// Trims paths and control characters from a client-supplied file name
+export function cleanFileName(name: string): string {
+    const base = name.split(/[\\/]/).pop() ?? "";
+    return base.replace(/[\u0000-\u001f\u007f"]/g, "").trim().slice(0, ATTACHMENT_NAME_MAX_LENGTH);
+}
+
+export function contentDisposition(kind: "inline" | "attachment", name: string | undefined): string {
+    if (!name) return kind;
+    const ascii = name.replace(/[^\x20-\x7e]/g, "_");
+    return `${kind}; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(name)}`;
+}
@@ -0,0 +1,46 @@
+import { ChatStore } from "../storage";
+import { JwtAuthProvider } from "./jwt";
+import { LocalAuthProvider } from "./local";
+import { AuthProvider } from "./types";
+
+export * from "./types";
+export { JwtAuthProvider } from "./jwt";
+export { LocalAuthProvider } from "./local";
+
+export interface AuthConfig {
+    providers: AuthProvider[];
+    guestsAllowed: boolean;
+}
+
+// AUTH_PROVIDERS is a comma-separated list of "jwt" (needs JWT_SECRET) and
+// "local". Guests are allowed when no provider is configured, otherwise only
+// with ALLOW_GUESTS=true.
+export function createAuthFromEnv(
+    env: NodeJS.ProcessEnv,
+    store: ChatStore,
+    validateUsername: (username: string) => string | null,
+): AuthConfig {
+    const kinds = (env.AUTH_PROVIDERS || "")
+        .split(",")
+        .map((kind) => kind.trim().toLowerCase())
+        .filter((kind) => kind.length > 0);
+    const providers = kinds.map((kind): AuthProvider => {
+        switch (kind) {
+            case "jwt":
+                if (!env.JWT_SECRET) throw new Error("AUTH_PROVIDERS includes jwt but JWT_SECRET is not set");
+                return new JwtAuthProvider(env.JWT_SECRET, env.JWT_ISSUER || undefined, env.JWT_AUDIENCE || undefined);
+            case "local":
+                return new LocalAuthProvider(store, validateUsername);
+            default:
+                throw new Error(`Unknown auth provider "${kind}" (expected "jwt" or "local")`);
+        }
+    });
+    const guestsAllowed = providers.length === 0 || (env.ALLOW_GUESTS || "").trim().toLowerCase() === "true";
+    return { providers, guestsAllowed };
+}
+
+// Verified userIds are "<provider>:<id>"; generated guest ids never contain a colon
+export function verifiedProvider(userId: string): string | undefined {
+    const separator = userId.indexOf(":");
+    return separator > 0 ? userId.slice(0, separator) : undefined;
+}
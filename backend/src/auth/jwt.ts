@@ -0,0 +1,60 @@
+import * as crypto from "crypto";
+import { AuthCredentials, AuthProvider, AuthResult } from "./types";
+
+interface JwtClaims {
+    sub?: unknown;
+    name?: unknown;
+    preferred_username?: unknown;
+    exp?: unknown;
+    nbf?: unknown;
+    iss?: unknown;
+    aud?: unknown;
+}
+
+// Accepts HS256 JWTs signed with a secret shared with the identity provider.
+// `sub` becomes the userId and `name` (or `preferred_username`) the display name.
+export class JwtAuthProvider implements AuthProvider {
+    readonly name = "jwt";
+
+    constructor(
+        private readonly secret: string,
+        private readonly issuer?: string,
+        private readonly audience?: string,
+    ) {}
+
+    async authenticate(credentials: AuthCredentials): Promise<AuthResult | null> {
+        if (!credentials.token) return null;
+        const claims = this.verify(credentials.token);
+        if (!claims) return { error: "That sign-in token is invalid" };
+        const now = Date.now() / 1000;
+        if (typeof claims.exp === "number" && claims.exp < now) return { error: "That sign-in token has expired" };
+        if (typeof claims.nbf === "number" && claims.nbf > now) return { error: "That sign-in token isn't valid yet" };
+        if (this.issuer && claims.iss !== this.issuer) return { error: "That sign-in token is from another issuer" };
+        if (this.audience && !(Array.isArray(claims.aud) ? claims.aud.includes(this.audience) : claims.aud === this.audience)) {
+            return { error: "That sign-in token is for another audience" };
+        }
+        if (typeof claims.sub !== "string" || claims.sub.length === 0) return { error: "That sign-in token has no subject" };
+        const name = [claims.name, claims.preferred_username].find((value): value is string => typeof value === "string") ?? claims.sub;
+        return { identity: { userId: `${this.name}:${claims.sub}`, name: name.trim() } };
+    }
+
+    private verify(token: string): JwtClaims | null {
+        const [header, body, signature, ...rest] = token.split(".");
+        if (!header || !body || !signature || rest.length > 0) return null;
+        const parsedHeader = parseSegment(header);
+        if (!parsedHeader || parsedHeader.alg !== "HS256") return null;
+        const expected = Buffer.from(crypto.createHmac("sha256", this.secret).update(`${header}.${body}`).digest("base64url"));
+        const actual = Buffer.from(signature);
+        if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+        return parseSegment(body) as JwtClaims | null;
+    }
+}
+
+function parseSegment(segment: string): Record<string, unknown> | null {
+    try {
+        const parsed: unknown = JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+        return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : null;
+    } catch {
+        return null;
+    }
+}
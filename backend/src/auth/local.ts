@@ -0,0 +1,50 @@
+import { hashPassword, verifyPassword } from "../passwords";
+import { ChatStore } from "../storage";
+import { AuthCredentials, AuthProvider, AuthResult } from "./types";
+
+const PASSWORD_MIN_LENGTH = 8;
+
+// Username/password accounts kept in the server's own store. Usernames follow
+// the display name rules, are unique case-insensitively and double as the
+// account's display name.
+export class LocalAuthProvider implements AuthProvider {
+    readonly name = "local";
+
+    constructor(
+        private readonly store: ChatStore,
+        private readonly validateUsername: (username: string) => string | null,
+    ) {}
+
+    async authenticate(credentials: AuthCredentials): Promise<AuthResult | null> {
+        const username = credentials.username?.trim();
+        if (!username || credentials.password === undefined) return null;
+        const key = username.toLowerCase();
+        if (credentials.register) {
+            const invalid = this.validateUsername(username);
+            if (invalid) return { error: invalid };
+            if (credentials.password.length < PASSWORD_MIN_LENGTH) {
+                return { error: `Passwords need at least ${PASSWORD_MIN_LENGTH} characters` };
+            }
+            const { hash, salt } = await hashPassword(credentials.password);
+            const created = await this.store.createAccount({
+                username: key,
+                name: username,
+                passwordHash: hash,
+                passwordSalt: salt,
+                createdAt: Date.now(),
+            });
+            if (!created) return { error: `The username "${username}" is taken` };
+            return { identity: { userId: `${this.name}:${key}`, name: username } };
+        }
+        const account = await this.store.getAccount(key);
+        // Same answer for unknown users and wrong passwords
+        if (!account || !(await verifyPassword(credentials.password, account.passwordHash, account.passwordSalt))) {
+            return { error: "Wrong username or password" };
+        }
+        return { identity: { userId: `${this.name}:${account.username}`, name: account.name } };
+    }
+
+    async isReservedName(name: string): Promise<boolean> {
+        return (await this.store.getAccount(name.trim().toLowerCase())) !== undefined;
+    }
+}
@@ -0,0 +1,26 @@
+export interface AuthCredentials {
+    // Bearer token, e.g. a JWT
+    token?: string;
+    username?: string;
+    password?: string;
+    // Create the account instead of signing in to it
+    register?: boolean;
+}
+
+export interface VerifiedIdentity {
+    // "<provider>:<id>", stable across sessions and devices
+    userId: string;
+    name: string;
+}
+
+// Either who the client is, or why the credentials were refused
+export type AuthResult = { identity: VerifiedIdentity } | { error: string };
+
+// A way for clients to prove who they are during identify. Providers return
+// null for credentials that aren't meant for them so the next one can try.
+export interface AuthProvider {
+    readonly name: string;
+    authenticate(credentials: AuthCredentials): Promise<AuthResult | null>;
+    // Whether guests are kept from using this name because it belongs to one of the provider's users
+    isReservedName?(name: string): Promise<boolean>;
+}
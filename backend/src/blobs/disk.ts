@@ -0,0 +1,48 @@
+import * as fs from "fs";
+import * as path from "path";
+import { BlobInfo, BlobStore } from "./types";
+
+// Default blob store: one file per blob under `<dir>/<first two hex chars>/`,
+// with its BlobInfo in a `.json` file alongside
+export class DiskBlobStore implements BlobStore {
+    constructor(private readonly dir: string) {}
+
+    async init(): Promise<void> {
+        await fs.promises.mkdir(this.dir, { recursive: true });
+    }
+
+    async close(): Promise<void> {}
+
+    private blobPath(id: string): string {
+        // Ids come from our own hashing, but requests name them too
+        if (!/^[0-9a-f]{64}$/.test(id)) throw new Error(`Invalid blob id "${id}"`);
+        return path.join(this.dir, id.slice(0, 2), id);
+    }
+
+    async put(info: BlobInfo, data: Buffer): Promise<void> {
+        const file = this.blobPath(info.id);
+        if (await this.stat(info.id)) return;
+        await fs.promises.mkdir(path.dirname(file), { recursive: true });
+        // Write under temporary names and rename, so a crash never leaves a partial blob
+        const suffix = `.${process.pid}.${Date.now()}.tmp`;
+        await fs.promises.writeFile(file + suffix, data);
+        await fs.promises.rename(file + suffix, file);
+        await fs.promises.writeFile(`${file}.json${suffix}`, JSON.stringify(info));
+        await fs.promises.rename(`${file}.json${suffix}`, `${file}.json`);
+    }
+
+    async stat(id: string): Promise<BlobInfo | undefined> {
+        try {
+            return JSON.parse(await fs.promises.readFile(`${this.blobPath(id)}.json`, "utf8")) as BlobInfo;
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+            throw err;
+        }
+    }
+
+    async get(id: string): Promise<{ info: BlobInfo; data: Buffer } | undefined> {
+        const info = await this.stat(id);
+        if (!info) return undefined;
+        return { info, data: await fs.promises.readFile(this.blobPath(id)) };
+    }
+}
@@ -0,0 +1,20 @@
+import { DiskBlobStore } from "./disk";
+import { MemoryBlobStore } from "./memory";
+import { BlobStore } from "./types";
+
+export * from "./types";
+export { DiskBlobStore } from "./disk";
+export { MemoryBlobStore } from "./memory";
+
+// BLOB_STORE=disk (default) with BLOB_DIR, or BLOB_STORE=memory
+export function createBlobStoreFromEnv(env: NodeJS.ProcessEnv): BlobStore {
+    const kind = (env.BLOB_STORE || "disk").trim().toLowerCase();
+    switch (kind) {
+        case "disk":
+            return new DiskBlobStore(env.BLOB_DIR || "./data/blobs");
+        case "memory":
+            return new MemoryBlobStore();
+        default:
+            throw new Error(`Unknown BLOB_STORE "${kind}" (expected "disk" or "memory")`);
+    }
+}
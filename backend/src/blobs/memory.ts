@@ -0,0 +1,22 @@
+import { BlobInfo, BlobStore } from "./types";
+
+// Keeps blobs in process memory; lost on restart. For tests and throwaway runs.
+export class MemoryBlobStore implements BlobStore {
+    private readonly idToBlob: Map<string, { info: BlobInfo; data: Buffer }> = new Map();
+
+    async init(): Promise<void> {}
+
+    async close(): Promise<void> {}
+
+    async put(info: BlobInfo, data: Buffer): Promise<void> {
+        if (!this.idToBlob.has(info.id)) this.idToBlob.set(info.id, { info, data });
+    }
+
+    async stat(id: string): Promise<BlobInfo | undefined> {
+        return this.idToBlob.get(id)?.info;
+    }
+
+    async get(id: string): Promise<{ info: BlobInfo; data: Buffer } | undefined> {
+        return this.idToBlob.get(id);
+    }
+}
@@ -0,0 +1,19 @@
+// Size and type of a stored blob. The id is the hex SHA-256 of its content,
+// so uploading the same bytes twice stores them once.
+export interface BlobInfo {
+    id: string;
+    size: number;
+    // Recorded at first upload; later uploads of the same bytes reuse it
+    contentType: string;
+}
+
+// Content-addressed storage for attachments, separate from the ChatStore so
+// large files can live somewhere other than the message database
+export interface BlobStore {
+    init(): Promise<void>;
+    close(): Promise<void>;
+    // Storing an id that already exists keeps the existing blob
+    put(info: BlobInfo, data: Buffer): Promise<void>;
+    stat(id: string): Promise<BlobInfo | undefined>;
+    get(id: string): Promise<{ info: BlobInfo; data: Buffer } | undefined>;
+}
@@ -0,0 +1,20 @@
+import { InProcessBus } from "./memory";
+import { RedisBus, parseRedisUrl } from "./redis";
+import { MessageBus } from "./types";
+
+export * from "./types";
+export { InProcessBus, InProcessHub } from "./memory";
+export { RedisBus } from "./redis";
+
+// BUS=local (default, single instance) or BUS=redis with REDIS_URL
+export function createBusFromEnv(env: NodeJS.ProcessEnv): MessageBus {
+    const kind = (env.BUS || "local").trim().toLowerCase();
+    switch (kind) {
+        case "local":
+            return new InProcessBus();
+        case "redis":
+            return new RedisBus(parseRedisUrl(env.REDIS_URL || "redis://127.0.0.1:6379"));
+        default:
+            throw new Error(`Unknown BUS "${kind}" (expected "local" or "redis")`);
+    }
+}
@@ -0,0 +1,60 @@
+import { EventEmitter } from "events";
+import { BusHandler, MessageBus } from "./types";
+
+// Buses sharing a hub see each other's messages, which lets tests run several
+// "instances" inside one process. The default hub makes a single instance
+// behave exactly like it did without a bus.
+export class InProcessHub extends EventEmitter {
+    // slot -> owner; claims on a hub never lapse while their bus is open
+    readonly slotOwners: Map<number, string> = new Map();
+
+    constructor() {
+        super();
+        this.setMaxListeners(0);
+    }
+}
+
+const defaultHub = new InProcessHub();
+
+export class InProcessBus implements MessageBus {
+    private readonly subscriptions: Array<{ channel: string; listener: (message: string) => void }> = [];
+    private readonly claimedSlots: Set<number> = new Set();
+
+    constructor(private readonly hub: InProcessHub = defaultHub) {}
+
+    async start(): Promise<void> {}
+
+    async close(): Promise<void> {
+        for (const { channel, listener } of this.subscriptions) {
+            this.hub.off(channel, listener);
+        }
+        this.subscriptions.length = 0;
+        for (const slot of this.claimedSlots) this.hub.slotOwners.delete(slot);
+        this.claimedSlots.clear();
+    }
+
+    async publish(channel: string, message: string): Promise<void> {
+        // Deliver asynchronously, like a real broker would
+        setImmediate(() => this.hub.emit(channel, message));
+    }
+
+    async subscribe(channel: string, handler: BusHandler): Promise<void> {
+        const listener = (message: string) => handler(message);
+        this.hub.on(channel, listener);
+        this.subscriptions.push({ channel, listener });
+    }
+
+    async claimSlot(owner: string, count: number): Promise<number> {
+        for (let slot = 0; slot < count; slot++) {
+            if (this.hub.slotOwners.has(slot)) continue;
+            this.hub.slotOwners.set(slot, owner);
+            this.claimedSlots.add(slot);
+            return slot;
+        }
+        throw new Error(`All ${count} instance slots are taken`);
+    }
+
+    async renewSlot(slot: number, owner: string): Promise<boolean> {
+        return this.hub.slotOwners.get(slot) === owner;
+    }
+}
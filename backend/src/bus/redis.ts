@@ -0,0 +1,269 @@
+import * as net from "net";
+import { logger } from "../log";
+import { BusHandler, MessageBus } from "./types";
+
+type RespValue = string | number | null | RespValue[] | Error;
+
+const RECONNECT_DELAY_MS = 1000;
+const SLOT_KEY_PREFIX = "den-den-mushi:slot:";
+
+function encodeCommand(args: string[]): Buffer {
+    const parts = [`*${args.length}\r\n`];
+    for (const arg of args) {
+        parts.push(`$${Buffer.byteLength(arg)}\r\n${arg}\r\n`);
+    }
+    return Buffer.from(parts.join(""));
+}
+
+// Parses one RESP value from `buffer` at `offset`. Returns null when the
+// buffer doesn't hold a complete value yet.
+function parseValue(buffer: Buffer, offset: number): { value: RespValue; next: number } | null {
+    const lineEnd = buffer.indexOf("\r\n", offset);
+    if (lineEnd === -1) return null;
+    const prefix = String.fromCharCode(buffer[offset]);
+    const line = buffer.toString("utf8", offset + 1, lineEnd);
+    const afterLine = lineEnd + 2;
+    switch (prefix) {
+        case "+":
+            return { value: line, next: afterLine };
+        case "-":
+            return { value: new Error(line), next: afterLine };
+        case ":":
+            return { value: Number(line), next: afterLine };
+        case "$": {
+            const length = Number(line);
+            if (length < 0) return { value: null, next: afterLine };
+            if (buffer.length < afterLine + length + 2) return null;
+            return { value: buffer.toString("utf8", afterLine, afterLine + length), next: afterLine + length + 2 };
+        }
+        case "*": {
+            const count = Number(line);
+            if (count < 0) return { value: null, next: afterLine };
+            const items: RespValue[] = [];
+            let next = afterLine;
+            for (let i = 0; i < count; i++) {
+                const item = parseValue(buffer, next);
+                if (!item) return null;
+                items.push(item.value);
+                next = item.next;
+            }
+            return { value: items, next };
+        }
+        default:
+            throw new Error(`Unexpected RESP prefix "${prefix}"`);
+    }
+}
+
+interface RedisOptions {
+    host: string;
+    port: number;
+    password?: string;
+}
+
+export function parseRedisUrl(url: string): RedisOptions {
+    const parsed = new URL(url);
+    if (parsed.protocol !== "redis:") {
+        throw new Error(`Unsupported REDIS_URL protocol "${parsed.protocol}"`);
+    }
+    return {
+        host: parsed.hostname || "127.0.0.1",
+        port: Number(parsed.port) || 6379,
+        password: parsed.password ? decodeURIComponent(parsed.password) : undefined,
+    };
+}
+
+function isPush(value: RespValue): boolean {
+    return Array.isArray(value) && (value[0] === "message" || value[0] === "pmessage");
+}
+
+// One RESP connection. Replies are matched to commands in order; pub/sub
+// pushes can interleave with replies, so they're routed to `onPush`.
+class RespConnection {
+    private socket: net.Socket | null = null;
+    private buffer: Buffer = Buffer.alloc(0);
+    private readonly waiting: Array<{ resolve: (value: RespValue) => void; reject: (err: Error) => void }> = [];
+    private closed = false;
+
+    constructor(
+        private readonly options: RedisOptions,
+        private readonly onPush: (value: RespValue) => void,
+        private readonly onReady: () => Promise<void>,
+    ) {}
+
+    connect(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const socket = net.createConnection({ host: this.options.host, port: this.options.port });
+            let settled = false;
+            socket.on("connect", () => {
+                this.socket = socket;
+                this.prepare()
+                    .then(() => {
+                        settled = true;
+                        resolve();
+                    })
+                    .catch((err: Error) => {
+                        settled = true;
+                        socket.destroy();
+                        reject(err);
+                    });
+            });
+            socket.on("data", (chunk: Buffer) => this.onData(chunk));
+            socket.on("error", (err) => {
+                if (!settled) {
+                    settled = true;
+                    reject(err);
+                }
+            });
+            socket.on("close", () => {
+                this.socket = null;
+                this.buffer = Buffer.alloc(0);
+                for (const pending of this.waiting.splice(0)) {
+                    pending.reject(new Error("Redis connection closed"));
+                }
+                if (settled && !this.closed) this.scheduleReconnect();
+            });
+        });
+    }
+
+    command(args: string[]): Promise<RespValue> {
+        const socket = this.socket;
+        if (!socket) return Promise.reject(new Error("Redis connection is not open"));
+        return new Promise((resolve, reject) => {
+            this.waiting.push({ resolve, reject });
+            socket.write(encodeCommand(args));
+        });
+    }
+
+    close(): void {
+        this.closed = true;
+        this.socket?.end();
+    }
+
+    private async prepare(): Promise<void> {
+        if (this.options.password) {
+            const reply = await this.command(["AUTH", this.options.password]);
+            if (reply instanceof Error) throw reply;
+        }
+        await this.onReady();
+    }
+
+    private scheduleReconnect(): void {
+        setTimeout(() => {
+            if (this.closed) return;
+            this.connect().catch((err) => {
+                logger.error("Redis reconnect failed", { err });
+                this.scheduleReconnect();
+            });
+        }, RECONNECT_DELAY_MS);
+    }
+
+    private onData(chunk: Buffer): void {
+        this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+        let offset = 0;
+        for (;;) {
+            let parsed: ReturnType<typeof parseValue>;
+            try {
+                parsed = parseValue(this.buffer, offset);
+            } catch (err) {
+                // Nothing after a bad reply can be trusted to line up with our
+                // commands; the close handler clears up and reconnects
+                logger.error("Unreadable reply from Redis; reconnecting", { err });
+                for (const pending of this.waiting.splice(0)) pending.reject(err as Error);
+                this.buffer = Buffer.alloc(0);
+                this.socket?.destroy();
+                return;
+            }
+            if (!parsed) break;
+            offset = parsed.next;
+            if (isPush(parsed.value)) {
+                this.onPush(parsed.value);
+                continue;
+            }
+            this.waiting.shift()?.resolve(parsed.value);
+        }
+        this.buffer = this.buffer.subarray(offset);
+    }
+}
+
+// Talks plain RESP over TCP, so it works with Redis, Valkey, KeyDB or any
+// local stand-in that implements PUBLISH/SUBSCRIBE, plus GET, SET and PEXPIRE
+// for instance slots. A subscribed connection can't issue other commands,
+// hence the separate publisher connection.
+export class RedisBus implements MessageBus {
+    private readonly handlers: Map<string, BusHandler[]> = new Map();
+    private readonly publisher: RespConnection;
+    private readonly subscriber: RespConnection;
+
+    constructor(options: RedisOptions) {
+        this.publisher = new RespConnection(options, () => undefined, async () => undefined);
+        this.subscriber = new RespConnection(options, (value) => this.onPush(value), () => this.resubscribe());
+    }
+
+    async start(): Promise<void> {
+        await Promise.all([this.publisher.connect(), this.subscriber.connect()]);
+    }
+
+    async close(): Promise<void> {
+        this.publisher.close();
+        this.subscriber.close();
+    }
+
+    async publish(channel: string, message: string): Promise<void> {
+        const reply = await this.publisher.command(["PUBLISH", channel, message]);
+        if (reply instanceof Error) throw reply;
+    }
+
+    async subscribe(channel: string, handler: BusHandler): Promise<void> {
+        const existing = this.handlers.get(channel);
+        if (existing) {
+            existing.push(handler);
+            return;
+        }
+        this.handlers.set(channel, [handler]);
+        const reply = await this.subscriber.command(["SUBSCRIBE", channel]);
+        if (reply instanceof Error) throw reply;
+    }
+
+    // Slots are keys set with NX, so only one instance can hold each, and PX,
+    // so a crashed instance's slot frees itself
+    async claimSlot(owner: string, count: number, ttlMs: number): Promise<number> {
+        for (let slot = 0; slot < count; slot++) {
+            if (await this.setSlotKey(slot, owner, ttlMs)) return slot;
+        }
+        throw new Error(`All ${count} instance slots are taken`);
+    }
+
+    // Renewals run well inside the TTL, so the key can't lapse between GET and PEXPIRE
+    async renewSlot(slot: number, owner: string, ttlMs: number): Promise<boolean> {
+        const holder = await this.publisher.command(["GET", `${SLOT_KEY_PREFIX}${slot}`]);
+        if (holder instanceof Error) throw holder;
+        if (holder === null) return this.setSlotKey(slot, owner, ttlMs);
+        if (holder !== owner) return false;
+        const reply = await this.publisher.command(["PEXPIRE", `${SLOT_KEY_PREFIX}${slot}`, String(ttlMs)]);
+        if (reply instanceof Error) throw reply;
+        return true;
+    }
+
+    private async setSlotKey(slot: number, owner: string, ttlMs: number): Promise<boolean> {
+        const reply = await this.publisher.command(["SET", `${SLOT_KEY_PREFIX}${slot}`, owner, "NX", "PX", String(ttlMs)]);
+        if (reply instanceof Error) throw reply;
+        return reply === "OK";
+    }
+
+    // Runs on every (re)connect so subscriptions survive a broker restart
+    private async resubscribe(): Promise<void> {
+        for (const channel of this.handlers.keys()) {
+            const reply = await this.subscriber.command(["SUBSCRIBE", channel]);
+            if (reply instanceof Error) throw reply;
+        }
+    }
+
+    private onPush(value: RespValue): void {
+        if (!Array.isArray(value) || value[0] !== "message") return;
+        const channel = String(value[1]);
+        const message = String(value[2]);
+        for (const handler of this.handlers.get(channel) ?? []) {
+            handler(message);
+        }
+    }
+}
@@ -0,0 +1,16 @@
+export type BusHandler = (message: string) => void;
+
+// Minimal publish/subscribe transport between server instances. Delivery is
+// best-effort and at-most-once; publishers also receive their own messages,
+// so consumers are expected to skip envelopes they originated.
+export interface MessageBus {
+    start(): Promise<void>;
+    close(): Promise<void>;
+    publish(channel: string, message: string): Promise<void>;
+    subscribe(channel: string, handler: BusHandler): Promise<void>;
+    // Claims one of `count` instance slots that no other live instance holds.
+    // A claim lapses unless renewed within ttlMs; renewing returns false once
+    // it has lapsed and another instance took the slot.
+    claimSlot(owner: string, count: number, ttlMs: number): Promise<number>;
+    renewSlot(slot: number, owner: string, ttlMs: number): Promise<boolean>;
+}
@@ -0,0 +1,141 @@
+import { RoomId, RoomRecord } from "./storage";
+import { RoomMember } from "./protocol";
+
+export const CLUSTER_CHANNEL = "den-den-mushi:events";
+
+// Envelopes exchanged between server instances over the message bus
+export type ClusterEvent =
+    | { type: "room_broadcast"; origin: string; roomId: RoomId; text: string }
+    // users maps userId -> display name; null marks a user who went offline.
+    // members carries the instance's whole roster for each listed room.
+    | {
+          type: "presence";
+          origin: string;
+          counts: Record<RoomId, number>;
+          users?: Record<string, string | null>;
+          members?: Record<RoomId, RoomMember[]>;
+          full: boolean;
+      }
+    | { type: "room_record"; origin: string; record: RoomRecord }
+    | { type: "user_deliver"; origin: string; userId: string; text: string }
+    // A moderator removed the user from the room; text goes to their dropped connections
+    | { type: "room_kick"; origin: string; roomId: RoomId; userId: string; text: string };
+
+interface InstancePresence {
+    counts: Map<RoomId, number>;
+    users: Map<string, string>;
+    members: Map<RoomId, RoomMember[]>;
+    seenAt: number;
+}
+
+// Member counts and online users reported by other instances. Each instance
+// sends deltas when membership changes and a full snapshot on every
+// heartbeat; instances that stop heartbeating are dropped after `ttlMs`.
+export class RemotePresence {
+    private readonly instances: Map<string, InstancePresence> = new Map();
+
+    constructor(private readonly ttlMs: number) {}
+
+    apply(
+        origin: string,
+        counts: Record<RoomId, number>,
+        users: Record<string, string | null> | undefined,
+        members: Record<RoomId, RoomMember[]> | undefined,
+        full: boolean,
+    ): void {
+        const existing = this.instances.get(origin);
+        const nextCounts = full || !existing ? new Map<RoomId, number>() : existing.counts;
+        for (const [roomId, count] of Object.entries(counts)) {
+            if (count > 0) {
+                nextCounts.set(roomId, count);
+            } else {
+                nextCounts.delete(roomId);
+            }
+        }
+        const nextUsers = full || !existing ? new Map<string, string>() : existing.users;
+        for (const [userId, name] of Object.entries(users ?? {})) {
+            if (name !== null) {
+                nextUsers.set(userId, name);
+            } else {
+                nextUsers.delete(userId);
+            }
+        }
+        const nextMembers = full || !existing ? new Map<RoomId, RoomMember[]>() : existing.members;
+        for (const [roomId, roster] of Object.entries(members ?? {})) {
+            if (roster.length > 0) {
+                nextMembers.set(roomId, roster);
+            } else {
+                nextMembers.delete(roomId);
+            }
+        }
+        this.instances.set(origin, { counts: nextCounts, users: nextUsers, members: nextMembers, seenAt: Date.now() });
+    }
+
+    // Room members connected to other instances; a user on several instances appears once per instance
+    members(roomId: RoomId): RoomMember[] {
+        this.prune();
+        const roster: RoomMember[] = [];
+        for (const instance of this.instances.values()) {
+            roster.push(...(instance.members.get(roomId) ?? []));
+        }
+        return roster;
+    }
+
+    // Display name of a user connected to another instance, if any
+    userName(userId: string): string | undefined {
+        this.prune();
+        for (const instance of this.instances.values()) {
+            const name = instance.users.get(userId);
+            if (name !== undefined) return name;
+        }
+        return undefined;
+    }
+
+    // userId of someone connected to another instance under this name (case-insensitive)
+    userIdByName(name: string): string | undefined {
+        this.prune();
+        const wanted = name.toLowerCase();
+        for (const instance of this.instances.values()) {
+            for (const [userId, userName] of instance.users) {
+                if (userName.toLowerCase() === wanted) return userId;
+            }
+        }
+        return undefined;
+    }
+
+    // Rooms with members on other instances
+    roomIds(): RoomId[] {
+        this.prune();
+        const roomIds = new Set<RoomId>();
+        for (const instance of this.instances.values()) {
+            for (const roomId of instance.counts.keys()) roomIds.add(roomId);
+        }
+        return [...roomIds];
+    }
+
+    count(roomId: RoomId): number {
+        this.prune();
+        let total = 0;
+        for (const instance of this.instances.values()) {
+            total += instance.counts.get(roomId) ?? 0;
+        }
+        return total;
+    }
+
+    private prune(): void {
+        const cutoff = Date.now() - this.ttlMs;
+        for (const [origin, instance] of this.instances) {
+            if (instance.seenAt < cutoff) this.instances.delete(origin);
+        }
+    }
+}
+
+export function parseClusterEvent(message: string): ClusterEvent | null {
+    try {
+        const parsed = JSON.parse(message) as ClusterEvent;
+        if (!parsed || typeof parsed !== "object" || typeof parsed.origin !== "string") return null;
+        return parsed;
+    } catch {
+        return null;
+    }
+}
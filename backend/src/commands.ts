@@ -0,0 +1,60 @@
+import { WebSocket } from "ws";
+import { ErrorCode } from "./protocol";
+import { RoomId } from "./storage";
+
+// Slash commands typed into a room's composer. The server registers the
+// built-ins at startup; rooms add their own through webhooks.
+
+export interface CommandContext {
+    socket: WebSocket;
+    roomId: RoomId;
+    userId: string;
+    name: string;
+    // Everything after the command name, trimmed
+    args: string;
+    // Answers the caller only, as a system notice in the room
+    reply(message: string): void;
+    fail(code: ErrorCode, message: string): void;
+}
+
+export type CommandHandler = (context: CommandContext) => void | Promise<void>;
+
+export interface CommandDefinition {
+    name: string;
+    // e.g. "/topic [text]"
+    usage: string;
+    description: string;
+    handler: CommandHandler;
+}
+
+export const COMMAND_NAME_PATTERN = /^[a-z][a-z0-9_-]{0,31}$/;
+
+export class CommandRegistry {
+    private readonly commands: Map<string, CommandDefinition> = new Map();
+
+    register(definition: CommandDefinition): void {
+        if (!COMMAND_NAME_PATTERN.test(definition.name)) throw new Error(`Invalid command name "${definition.name}"`);
+        if (this.commands.has(definition.name)) throw new Error(`Command /${definition.name} is already registered`);
+        this.commands.set(definition.name, definition);
+    }
+
+    get(name: string): CommandDefinition | undefined {
+        return this.commands.get(name);
+    }
+
+    has(name: string): boolean {
+        return this.commands.has(name);
+    }
+
+    list(): CommandDefinition[] {
+        return [...this.commands.values()].sort((a, b) => a.name.localeCompare(b.name));
+    }
+}
+
+// "/topic Deploy day" -> { name: "topic", args: "Deploy day" }. Plain text
+// and "//" (the escape for a literal leading slash) aren't commands.
+export function parseCommand(text: string): { name: string; args: string } | null {
+    const match = /^\/([^\s/]+)(?:\s+([\s\S]*))?$/.exec(text.trim());
+    if (!match) return null;
+    return { name: match[1].toLowerCase(), args: (match[2] ?? "").trim() };
+}
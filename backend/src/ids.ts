@@ -0,0 +1,32 @@
+// Message ids that stay unique across every instance sharing a bus and still
+// sort roughly by time. An id is a tick times ID_SLOTS plus the slot the
+// issuing instance claimed on the bus. Ticks are milliseconds since ID_EPOCH,
+// pushed forward when one instance issues several ids in the same millisecond.
+
+export const ID_SLOTS = 1024;
+const ID_EPOCH = Date.UTC(2024, 0, 1);
+
+export class MessageIds {
+    private lastTick = 0;
+    private slot = 0;
+
+    // Stored ids from before ticks existed are small, so new ids sort after them
+    observe(id: number): void {
+        this.lastTick = Math.max(this.lastTick, Math.floor(id / ID_SLOTS));
+    }
+
+    useSlot(slot: number): void {
+        this.slot = slot;
+    }
+
+    next(now = Date.now()): number {
+        this.lastTick = Math.max(this.lastTick + 1, now - ID_EPOCH);
+        return this.lastTick * ID_SLOTS + this.slot;
+    }
+
+    // The highest id any instance can have issued by `now`, allowing its clock
+    // to run up to skewMs ahead of ours
+    ceiling(now: number, skewMs: number): number {
+        return (Math.max(this.lastTick, now - ID_EPOCH + skewMs) + 1) * ID_SLOTS - 1;
+    }
+}
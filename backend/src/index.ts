@@ -1,5 +1,80 @@
 import { WebSocketServer, WebSocket, RawData } from "ws";
 import * as http from "http";
+import { signToken, verifyToken, randomSecret, secretMatches, opaqueId } from "./tokens";
+import { hashPassword, verifyPassword } from "./passwords";
+import { TokenBucket } from "./ratelimit";
+import { CommandContext, CommandRegistry, COMMAND_NAME_PATTERN, parseCommand } from "./commands";
+import { WebhookDispatcher, WebhookEvent } from "./webhooks";
+import { findMentions } from "./mentions";
+import { OutboundHttp, parseAllowedNetworks } from "./outbound";
+import { LinkPreviews } from "./previews";
+import { searchTerms } from "./search";
+import { Logger, logger } from "./log";
+import { METRICS_CONTENT_TYPE, MetricsRegistry } from "./metrics";
+import { ID_SLOTS, MessageIds } from "./ids";
+import { TRANSCRIPT_FORMATS, TRANSCRIPT_VERSION, Transcript, assignImportIds, isTranscriptFormat, parseTranscript, planImport, renderTranscript, tallyReplies } from "./transcripts";
+import { CORS_HEADERS, HttpError, httpError, matchRoute, readBody, readCredentials, readJsonBody, sendHttpError, sendJson } from "./rest";
+import { ChatRecord, MessageSearch, RoomAccess, RoomBan, RoomId, RoomRecord, RoomSettings, RoomWebhook, createStoreFromEnv } from "./storage";
+import { createBusFromEnv } from "./bus";
+import { createBlobStoreFromEnv } from "./blobs";
+import {
+    BLOB_ID_PATTERN,
+    baseContentType,
+    cleanFileName,
+    contentDisposition,
+    contentMatchesType,
+    hashContent,
+    isAllowedType,
+    isInlineType,
+    parseTypeList,
+} from "./attachments";
+import { AuthResult, createAuthFromEnv, verifiedProvider } from "./auth";
+import { CLUSTER_CHANNEL, ClusterEvent, RemotePresence, parseClusterEvent } from "./cluster";
+import {
+    ChatAttachment,
+    ChatMention,
+    ChatQuote,
+    ClientMessage,
+    CreateInviteMessage,
+    DeleteMessage,
+    DirectMessage,
+    EditMessage,
+    ErrorCode,
+    HistoryRequestMessage,
+    IdentifyMessage,
+    JoinMessage,
+    LeaveMessage,
+    MAX_ATTACHMENTS_PER_MESSAGE,
+    MEMBER_STATUSES,
+    MODERATION_ACTIONS,
+    MemberStatus,
+    MessagePatch,
+    ModerateMessage,
+    ModerationEvent,
+    PROTOCOL_VERSION,
+    REACTION_EMOJI,
+    ROOM_ACCESS_MODES,
+    ROOM_ID_MAX_LENGTH,
+    ROOM_ROLES,
+    ReactMessage,
+    RenameMessage,
+    ReadMessage,
+    RoomAccessMessage,
+    RoomAccessMode,
+    RoomMember,
+    RoomRoleMessage,
+    RoomSettingsMessage,
+    RoomStateMessage,
+    SearchRequestMessage,
+    SUPPORTED_PROTOCOL_VERSIONS,
+    ServerMessage,
+    StatusMessage,
+    ThreadRequestMessage,
+    TypingMessage,
+    decodeClientMessage,
+    encodeServerMessage,
+    normalizeRoomId,
+} from "./protocol";
 
 interface ExtendedWebSocket extends WebSocket {
     isAlive: boolean;
@@ -11,252 +86,2649 @@ declare module 'ws' {
     }
 }
 
-type RoomId = string;
+const DEFAULT_ROOM_ID: RoomId = "broadcast";
 
-interface JoinMessage {
-    type: "join";
-    payload: { roomId: RoomId };
-}
+const NAME_MIN_LENGTH = 2;
+const NAME_MAX_LENGTH = 24;
+const NAME_PATTERN = /^[A-Za-z0-9 _.-]+$/;
 
-interface ChatMessage {
-    type: "chat";
-    payload: { message: string };
-}
+const port = Number(process.env.PORT) || 8080;
+const serverSessionId = Math.random().toString(36).substring(2, 10) + Date.now().toString(36);
 
-interface IdentifyMessage {
-    type: "identify";
-    payload: { name: string };
-}
+// Resume tokens let a reconnecting client keep its userId and name. Set
+// RESUME_TOKEN_SECRET to keep tokens valid across restarts and replicas.
+const resumeTokenSecret = process.env.RESUME_TOKEN_SECRET || randomSecret();
+const RESUME_TOKEN_TTL_MS = Number(process.env.RESUME_TOKEN_TTL_MS) || 7 * 24 * 60 * 60 * 1000;
+// How long a dropped connection keeps its room seats before others see it leave
+const RESUME_GRACE_MS = Number(process.env.RESUME_GRACE_MS) || 15000;
+const MAX_ROOMS_PER_CONNECTION = Number(process.env.MAX_ROOMS_PER_CONNECTION) || 20;
+// Typing starts from one connection are relayed at most this often per room
+const TYPING_THROTTLE_MS = 2000;
 
-type IncomingMessage = JoinMessage | ChatMessage | IdentifyMessage;
+// Invite links carry a signed token naming the room; it's checked on join
+const inviteTokenSecret = process.env.INVITE_TOKEN_SECRET || resumeTokenSecret;
+const INVITE_TTL_MS = Number(process.env.INVITE_TTL_MS) || 24 * 60 * 60 * 1000;
+const MIN_INVITE_TTL_MS = 60 * 1000;
+const MAX_INVITE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const ROOM_PASSWORD_MIN_LENGTH = 4;
+const DEFAULT_MUTE_MS = 10 * 60 * 1000;
+const MIN_MUTE_MS = 10 * 1000;
+const MAX_MUTE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_SLOW_MODE_MS = 10 * 60 * 1000;
+// Flood control per connection: RATE_LIMIT_BURST frames at once, refilled at
+// RATE_LIMIT_PER_SECOND. Every frame counts, whatever its type.
+const RATE_LIMIT_BURST = Number(process.env.RATE_LIMIT_BURST) || 50;
+const RATE_LIMIT_PER_SECOND = Number(process.env.RATE_LIMIT_PER_SECOND) || 5;
+// Bigger frames are refused by ws itself, which closes the connection with 1009
+const MAX_FRAME_BYTES = Number(process.env.MAX_FRAME_BYTES) || 64 * 1024;
+const MAX_MESSAGE_LENGTH = Number(process.env.MAX_MESSAGE_LENGTH) || 4000;
+// Connections with more than this queued for sending are closed as too slow
+const MAX_BUFFERED_BYTES = Number(process.env.MAX_BUFFERED_BYTES) || 1024 * 1024;
+const TOPIC_MAX_LENGTH = 200;
+const CLIENT_ID_MAX_LENGTH = 64;
+// Replies carry the start of the message they answer
+const QUOTE_MAX_LENGTH = 140;
+const SEARCH_QUERY_MAX_LENGTH = 200;
+// Uploads are held in memory while they're checked, so keep this modest
+const ATTACHMENT_MAX_BYTES = Number(process.env.ATTACHMENT_MAX_BYTES) || 10 * 1024 * 1024;
+// SVG and HTML are left out by default: they can carry scripts
+const ATTACHMENT_TYPES = parseTypeList(
+    process.env.ATTACHMENT_TYPES || "image/png,image/jpeg,image/gif,image/webp,application/pdf,text/plain,application/zip",
+);
+// Accepted chat client ids are remembered this long so a client resending its
+// queue after a reconnect doesn't post twice
+const CLIENT_ID_TTL_MS = 10 * 60 * 1000;
+const MAX_WEBHOOKS_PER_ROOM = 10;
+// Deliveries that fail with a network error, timeout, 429 or 5xx are retried
+// with exponential backoff (1s, 2s, 4s, ...) up to WEBHOOK_MAX_ATTEMPTS in all
+const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 4;
+const WEBHOOK_TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS) || 5000;
+// Webhooks can't reach loopback, private or link-local addresses unless they're
+// listed here (addresses or CIDR ranges, comma-separated)
+const WEBHOOK_ALLOWED_NETWORKS = parseAllowedNetworks(process.env.WEBHOOK_ALLOWED_NETWORKS || "", "WEBHOOK_ALLOWED_NETWORKS");
+// The server fetches the pages behind links for previews unless LINK_PREVIEWS=false.
+// Previews, misses included, are kept for LINK_PREVIEW_TTL_MS.
+const LINK_PREVIEWS_ENABLED = (process.env.LINK_PREVIEWS || "").trim().toLowerCase() !== "false";
+const LINK_PREVIEW_TTL_MS = Number(process.env.LINK_PREVIEW_TTL_MS) || 60 * 60 * 1000;
+const LINK_PREVIEW_TIMEOUT_MS = 5000;
+const LINK_PREVIEW_CACHE_SIZE = 1000;
+// On SIGTERM/SIGINT clients are told to reconnect after SHUTDOWN_RETRY_MS plus
+// up to as much again of jitter; the whole sequence is cut off (exit code 1)
+// after SHUTDOWN_TIMEOUT_MS.
+const SHUTDOWN_RETRY_MS = Number(process.env.SHUTDOWN_RETRY_MS) || 2000;
+const SHUTDOWN_TIMEOUT_MS = Number(process.env.SHUTDOWN_TIMEOUT_MS) || 10000;
+// How long closing sockets get to finish the close handshake before they're cut
+const SHUTDOWN_DRAIN_MS = 2000;
+// When set, GET /metrics wants `Authorization: Bearer <METRICS_TOKEN>`
+const METRICS_TOKEN = process.env.METRICS_TOKEN || undefined;
+// When set, `Authorization: Bearer <ADMIN_TOKEN>` may import transcripts into any
+// room; without it imports are turned off
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || undefined;
+// Transcript uploads are parsed in one piece
+const TRANSCRIPT_MAX_BYTES = Number(process.env.TRANSCRIPT_MAX_BYTES) || 5 * 1024 * 1024;
 
-const DEFAULT_ROOM_ID: RoomId = "broadcast";
+interface ResumeTokenPayload {
+    userId: string;
+    name: string;
+    issuedAt: number;
+}
 
-const port = Number(process.env.PORT) || 8080;
-const serverSessionId = Math.random().toString(36).substring(2, 10) + Date.now().toString(36);
+interface InviteTokenPayload {
+    roomId: RoomId;
+    // RoomAccess.inviteVersion at the time of issue
+    version: number;
+    issuedBy: string;
+    expiresAt: number;
+}
+
+interface PendingDeparture {
+    roomIds: RoomId[];
+    name: string;
+    timer: NodeJS.Timeout;
+}
 
 const httpServer = http.createServer((req: http.IncomingMessage, res: http.ServerResponse<http.IncomingMessage>) => {
-    // Simple health endpoint so PaaS HTTP probes succeed
-    res.writeHead(200, { "Content-Type": "text/plain" });
-    res.end("ok");
+    handleHttpRequest(req, res).catch((err) => {
+        if (err instanceof HttpError) {
+            sendHttpError(res, err);
+            return;
+        }
+        logger.error("HTTP request failed", { method: req.method, url: req.url, err });
+        if (!res.headersSent) sendHttpError(res, new HttpError(500, "INTERNAL", "Something went wrong"));
+    });
 });
 
-const wss = new WebSocketServer({ server: httpServer });
+const wss = new WebSocketServer({ server: httpServer, maxPayload: MAX_FRAME_BYTES });
 
 const interval = setInterval(() => {
     wss.clients.forEach((ws) => {
         const extWs = ws as ExtendedWebSocket;
         if (extWs.isAlive === false) {
+            heartbeatTerminations.inc();
+            socketLog(extWs).info("Connection missed its heartbeat, terminating");
             return extWs.terminate();
         }
         extWs.isAlive = false;
         extWs.ping();
     });
+    // A full bucket holds no state worth keeping
+    for (const [key, bucket] of httpClientToRateLimit) {
+        if (bucket.isFull()) httpClientToRateLimit.delete(key);
+    }
+    const acceptedBefore = Date.now() - CLIENT_ID_TTL_MS;
+    for (const [key, accepted] of acceptedClientIds) {
+        if (accepted.at < acceptedBefore) acceptedClientIds.delete(key);
+    }
 }, 5000); // Ping every 5 seconds
 
+// Other instances learn our member counts and online users from these snapshots
+const PRESENCE_HEARTBEAT_MS = 5000;
+const presenceInterval = setInterval(() => {
+    const counts: Record<RoomId, number> = {};
+    for (const [roomId, clients] of roomIdToClients) {
+        if (clients.size > 0) counts[roomId] = clients.size;
+    }
+    const users: Record<string, string> = {};
+    for (const [client, userId] of clientToUserId) {
+        users[userId] = clientToName.get(client) ?? "";
+    }
+    const members: Record<RoomId, RoomMember[]> = {};
+    for (const roomId of roomIdToClients.keys()) {
+        const roster = localMembers(roomId);
+        if (roster.length > 0) members[roomId] = roster;
+    }
+    publishClusterEvent({ type: "presence", origin: serverSessionId, counts, users, members, full: true });
+    renewIdSlot();
+}, PRESENCE_HEARTBEAT_MS);
+
+// A slot that lapsed (say, while the broker was unreachable) may belong to
+// another instance by now, so ids move to a free one
+function renewIdSlot(): void {
+    if (!ready) return;
+    bus.renewSlot(idSlot, serverSessionId, ID_SLOT_TTL_MS)
+        .then(async (held) => {
+            if (held) return;
+            const slot = await bus.claimSlot(serverSessionId, ID_SLOTS, ID_SLOT_TTL_MS);
+            logger.warn("Message id slot was taken over; moved to another", { from: idSlot, to: slot });
+            idSlot = slot;
+            messageIds.useSlot(slot);
+        })
+        .catch((err) => logger.error("Failed to renew the message id slot", { err }));
+}
+
 wss.on('close', () => {
     clearInterval(interval);
+    clearInterval(presenceInterval);
 });
 
 const roomIdToClients: Map<RoomId, Set<WebSocket>> = new Map();
-const clientToRoomId: Map<WebSocket, RoomId> = new Map();
-const roomIdToHistory: Map<RoomId, string[]> = new Map();
-const MAX_HISTORY = 100;
+// A connection can sit in several rooms at once
+const clientToRoomIds: Map<WebSocket, Set<RoomId>> = new Map();
+// Room records are few, so they're loaded once at startup and written through
+const roomIdToRecord: Map<RoomId, RoomRecord> = new Map();
+const MAX_HISTORY = Number(process.env.MAX_HISTORY) || 100;
+const store = createStoreFromEnv(process.env, MAX_HISTORY);
+const blobs = createBlobStoreFromEnv(process.env);
+// Local account usernames follow the display name rules
+const auth = createAuthFromEnv(process.env, store, validateName);
+const commands = new CommandRegistry();
+const webhookRequests = new OutboundHttp(WEBHOOK_ALLOWED_NETWORKS);
+const webhookDispatcher = new WebhookDispatcher(WEBHOOK_MAX_ATTEMPTS, WEBHOOK_TIMEOUT_MS, webhookRequests);
+// Previews never reach internal addresses; there's no allowlist for them
+const linkPreviews = new LinkPreviews(new OutboundHttp(), LINK_PREVIEW_TIMEOUT_MS, LINK_PREVIEW_TTL_MS, LINK_PREVIEW_CACHE_SIZE);
+// Fans room traffic out to other server instances; serverSessionId doubles as
+// this instance's id on the bus.
+const bus = createBusFromEnv(process.env);
+const remotePresence = new RemotePresence(PRESENCE_HEARTBEAT_MS * 3);
+const DEFAULT_HISTORY_PAGE = 30;
+const MAX_HISTORY_PAGE = 50;
+// Unique across instances and increasing on each, so ids double as pagination
+// cursors. The slot is this instance's share of the id space, held on the bus
+// like presence: it lapses if not renewed.
+const messageIds = new MessageIds();
+let idSlot = 0;
+const ID_SLOT_TTL_MS = PRESENCE_HEARTBEAT_MS * 3;
+// Read markers may name ids issued by instances whose clocks run this far ahead
+const MAX_CLOCK_SKEW_MS = 60_000;
 const clientToName: Map<WebSocket, string> = new Map();
 const clientToUserId: Map<WebSocket, string> = new Map();
+// Connections that never reported a status count as active
+const clientToStatus: Map<WebSocket, MemberStatus> = new Map();
+// When each connection's last typing start was relayed, per room
+const clientToTypingAt: Map<WebSocket, Map<RoomId, number>> = new Map();
+const userIdToPendingDeparture: Map<string, PendingDeparture> = new Map();
+const clientToRateLimit: Map<WebSocket, TokenBucket> = new Map();
+// Connections already told they're rate limited; cleared once a frame gets through
+const rateLimitedClients: Set<WebSocket> = new Set();
+// HTTP API callers by userId, or by address for anonymous reads
+const httpClientToRateLimit: Map<string, TokenBucket> = new Map();
+// Chat messages accepted with a clientId, keyed by `${userId}:${clientId}`.
+// Local to this instance: a resend that lands elsewhere is posted again.
+const acceptedClientIds: Map<string, { roomId: RoomId; id?: number; timestamp?: number; recipients?: number; at: number }> = new Map();
+// Set once the store is loaded and the bus is subscribed; cleared on shutdown
+let ready = false;
+let shuttingDown = false;
+// Store writes in flight, awaited before the store is closed
+const pendingWrites: Set<Promise<void>> = new Set();
+// Message updates are read-modify-write against the store; chaining them per
+// room keeps concurrent reactions from overwriting each other.
+const roomIdToMessageUpdate: Map<RoomId, Promise<void>> = new Map();
+// When each user last posted to a slow-mode room; entries older than the
+// room's interval are dropped as the room is checked
+const roomIdToLastPostAt: Map<RoomId, Map<string, number>> = new Map();
+// Numbers connections in log entries; restarts from 1 with the process
+const clientToConnectionId: Map<WebSocket, number> = new Map();
+let lastConnectionId = 0;
+
+// Served at GET /metrics; gauges are read from the maps above when scraped
+const metrics = new MetricsRegistry();
+metrics.gauge("denden_connections", "Open WebSocket connections", () => wss.clients.size);
+metrics.gauge("denden_users", "Identified users with a connection to this instance", () => new Set(clientToUserId.values()).size);
+metrics.gauge("denden_rooms", "Rooms with a member connected to this instance", () => [...roomIdToClients.values()].filter((clients) => clients.size > 0).length);
+const connectionsOpened = metrics.counter("denden_connections_opened_total", "WebSocket connections accepted");
+const heartbeatTerminations = metrics.counter("denden_heartbeat_terminations_total", "Connections cut for not answering a ping");
+const framesReceived = metrics.counter("denden_frames_received_total", "Client frames handled, by message type");
+const framesRejected = metrics.counter("denden_frames_rejected_total", "Client frames that failed to parse or validate, by error code");
+const framesSent = metrics.counter("denden_frames_sent_total", "Frames written to client sockets");
+const sendsDropped = metrics.counter("denden_sends_dropped_total", "Frames not sent, by reason (closed or slow_consumer)");
+const roomMessages = metrics.counter("denden_room_messages_total", "Chat messages posted through this instance, by room");
+const broadcastSeconds = metrics.histogram(
+    "denden_broadcast_duration_seconds",
+    "Time to hand one room broadcast to this instance's sockets",
+    [0.0001, 0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25],
+);
 
-function isNameTaken(name: string): boolean {
+// Log entries about a connection carry its id and, once identified, its user
+function socketLog(socket: WebSocket): Logger {
+    return logger.child({ connectionId: clientToConnectionId.get(socket), userId: clientToUserId.get(socket) });
+}
+
+// Names are unique case-insensitively across connected users and users whose
+// seat is still held for a resume. `ownerUserId` may reuse its own name.
+function isNameTaken(name: string, ownerUserId?: string): boolean {
     const target = name.trim().toLowerCase();
-    for (const existing of clientToName.values()) {
+    for (const [client, existing] of clientToName) {
+        if (ownerUserId && clientToUserId.get(client) === ownerUserId) continue;
         if (existing.trim().toLowerCase() === target) return true;
     }
+    for (const [userId, pending] of userIdToPendingDeparture) {
+        if (userId === ownerUserId) continue;
+        if (pending.name.trim().toLowerCase() === target) return true;
+    }
+    return false;
+}
+
+// Returns a human-readable reason when the name breaks the rules, else null
+function validateName(name: string): string | null {
+    if (name.length < NAME_MIN_LENGTH || name.length > NAME_MAX_LENGTH) {
+        return `Name must be ${NAME_MIN_LENGTH}-${NAME_MAX_LENGTH} characters`;
+    }
+    if (!NAME_PATTERN.test(name)) {
+        return "Name may only contain letters, numbers, spaces, '.', '_' and '-'";
+    }
+    return null;
+}
+
+function isVerified(userId: string): boolean {
+    return verifiedProvider(userId) !== undefined;
+}
+
+// Guests can't take a name that belongs to an account
+async function isReservedName(name: string): Promise<boolean> {
+    for (const provider of auth.providers) {
+        if (provider.isReservedName && (await provider.isReservedName(name))) return true;
+    }
     return false;
 }
 
+// The first provider that recognises the credentials decides; null when none does
+async function authenticate(payload: IdentifyMessage["payload"]): Promise<AuthResult | null> {
+    const { token, username, password, register } = payload;
+    for (const provider of auth.providers) {
+        const result = await provider.authenticate({ token, username, password, register });
+        if (result) return result;
+    }
+    return null;
+}
+
+function send(socket: WebSocket, message: ServerMessage): void {
+    sendText(socket, encodeServerMessage(message));
+}
+
+// A client that stops reading would otherwise make its send buffer grow
+// without bound. Close it instead; it can reconnect and catch up from history.
+function sendText(socket: WebSocket, text: string): void {
+    if (socket.readyState !== WebSocket.OPEN) {
+        sendsDropped.inc({ reason: "closed" });
+        return;
+    }
+    if (socket.bufferedAmount > MAX_BUFFERED_BYTES) {
+        sendsDropped.inc({ reason: "slow_consumer" });
+        socketLog(socket).warn("Closing slow consumer", { bufferedBytes: socket.bufferedAmount });
+        socket.close(1013, "Too far behind");
+        return;
+    }
+    socket.send(text);
+    framesSent.inc();
+}
+
+function sendError(
+    socket: WebSocket,
+    code: ErrorCode,
+    message?: string,
+    requestType?: string,
+    extra?: { roomId?: RoomId; access?: RoomAccessMode; retryAfterMs?: number; clientId?: string },
+): void {
+    send(socket, { type: "error", payload: { code, message, requestType, ...extra } });
+}
+
+function systemNotice(roomId: RoomId, message: string): string {
+    return encodeServerMessage({ type: "system", payload: { message, roomId, timestamp: Date.now() } });
+}
+
+function socketsForUser(userId: string): WebSocket[] {
+    const sockets: WebSocket[] = [];
+    for (const [client, id] of clientToUserId) {
+        if (id === userId) sockets.push(client);
+    }
+    return sockets;
+}
+
+// Sends to every connection of a user, on this instance and on others
+function deliverToUser(userId: string, text: string): void {
+    deliverToLocalUser(userId, text);
+    publishClusterEvent({ type: "user_deliver", origin: serverSessionId, userId, text });
+}
+
+function deliverToLocalUser(userId: string, text: string): void {
+    for (const client of socketsForUser(userId)) {
+        sendText(client, text);
+    }
+}
+
+function onlineUserName(userId: string): string | undefined {
+    const local = socketsForUser(userId)[0];
+    if (local) return clientToName.get(local);
+    return remotePresence.userName(userId);
+}
+
+function sendIdentity(socket: WebSocket, userId: string, name: string, resumed: boolean, roomIds?: RoomId[]): void {
+    send(socket, {
+        type: "identity",
+        payload: {
+            name,
+            userId,
+            resumeToken: issueResumeToken(userId, name),
+            resumed,
+            verified: isVerified(userId),
+            roomIds,
+        },
+    });
+}
+
 function ensureRoomExists(roomId: RoomId): Set<WebSocket> {
     let room = roomIdToClients.get(roomId);
     if (!room) {
         room = new Set<WebSocket>();
         roomIdToClients.set(roomId, room);
     }
-    if (!roomIdToHistory.has(roomId)) {
-        roomIdToHistory.set(roomId, []);
-    }
     return room;
 }
 
-function joinRoom(socket: WebSocket, roomId: RoomId): void {
-    const currentRoomId = clientToRoomId.get(socket);
-    if (currentRoomId && currentRoomId === roomId) return;
+function isInRoom(socket: WebSocket, roomId: RoomId): boolean {
+    return clientToRoomIds.get(socket)?.has(roomId) ?? false;
+}
 
-    if (currentRoomId) {
-        const currentRoom = roomIdToClients.get(currentRoomId);
-        currentRoom?.delete(socket);
-        // notify previous room of updated count
-        broadcastRoomState(currentRoomId);
-        // Clear history if broadcast room is now empty
-        if (currentRoom?.size === 0 && currentRoomId === DEFAULT_ROOM_ID) {
-            roomIdToHistory.delete(currentRoomId);
-        }
+function joinRoom(socket: WebSocket, roomId: RoomId, announce = true): void {
+    let roomIds = clientToRoomIds.get(socket);
+    if (roomIds?.has(roomId)) {
+        // Already a member; resend the state so the client can sync up
+        send(socket, { type: "room_state", payload: roomStatePayload(roomId, true) });
+        sendReadState(socket, roomId);
+        return;
+    }
+    if (roomIds && roomIds.size >= MAX_ROOMS_PER_CONNECTION) {
+        sendError(socket, "ROOM_LIMIT", `You can be in at most ${MAX_ROOMS_PER_CONNECTION} rooms`, "join");
+        return;
+    }
+    if (!roomIds) {
+        roomIds = new Set<RoomId>();
+        clientToRoomIds.set(socket, roomIds);
     }
 
-    const newRoom = ensureRoomExists(roomId);
-    newRoom.add(socket);
-    clientToRoomId.set(socket, roomId);
+    ensureRoomExists(roomId).add(socket);
+    roomIds.add(roomId);
+    socketLog(socket).debug("Joined room", { roomId });
     // notify new room of updated count
     broadcastRoomState(roomId);
+    // The joiner gets the whole roster; everyone else just the new member
+    send(socket, { type: "room_state", payload: roomStatePayload(roomId, true) });
+    sendReadState(socket, roomId);
+    const name = clientToName.get(socket) ?? "Someone";
+    const userId = clientToUserId.get(socket);
+    if (userId) broadcastMember(roomId, userId, name);
 
     // announce join message to room
-    const name = clientToName.get(socket) ?? "Someone";
-    const notice = JSON.stringify({ type: "system", payload: { message: `${name} joined`, roomId, timestamp: Date.now() } });
-    broadcastToRoom(roomId, notice);
+    if (!announce) return;
+    broadcastToRoom(roomId, systemNotice(roomId, `${name} joined`));
+}
+
+function leaveRoom(socket: WebSocket, payload: LeaveMessage["payload"]): void {
+    const { roomId } = payload;
+    const roomIds = clientToRoomIds.get(socket);
+    if (!roomIds?.has(roomId)) {
+        sendError(socket, "NOT_IN_ROOM", "You're not in that room", "leave");
+        return;
+    }
+    roomIds.delete(roomId);
+    roomIdToClients.get(roomId)?.delete(socket);
+    clientToTypingAt.get(socket)?.delete(roomId);
+    socketLog(socket).debug("Left room", { roomId });
+    announceDeparture(roomId, clientToName.get(socket) ?? "Someone", clientToUserId.get(socket));
+}
+
+function announceDeparture(roomId: RoomId, name: string, userId?: string): void {
+    broadcastRoomState(roomId);
+    // Clear history if broadcast room is now empty
+    if (getMemberCount(roomId) === 0 && roomId === DEFAULT_ROOM_ID) {
+        persist(store.clearMessages(roomId), "clear history");
+    }
+    if (userId) broadcastMember(roomId, userId, name);
+    broadcastToRoom(roomId, systemNotice(roomId, `${name} left`));
+}
+
+function scheduleDeparture(userId: string, roomIds: RoomId[], name: string): void {
+    cancelDeparture(userId);
+    const pending: PendingDeparture = {
+        roomIds,
+        name,
+        timer: setTimeout(() => {
+            userIdToPendingDeparture.delete(userId);
+            // Read back from the entry: a kick may have dropped rooms meanwhile
+            for (const roomId of pending.roomIds) {
+                announceDeparture(roomId, name, userId);
+            }
+        }, RESUME_GRACE_MS),
+    };
+    userIdToPendingDeparture.set(userId, pending);
+}
+
+function cancelDeparture(userId: string): PendingDeparture | undefined {
+    const pending = userIdToPendingDeparture.get(userId);
+    if (pending) {
+        clearTimeout(pending.timer);
+        userIdToPendingDeparture.delete(userId);
+    }
+    return pending;
+}
+
+function issueInviteToken(roomId: RoomId, issuedBy: string, ttlMs: number): InviteTokenPayload & { token: string } {
+    const payload: InviteTokenPayload = { roomId, version: getRoomAccess(roomId).inviteVersion, issuedBy, expiresAt: Date.now() + ttlMs };
+    return { ...payload, token: signToken<InviteTokenPayload>(payload, inviteTokenSecret) };
+}
+
+function readInviteToken(token: unknown): InviteTokenPayload | null {
+    if (typeof token !== "string" || token.length === 0) return null;
+    const payload = verifyToken<InviteTokenPayload>(token, inviteTokenSecret);
+    if (!payload || typeof payload.roomId !== "string" || typeof payload.version !== "number") return null;
+    if (typeof payload.expiresAt !== "number" || payload.expiresAt < Date.now()) return null;
+    return payload;
+}
+
+function issueResumeToken(userId: string, name: string): string {
+    return signToken<ResumeTokenPayload>({ userId, name, issuedAt: Date.now() }, resumeTokenSecret);
+}
+
+function readResumeToken(token: unknown): ResumeTokenPayload | null {
+    if (typeof token !== "string" || token.length === 0) return null;
+    const payload = verifyToken<ResumeTokenPayload>(token, resumeTokenSecret);
+    if (!payload || typeof payload.userId !== "string" || typeof payload.name !== "string") return null;
+    if (typeof payload.issuedAt !== "number" || Date.now() - payload.issuedAt > RESUME_TOKEN_TTL_MS) return null;
+    return payload;
 }
 
 function broadcastToRoom(roomId: RoomId, text: string): void {
+    deliverToRoom(roomId, text);
+    publishClusterEvent({ type: "room_broadcast", origin: serverSessionId, roomId, text });
+}
+
+// Sends to this instance's sockets only
+function deliverToRoom(roomId: RoomId, text: string): void {
     const room = roomIdToClients.get(roomId);
     if (!room) return;
+    const startedAt = performance.now();
     for (const client of room) {
-        if (client.readyState === WebSocket.OPEN) {
-            client.send(text);
-        }
+        sendText(client, text);
     }
+    broadcastSeconds.observe((performance.now() - startedAt) / 1000);
 }
 
-function appendToHistory(roomId: RoomId, text: string): void {
-    const history = roomIdToHistory.get(roomId) ?? [];
-    history.push(text);
-    if (history.length > MAX_HISTORY) {
-        history.splice(0, history.length - MAX_HISTORY);
-    }
-    roomIdToHistory.set(roomId, history);
+// Store writes are fire-and-forget from the socket handlers; failures are
+// logged rather than surfaced to the sender.
+function persist(operation: Promise<void>, what: string): void {
+    const write = operation.catch((err) => {
+        logger.error(`Failed to ${what}`, { err });
+    });
+    pendingWrites.add(write);
+    void write.finally(() => pendingWrites.delete(write));
 }
 
 function getMemberCount(roomId: RoomId): number {
-    return roomIdToClients.get(roomId)?.size ?? 0;
+    return (roomIdToClients.get(roomId)?.size ?? 0) + remotePresence.count(roomId);
 }
 
-function broadcastRoomState(roomId: RoomId): void {
-    const payload = JSON.stringify({
-        type: "room_state",
-        payload: { roomId, memberCount: getMemberCount(roomId) }
+// Tell other instances whether this user still has a connection here
+function publishUserPresence(userId: string): void {
+    const local = socketsForUser(userId)[0];
+    const name = local ? clientToName.get(local) ?? null : null;
+    publishClusterEvent({ type: "presence", origin: serverSessionId, counts: {}, users: { [userId]: name }, full: false });
+}
+
+function publishClusterEvent(event: ClusterEvent): void {
+    bus.publish(CLUSTER_CHANNEL, JSON.stringify(event)).catch((err) => {
+        logger.error("Failed to publish cluster event", { eventType: event.type, err });
     });
-    broadcastToRoom(roomId, payload);
 }
 
-// Note: We intentionally do NOT send history to clients to avoid exposing
-// past messages to new joiners.
+function handleClusterEvent(message: string): void {
+    const event = parseClusterEvent(message);
+    if (!event || event.origin === serverSessionId) return;
+    switch (event.type) {
+        case "room_broadcast":
+            deliverToRoom(event.roomId, event.text);
+            break;
+        case "presence":
+            remotePresence.apply(event.origin, event.counts, event.users, event.members, event.full);
+            break;
+        case "room_record":
+            roomIdToRecord.set(event.record.roomId, event.record);
+            break;
+        case "user_deliver":
+            deliverToLocalUser(event.userId, event.text);
+            break;
+        case "room_kick":
+            removeLocalUserFromRoom(event.roomId, event.userId, event.text);
+            break;
+    }
+}
 
-wss.on("connection", (socket: WebSocket) => {
-    const extSocket = socket as ExtendedWebSocket;
-    extSocket.isAlive = true;
-    extSocket.on('pong', () => {
-        extSocket.isAlive = true;
-    });
-    // Send server info immediately on connection
-    extSocket.send(JSON.stringify({ type: "server_info", payload: { sessionId: serverSessionId } }));
-    // Require identity before joining rooms or chatting
-    if (socket.readyState === WebSocket.OPEN) {
-        socket.send(JSON.stringify({ type: "require_identity" }));
+function getRoomSettings(roomId: RoomId): RoomSettings {
+    return roomIdToRecord.get(roomId)?.settings ?? { historyReplay: false };
+}
+
+function getRoomAccess(roomId: RoomId): RoomAccess {
+    return roomIdToRecord.get(roomId)?.access ?? { mode: "open", inviteVersion: 0 };
+}
+
+function isRoomOwner(roomId: RoomId, userId: string): boolean {
+    return userId !== "" && roomIdToRecord.get(roomId)?.ownerUserId === userId;
+}
+
+// Owners count as moderators
+function isRoomModerator(roomId: RoomId, userId: string): boolean {
+    return isRoomOwner(roomId, userId) || (roomIdToRecord.get(roomId)?.moderatorUserIds ?? []).includes(userId);
+}
+
+// Rooms without an owner (the default room, rooms from before owners existed)
+// can be configured by any member
+function canManageRoom(roomId: RoomId, userId: string): boolean {
+    return !roomIdToRecord.get(roomId)?.ownerUserId || isRoomModerator(roomId, userId);
+}
+
+function updateRoomRecord(roomId: RoomId, changes: Partial<Omit<RoomRecord, "roomId">>): RoomRecord {
+    const record: RoomRecord = { roomId, createdAt: Date.now(), settings: { historyReplay: false }, ...roomIdToRecord.get(roomId), ...changes };
+    roomIdToRecord.set(roomId, record);
+    persist(store.saveRoom(record), "save room");
+    publishClusterEvent({ type: "room_record", origin: serverSessionId, record });
+    return record;
+}
+
+function updateRoomSettings(roomId: RoomId, settings: RoomSettings): void {
+    updateRoomRecord(roomId, { settings });
+}
+
+// Returns null when the user may join, else why not. Users who get in with a
+// password or invite are remembered so rejoining doesn't ask again.
+async function checkRoomAccess(roomId: RoomId, userId: string, payload: JoinMessage["payload"]): Promise<string | null> {
+    const record = roomIdToRecord.get(roomId);
+    const access = getRoomAccess(roomId);
+    if (!record || access.mode === "open") return null;
+    if (isRoomModerator(roomId, userId) || (record.admittedUserIds ?? []).includes(userId)) return null;
+    const invite = readInviteToken(payload.invite);
+    let admitted = invite !== null && invite.roomId === roomId && invite.version === access.inviteVersion;
+    if (!admitted && access.mode === "password" && payload.password && access.passwordHash && access.passwordSalt) {
+        admitted = await verifyPassword(payload.password, access.passwordHash, access.passwordSalt);
+    }
+    if (admitted) {
+        const admittedUserIds = roomIdToRecord.get(roomId)?.admittedUserIds ?? [];
+        if (!admittedUserIds.includes(userId)) updateRoomRecord(roomId, { admittedUserIds: [...admittedUserIds, userId] });
+        return null;
     }
+    if (payload.invite) return "This invite link has expired or was revoked";
+    if (access.mode === "password") return payload.password ? "Wrong password" : "This room needs a password";
+    return "This room is invite-only";
+}
 
-    socket.on("close", () => {
-        const roomId = clientToRoomId.get(socket);
-        if (roomId) {
-            roomIdToClients.get(roomId)?.delete(socket);
-            clientToRoomId.delete(socket);
-            broadcastRoomState(roomId);
-            // Clear history if broadcast room is now empty
-            if (roomIdToClients.get(roomId)?.size === 0 && roomId === DEFAULT_ROOM_ID) {
-                roomIdToHistory.delete(roomId);
-            }
-            const name = clientToName.get(socket) ?? "Someone";
-            const notice = JSON.stringify({ type: "system", payload: { message: `${name} left`, roomId, timestamp: Date.now() } });
-            broadcastToRoom(roomId, notice);
+function roomStatePayload(roomId: RoomId, withMembers = false): RoomStateMessage["payload"] {
+    const record = roomIdToRecord.get(roomId);
+    const settings = getRoomSettings(roomId);
+    return {
+        roomId,
+        memberCount: getMemberCount(roomId),
+        historyReplay: settings.historyReplay,
+        access: getRoomAccess(roomId).mode,
+        ownerUserId: record?.ownerUserId,
+        moderatorUserIds: record?.moderatorUserIds ?? [],
+        slowModeMs: settings.slowModeMs ?? 0,
+        topic: settings.topic,
+        mutedUntil: activeMutes(roomId),
+        members: withMembers ? roomMembers(roomId) : undefined,
+    };
+}
+
+// Mutes that haven't run out yet, userId -> end time
+function activeMutes(roomId: RoomId): Record<string, number> {
+    const now = Date.now();
+    const mutes = Object.entries(roomIdToRecord.get(roomId)?.mutedUntil ?? {});
+    return Object.fromEntries(mutes.filter(([, until]) => until > now));
+}
+
+function banMatches(ban: RoomBan, userId: string | undefined, name: string | undefined): boolean {
+    if (userId !== undefined && ban.userId === userId) return true;
+    return name !== undefined && ban.name !== undefined && ban.name.toLowerCase() === name.toLowerCase();
+}
+
+function findBan(roomId: RoomId, userId: string | undefined, name: string | undefined): RoomBan | undefined {
+    return (roomIdToRecord.get(roomId)?.bans ?? []).find((ban) => banMatches(ban, userId, name));
+}
+
+// Milliseconds until the user may post again under slow mode, or 0
+function slowModeWait(roomId: RoomId, userId: string, now: number): number {
+    const slowModeMs = getRoomSettings(roomId).slowModeMs ?? 0;
+    if (slowModeMs <= 0 || isRoomModerator(roomId, userId)) return 0;
+    let lastPosts = roomIdToLastPostAt.get(roomId);
+    if (!lastPosts) {
+        lastPosts = new Map();
+        roomIdToLastPostAt.set(roomId, lastPosts);
+    }
+    for (const [posterId, at] of lastPosts) {
+        if (at + slowModeMs <= now) lastPosts.delete(posterId);
+    }
+    const last = lastPosts.get(userId);
+    if (last !== undefined) return last + slowModeMs - now;
+    lastPosts.set(userId, now);
+    return 0;
+}
+
+function describeDuration(ms: number): string {
+    const units: [string, number][] = [
+        ["day", 24 * 60 * 60 * 1000],
+        ["hour", 60 * 60 * 1000],
+        ["minute", 60 * 1000],
+    ];
+    for (const [unit, size] of units) {
+        if (ms >= size) {
+            const count = Math.round(ms / size);
+            return `${count} ${unit}${count === 1 ? "" : "s"}`;
         }
-        clientToName.delete(socket);
-        (socket as ExtendedWebSocket).isAlive = false;
+    }
+    const seconds = Math.max(1, Math.ceil(ms / 1000));
+    return `${seconds} second${seconds === 1 ? "" : "s"}`;
+}
+
+// Mentions only reach people in the room, on this instance or another
+function resolveMentions(roomId: RoomId, text: string): ChatMention[] {
+    if (!text.includes("@")) return [];
+    return findMentions(text, [...localMembers(roomId), ...remotePresence.members(roomId)]);
+}
+
+// One entry per user; a user is active if any of their connections is
+function localMembers(roomId: RoomId): RoomMember[] {
+    const byUserId = new Map<string, RoomMember>();
+    for (const client of roomIdToClients.get(roomId) ?? []) {
+        const userId = clientToUserId.get(client);
+        if (!userId || byUserId.get(userId)?.status === "active") continue;
+        byUserId.set(userId, {
+            userId,
+            name: clientToName.get(client) ?? "",
+            status: clientToStatus.get(client) ?? "active",
+            ...(isVerified(userId) ? { verified: true } : {}),
+        });
+    }
+    // Users inside their resume grace window keep their seat, shown as idle
+    for (const [userId, pending] of userIdToPendingDeparture) {
+        if (!byUserId.has(userId) && pending.roomIds.includes(roomId)) {
+            byUserId.set(userId, { userId, name: pending.name, status: "idle", ...(isVerified(userId) ? { verified: true } : {}) });
+        }
+    }
+    return [...byUserId.values()];
+}
+
+function roomMembers(roomId: RoomId): RoomMember[] {
+    const byUserId = new Map<string, RoomMember>();
+    for (const member of [...localMembers(roomId), ...remotePresence.members(roomId)]) {
+        if (byUserId.get(member.userId)?.status === "active") continue;
+        byUserId.set(member.userId, member);
+    }
+    return [...byUserId.values()];
+}
+
+// Membership or a member's status changed here; tell other instances before
+// they relay the new count or roster entry
+function publishRoomPresence(roomId: RoomId): void {
+    const localCount = roomIdToClients.get(roomId)?.size ?? 0;
+    publishClusterEvent({
+        type: "presence",
+        origin: serverSessionId,
+        counts: { [roomId]: localCount },
+        members: { [roomId]: localMembers(roomId) },
+        full: false,
     });
+}
 
-    socket.on("message", (data: RawData) => {
-        const text = data.toString();
+function broadcastRoomState(roomId: RoomId): void {
+    publishRoomPresence(roomId);
+    broadcastToRoom(roomId, encodeServerMessage({ type: "room_state", payload: roomStatePayload(roomId) }));
+}
 
-        // Try to parse protocol JSON; if not JSON, treat as raw chat to current room
-        try {
-            const parsed = JSON.parse(text) as IncomingMessage;
-            if (parsed.type === "join") {
-                if (!clientToName.has(socket)) {
-                    if (socket.readyState === WebSocket.OPEN) {
-                        socket.send(JSON.stringify({ type: "error", payload: { code: "NOT_IDENTIFIED" } }));
-                    }
+// Sends the user's current roster entry, or "left" once they're gone
+function broadcastMember(roomId: RoomId, userId: string, name: string): void {
+    publishRoomPresence(roomId);
+    const member = roomMembers(roomId).find((entry) => entry.userId === userId);
+    const payload = member ? { roomId, ...member } : { roomId, userId, name, status: "left" as const };
+    broadcastToRoom(roomId, encodeServerMessage({ type: "presence", payload }));
+}
+
+// Every frame spends a token. Only the first refused frame gets an error back;
+// the rest are dropped quietly until the bucket refills.
+function allowFrame(socket: WebSocket): boolean {
+    const bucket = clientToRateLimit.get(socket);
+    if (!bucket || bucket.take()) {
+        rateLimitedClients.delete(socket);
+        return true;
+    }
+    if (!rateLimitedClients.has(socket)) {
+        rateLimitedClients.add(socket);
+        sendError(socket, "RATE_LIMITED", "You're sending too fast", undefined, { retryAfterMs: bucket.retryAfterMs() });
+    }
+    return false;
+}
+
+function isTooLong(socket: WebSocket, text: string, requestType: string, clientId?: string): boolean {
+    if (text.length <= MAX_MESSAGE_LENGTH) return false;
+    sendError(socket, "MESSAGE_TOO_LARGE", `Messages are limited to ${MAX_MESSAGE_LENGTH} characters`, requestType, { clientId });
+    return true;
+}
+
+function postChat(socket: WebSocket, roomId: RoomId, messageText: string, clientId?: string, attachmentRefs?: unknown[], replyTo?: number): void {
+    const userId = clientToUserId.get(socket) ?? "";
+    // The validator only lets arrays through, but a throw here would take the process down
+    const attachments = Array.isArray(attachmentRefs) ? attachmentRefs : [];
+    if (clientId !== undefined) {
+        // Rechecked here: this runs inside the socket listener, where a throw takes the process down
+        if (typeof clientId !== "string" || clientId.length === 0 || clientId.length > CLIENT_ID_MAX_LENGTH) {
+            sendError(socket, "BAD_REQUEST", `clientId must be 1-${CLIENT_ID_MAX_LENGTH} characters`, "chat");
+            return;
+        }
+        // Already accepted: the ack was lost, not the message
+        const accepted = acceptedClientIds.get(`${userId}:${clientId}`);
+        if (accepted) {
+            const { roomId: acceptedRoomId, id, timestamp, recipients } = accepted;
+            send(socket, { type: "chat_ack", payload: { clientId, roomId: acceptedRoomId, id, timestamp, recipients } });
+            return;
+        }
+    }
+    if ((messageText.length === 0 && attachments.length === 0) || isTooLong(socket, messageText, "chat", clientId)) return;
+    if (!isInRoom(socket, roomId)) {
+        sendError(socket, "NOT_IN_ROOM", "Join the room before posting to it", "chat", { roomId, clientId });
+        return;
+    }
+    // Commands answer for themselves, in the room rather than a thread; the
+    // ack only says it was received
+    const command = attachments.length === 0 ? parseCommand(messageText) : null;
+    if (command) {
+        if (clientId !== undefined) acknowledgeChat(socket, userId, clientId, roomId);
+        runCommand(socket, roomId, command.name, command.args, messageText);
+        return;
+    }
+    if (attachments.length > 0 || replyTo !== undefined) {
+        prepareChat(roomId, attachments, replyTo)
+            .then((prepared) => {
+                if ("code" in prepared) {
+                    sendError(socket, prepared.code, prepared.message, "chat", { roomId, clientId });
+                    return;
+                }
+                // Membership may have changed while the blobs and parent were looked up
+                if (!isInRoom(socket, roomId)) {
+                    sendError(socket, "NOT_IN_ROOM", "Join the room before posting to it", "chat", { roomId, clientId });
                     return;
                 }
-                const nextRoomId = parsed.payload?.roomId?.trim() || DEFAULT_ROOM_ID;
-                joinRoom(socket, nextRoomId);
+                acceptChat(socket, roomId, messageText, clientId, prepared);
+            })
+            .catch((err) => {
+                socketLog(socket).error("Failed to prepare chat message", { roomId, err });
+                sendError(socket, "INTERNAL", "Could not send the message", "chat", { roomId, clientId });
+            });
+        return;
+    }
+    acceptChat(socket, roomId, messageText, clientId);
+}
+
+// Posts a checked chat message unless the sender is muted or slowed down
+function acceptChat(socket: WebSocket, roomId: RoomId, messageText: string, clientId?: string, flags: ChatFlags = {}): void {
+    // "//" escapes a message that should start with a slash
+    if (messageText.startsWith("//")) messageText = messageText.slice(1);
+    const userId = clientToUserId.get(socket) ?? "";
+    const now = Date.now();
+    const refusal = postRefusal(roomId, userId, now);
+    if (refusal) {
+        sendError(socket, refusal.code, refusal.message, "chat", { roomId, retryAfterMs: refusal.retryAfterMs, clientId });
+        return;
+    }
+    // A sent message ends the sender's typing indicator on clients
+    clientToTypingAt.get(socket)?.delete(roomId);
+    const acknowledge = clientId !== undefined ? (record: ChatRecord) => acknowledgeChat(socket, userId, clientId, roomId, record) : undefined;
+    publishChat(roomId, userId, clientToName.get(socket) ?? "Anonymous", messageText, now, flags, acknowledge);
+}
+
+// Looks up what a message refers to: the blobs it attaches and the message it replies to
+async function prepareChat(roomId: RoomId, refs: unknown[], replyTo?: number): Promise<ChatFlags | { code: ErrorCode; message: string }> {
+    const flags: ChatFlags = {};
+    if (refs.length > 0) {
+        const attachments = await resolveAttachments(refs);
+        if (!Array.isArray(attachments)) return attachments;
+        flags.attachments = attachments;
+    }
+    if (replyTo !== undefined) {
+        const reply = await resolveReply(roomId, replyTo);
+        if ("code" in reply) return reply;
+        flags.replyTo = reply.replyTo;
+        flags.quote = reply.quote;
+    }
+    return flags;
+}
+
+// Threads are one level deep: a reply to a reply belongs to the same thread
+async function resolveReply(roomId: RoomId, replyTo: number): Promise<{ replyTo: number; quote: ChatQuote } | { code: ErrorCode; message: string }> {
+    const parent = Number.isInteger(replyTo) && replyTo > 0 ? await store.getMessage(roomId, replyTo) : undefined;
+    if (!parent || parent.deleted) return { code: "MESSAGE_NOT_FOUND", message: "The message you replied to no longer exists" };
+    if (parent.replyTo !== undefined) return resolveReply(roomId, parent.replyTo);
+    return { replyTo: parent.id, quote: { sender: parent.sender, userId: parent.userId, message: quoteText(parent) } };
+}
+
+function quoteText(record: ChatRecord): string {
+    const text = record.message || (record.attachments ?? []).map((attachment) => attachment.name).join(", ");
+    return text.length > QUOTE_MAX_LENGTH ? `${text.slice(0, QUOTE_MAX_LENGTH - 1).trimEnd()}…` : text;
+}
+
+// Checks attachment references against the blob store and fills in their
+// size and type. Names are the sender's; only the bytes are shared.
+async function resolveAttachments(refs: unknown[]): Promise<ChatAttachment[] | { code: ErrorCode; message: string }> {
+    if (refs.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+        return { code: "BAD_REQUEST", message: `Messages can carry up to ${MAX_ATTACHMENTS_PER_MESSAGE} attachments` };
+    }
+    const attachments: ChatAttachment[] = [];
+    for (const ref of refs) {
+        const { id, name } = (typeof ref === "object" && ref !== null ? ref : {}) as Record<string, unknown>;
+        if (typeof id !== "string" || !BLOB_ID_PATTERN.test(id) || typeof name !== "string") {
+            return { code: "BAD_REQUEST", message: "Attachments need the id and name returned by the upload" };
+        }
+        const info = await blobs.stat(id);
+        if (!info) return { code: "BAD_REQUEST", message: "That attachment hasn't been uploaded" };
+        attachments.push({ id, name: cleanFileName(name) || "attachment", size: info.size, contentType: info.contentType });
+    }
+    return attachments;
+}
+
+// An imported message's attachments, less any whose files aren't stored here.
+// Size and type come from the blob store, as they do for new messages.
+async function storedAttachments(attachments: ChatAttachment[]): Promise<ChatAttachment[]> {
+    const kept: ChatAttachment[] = [];
+    for (const { id, name } of attachments.slice(0, MAX_ATTACHMENTS_PER_MESSAGE)) {
+        const info = BLOB_ID_PATTERN.test(id) ? await blobs.stat(id) : undefined;
+        if (info) kept.push({ id, name: cleanFileName(name) || "attachment", size: info.size, contentType: info.contentType });
+    }
+    return kept;
+}
+
+function acknowledgeChat(socket: WebSocket, userId: string, clientId: string, roomId: RoomId, record?: ChatRecord): void {
+    const receipt = record ? { id: record.id, timestamp: record.timestamp, recipients: recipientCount(roomId, userId) } : {};
+    acceptedClientIds.set(`${userId}:${clientId}`, { roomId, ...receipt, at: Date.now() });
+    send(socket, { type: "chat_ack", payload: { clientId, roomId, ...receipt } });
+}
+
+// Other users with an open connection to the room, here or on other instances
+function recipientCount(roomId: RoomId, senderId: string): number {
+    const userIds: Set<string> = new Set();
+    for (const client of roomIdToClients.get(roomId) ?? []) {
+        const userId = clientToUserId.get(client);
+        if (userId && userId !== senderId && client.readyState === WebSocket.OPEN) userIds.add(userId);
+    }
+    for (const member of remotePresence.members(roomId)) {
+        if (member.userId !== senderId) userIds.add(member.userId);
+    }
+    return userIds.size;
+}
+
+// Mute and slow-mode checks, shared by socket and HTTP posts. An allowed post
+// starts the poster's slow-mode interval.
+function postRefusal(roomId: RoomId, userId: string, now: number): { code: ErrorCode; message: string; retryAfterMs: number } | null {
+    const mutedUntil = activeMutes(roomId)[userId];
+    if (mutedUntil !== undefined) {
+        const retryAfterMs = mutedUntil - now;
+        return { code: "MUTED", message: `You're muted here for another ${describeDuration(retryAfterMs)}`, retryAfterMs };
+    }
+    const retryAfterMs = slowModeWait(roomId, userId, now);
+    if (retryAfterMs > 0) {
+        return { code: "SLOW_MODE", message: `Slow mode is on; you can post again in ${describeDuration(retryAfterMs)}`, retryAfterMs };
+    }
+    return null;
+}
+
+type ChatFlags = { action?: boolean; bot?: boolean; attachments?: ChatAttachment[]; replyTo?: number; quote?: ChatQuote };
+
+function publishChat(
+    roomId: RoomId,
+    userId: string,
+    sender: string,
+    messageText: string,
+    now: number,
+    flags: ChatFlags = {},
+    // Called with the new id before the broadcast, so the sender can match it up
+    acknowledge?: (record: ChatRecord) => void,
+): ChatRecord {
+    const record: ChatRecord = {
+        id: messageIds.next(),
+        message: messageText,
+        sender,
+        userId,
+        roomId,
+        timestamp: now,
+        ...(isVerified(userId) ? { verified: true } : {}),
+        ...(flags.action ? { action: true } : {}),
+        ...(flags.bot ? { bot: true } : {}),
+        ...(flags.attachments?.length ? { attachments: flags.attachments } : {}),
+        ...(flags.replyTo !== undefined ? { replyTo: flags.replyTo, quote: flags.quote } : {}),
+    };
+    const mentions = resolveMentions(roomId, messageText);
+    if (mentions.length > 0) record.mentions = mentions;
+    persist(store.appendMessage(record), "store message");
+    roomMessages.inc({ room: roomId });
+    acknowledge?.(record);
+    broadcastToRoom(roomId, encodeServerMessage({ type: "chat", payload: record }));
+    if (record.replyTo !== undefined) countReply(roomId, record.replyTo, now);
+    // Bot replies aren't fed back to webhooks, so two bots can't loop
+    if (!record.bot) {
+        for (const webhook of roomWebhooks(roomId)) {
+            if (webhook.commands.length === 0) void runWebhook(roomId, webhook, { type: "message", roomId, message: record });
+        }
+    }
+    return record;
+}
+
+function roomWebhooks(roomId: RoomId): RoomWebhook[] {
+    return roomIdToRecord.get(roomId)?.webhooks ?? [];
+}
+
+// Delivers the event and posts whatever text the receiver answers with.
+// Resolves with why delivery failed (already logged), or null.
+function runWebhook(roomId: RoomId, webhook: RoomWebhook, event: WebhookEvent): Promise<string | null> {
+    return webhookDispatcher.deliver(webhook, event).then(
+        (reply) => {
+            const text = reply.text?.trim().slice(0, MAX_MESSAGE_LENGTH);
+            if (!text) return null;
+            const botName = reply.name && !validateName(reply.name.trim()) ? reply.name.trim() : new URL(webhook.url).hostname;
+            publishChat(roomId, `webhook-${webhook.id}`, botName, text, Date.now(), { bot: true });
+            return null;
+        },
+        (err) => {
+            const reason = err instanceof Error ? err.message : String(err);
+            logger.warn("Webhook delivery failed", { webhookId: webhook.id, roomId, reason });
+            return reason;
+        },
+    );
+}
+
+// Built-ins first, then commands the room's webhooks answer
+function runCommand(socket: WebSocket, roomId: RoomId, commandName: string, args: string, text: string): void {
+    const context: CommandContext = {
+        socket,
+        roomId,
+        userId: clientToUserId.get(socket) ?? "",
+        name: clientToName.get(socket) ?? "Someone",
+        args,
+        reply: (message) => send(socket, { type: "system", payload: { message, roomId, timestamp: Date.now() } }),
+        fail: (code, message) => sendError(socket, code, message, "chat", { roomId }),
+    };
+    const builtIn = commands.get(commandName);
+    if (builtIn) {
+        Promise.resolve()
+            .then(() => builtIn.handler(context))
+            .catch((err) => {
+                logger.error("Command failed", { command: commandName, roomId: context.roomId, userId: context.userId, err });
+                context.fail("INTERNAL", `/${commandName} failed`);
+            });
+        return;
+    }
+    const webhook = roomWebhooks(roomId).find((candidate) => candidate.commands.includes(commandName));
+    if (!webhook) {
+        context.fail("UNKNOWN_COMMAND", `There's no /${commandName} here; /help lists the commands`);
+        return;
+    }
+    // The room sees the command as a message, so mutes and slow mode apply
+    const now = Date.now();
+    const refusal = postRefusal(roomId, context.userId, now);
+    if (refusal) {
+        sendError(socket, refusal.code, refusal.message, "chat", { roomId, retryAfterMs: refusal.retryAfterMs });
+        return;
+    }
+    clientToTypingAt.get(socket)?.delete(roomId);
+    publishChat(roomId, context.userId, context.name, text, now);
+    const event: WebhookEvent = { type: "command", roomId, command: commandName, args, userId: context.userId, name: context.name };
+    void runWebhook(roomId, webhook, event).then((failure) => {
+        if (failure) context.reply(`/${commandName} didn't answer (${failure})`);
+    });
+}
+
+commands.register({
+    name: "help",
+    usage: "/help",
+    description: "list the commands you can use here",
+    handler: ({ roomId, reply }) => {
+        const lines = commands.list().map((command) => `${command.usage} — ${command.description}`);
+        for (const webhook of roomWebhooks(roomId)) {
+            lines.push(...webhook.commands.map((name) => `/${name} — answered by a webhook`));
+        }
+        reply(["Commands:", ...lines, "Start a message with // to send a literal slash."].join("\n"));
+    },
+});
+
+commands.register({
+    name: "me",
+    usage: "/me <action>",
+    description: "post an action, like “* Alice waves”",
+    handler: ({ socket, roomId, userId, name, args, reply, fail }) => {
+        if (!args) {
+            reply("Usage: /me <action>");
+            return;
+        }
+        const now = Date.now();
+        const refusal = postRefusal(roomId, userId, now);
+        if (refusal) {
+            fail(refusal.code, refusal.message);
+            return;
+        }
+        clientToTypingAt.get(socket)?.delete(roomId);
+        publishChat(roomId, userId, name, args, now, { action: true });
+    },
+});
+
+commands.register({
+    name: "nick",
+    usage: "/nick <name>",
+    description: "change your display name",
+    handler: ({ socket, args, reply }) => {
+        if (!args) {
+            reply("Usage: /nick <name>");
+            return;
+        }
+        return handleRename(socket, { name: args }, "chat");
+    },
+});
+
+commands.register({
+    name: "who",
+    usage: "/who",
+    description: "list who's in the room",
+    handler: ({ roomId, reply }) => {
+        const members = roomMembers(roomId).sort((a, b) => a.name.localeCompare(b.name));
+        const names = members.map((member) => (member.status === "idle" ? `${member.name} (idle)` : member.name));
+        reply(`In #${roomId} (${members.length}): ${names.join(", ")}`);
+    },
+});
+
+commands.register({
+    name: "topic",
+    usage: "/topic [text | -]",
+    description: "show the room topic, set it, or clear it with -",
+    handler: ({ roomId, userId, name, args, reply, fail }) => {
+        const settings = getRoomSettings(roomId);
+        if (!args) {
+            reply(settings.topic ? `Topic: ${settings.topic}` : "No topic set; /topic <text> sets one");
+            return;
+        }
+        if (!canManageRoom(roomId, userId)) {
+            fail("FORBIDDEN", "Only the owner and moderators can change the topic");
+            return;
+        }
+        const topic = args === "-" ? undefined : args;
+        if (topic && topic.length > TOPIC_MAX_LENGTH) {
+            fail("BAD_REQUEST", `Topics are limited to ${TOPIC_MAX_LENGTH} characters`);
+            return;
+        }
+        if (topic === settings.topic) return;
+        updateRoomSettings(roomId, { ...settings, topic });
+        broadcastRoomState(roomId);
+        broadcastToRoom(roomId, systemNotice(roomId, topic ? `${name} set the topic: ${topic}` : `${name} cleared the topic`));
+    },
+});
+
+commands.register({
+    name: "webhook",
+    usage: "/webhook add <url> [command ...] | list | remove <id> | test <id>",
+    description: "manage the room's outgoing webhooks (owner and moderators)",
+    handler: (context) => handleWebhookCommand(context),
+});
+
+async function handleWebhookCommand({ roomId, userId, name, args, reply, fail }: CommandContext): Promise<void> {
+    if (!isRoomModerator(roomId, userId)) {
+        fail("FORBIDDEN", "Only the owner and moderators can manage webhooks");
+        return;
+    }
+    const [action = "", ...rest] = args.split(/\s+/).filter((part) => part.length > 0);
+    const existing = roomWebhooks(roomId);
+    switch (action.toLowerCase()) {
+        case "add": {
+            const [url, ...commandNames] = rest;
+            let parsed: URL | null = null;
+            try {
+                parsed = url ? new URL(url) : null;
+            } catch {
+                parsed = null;
+            }
+            if (!parsed || (parsed.protocol !== "http:" && parsed.protocol !== "https:")) {
+                fail("BAD_REQUEST", "Give the webhook an http:// or https:// URL");
                 return;
             }
-            if (parsed.type === "identify") {
-                const nextName = String(parsed.payload?.name ?? "").trim();
-                if (nextName.length === 0) return;
-                const userId = Math.random().toString(36).substring(2, 10);
-                clientToUserId.set(socket, userId);
-                clientToName.set(socket, nextName);
-                if (socket.readyState === WebSocket.OPEN) {
-                    socket.send(JSON.stringify({ type: "identity", payload: { name: nextName, userId } }));
-                }
+            if (existing.length >= MAX_WEBHOOKS_PER_ROOM) {
+                fail("BAD_REQUEST", `Rooms can have at most ${MAX_WEBHOOKS_PER_ROOM} webhooks`);
                 return;
             }
-            if (parsed.type === "chat") {
-                if (!clientToName.has(socket)) {
-                    if (socket.readyState === WebSocket.OPEN) {
-                        socket.send(JSON.stringify({ type: "error", payload: { code: "NOT_IDENTIFIED" } }));
-                    }
-                    return;
-                }
-                const roomId = clientToRoomId.get(socket) || DEFAULT_ROOM_ID;
-                const messageText = String(parsed.payload?.message ?? "");
-                if (messageText.length > 0) {
-                    const outgoing = JSON.stringify({
-                        type: "chat",
-                        payload: {
-                            message: messageText,
-                            sender: clientToName.get(socket) ?? "Anonymous",
-                            userId: clientToUserId.get(socket) ?? "",
-                            roomId,
-                            timestamp: Date.now(),
-                        },
-                    });
-                    appendToHistory(roomId, outgoing);
-                    broadcastToRoom(roomId, outgoing);
-                }
+            const names = [...new Set(commandNames.map((command) => command.replace(/^\//, "").toLowerCase()))];
+            const invalid = names.find((command) => !COMMAND_NAME_PATTERN.test(command));
+            if (invalid !== undefined) {
+                fail("BAD_REQUEST", `"${invalid}" isn't a valid command name`);
                 return;
             }
-        } catch {
-            // Not JSON → fallback to chatting in current room
-            if (!clientToName.has(socket)) {
-                if (socket.readyState === WebSocket.OPEN) {
-                    socket.send(JSON.stringify({ type: "error", payload: { code: "NOT_IDENTIFIED" } }));
-                }
+            const taken = names.find((command) => commands.has(command) || existing.some((webhook) => webhook.commands.includes(command)));
+            if (taken !== undefined) {
+                fail("BAD_REQUEST", `/${taken} is already taken in this room`);
                 return;
             }
-            const roomId = clientToRoomId.get(socket) || DEFAULT_ROOM_ID;
-            if (text.length > 0) {
-                const outgoing = JSON.stringify({
-                    type: "chat",
-                    payload: {
-                        message: text,
-                        sender: clientToName.get(socket) ?? "Anonymous",
-                        roomId,
-                        timestamp: Date.now(),
-                    },
-                });
-                appendToHistory(roomId, outgoing);
-                broadcastToRoom(roomId, outgoing);
+            const refusal = await webhookRequests.refusal(parsed);
+            if (refusal) {
+                fail("BAD_REQUEST", `Can't add that webhook: ${refusal}`);
+                return;
             }
+            const webhook: RoomWebhook = {
+                id: randomSecret().slice(0, 8),
+                url: parsed.toString(),
+                secret: randomSecret(),
+                commands: names,
+                createdBy: userId,
+                createdAt: Date.now(),
+            };
+            // Re-read in case the list changed while the host was resolving
+            updateRoomRecord(roomId, { webhooks: [...roomWebhooks(roomId), webhook] });
+            reply(`Added webhook ${webhook.id}. Its signing secret, shown only now: ${webhook.secret}`);
+            const what = names.length > 0 ? `answering ${names.map((command) => `/${command}`).join(", ")}` : "for new messages";
+            broadcastToRoom(roomId, systemNotice(roomId, `${name} added a webhook ${what}`));
+            return;
         }
-    });
-});
-
-httpServer.listen(port, () => {
-    // eslint-disable-next-line no-console
-    console.log(`Server listening on port ${port}`);
-});
\ No newline at end of file
+        case "list": {
+            if (existing.length === 0) {
+                reply("No webhooks in this room");
+                return;
+            }
+            const lines = existing.map((webhook) => {
+                const what = webhook.commands.length > 0 ? webhook.commands.map((command) => `/${command}`).join(", ") : "new messages";
+                return `${webhook.id} → ${webhook.url} (${what})`;
+            });
+            reply(["Webhooks:", ...lines].join("\n"));
+            return;
+        }
+        case "remove": {
+            const webhook = existing.find((candidate) => candidate.id === rest[0]);
+            if (!webhook) {
+                fail("BAD_REQUEST", rest[0] ? `No webhook ${rest[0]} in this room` : "Usage: /webhook remove <id>");
+                return;
+            }
+            updateRoomRecord(roomId, { webhooks: existing.filter((candidate) => candidate !== webhook) });
+            broadcastToRoom(roomId, systemNotice(roomId, `${name} removed a webhook`));
+            return;
+        }
+        case "test": {
+            const webhook = existing.find((candidate) => candidate.id === rest[0]);
+            if (!webhook) {
+                fail("BAD_REQUEST", rest[0] ? `No webhook ${rest[0]} in this room` : "Usage: /webhook test <id>");
+                return;
+            }
+            reply(`Pinging webhook ${webhook.id}…`);
+            const failure = await runWebhook(roomId, webhook, { type: "ping", roomId });
+            reply(failure ? `Webhook ${webhook.id} failed: ${failure}` : `Webhook ${webhook.id} answered`);
+            return;
+        }
+        default:
+            reply("Usage: /webhook add <url> [command ...] | list | remove <id> | test <id>");
+    }
+}
+
+// Returns the fields to change, or null to leave the message alone (after
+// sending the caller an error if needed)
+type MessageChange = (record: ChatRecord, userId: string) => Omit<MessagePatch, "roomId" | "id"> | null;
+
+function changeMessage(socket: WebSocket, roomId: RoomId, id: number, requestType: string, change: MessageChange): void {
+    if (!isInRoom(socket, roomId)) {
+        sendError(socket, "NOT_IN_ROOM", "Join the room before changing its messages", requestType);
+        return;
+    }
+    const userId = clientToUserId.get(socket) ?? "";
+    queueMessageUpdate(roomId, async () => {
+        const record = await store.getMessage(roomId, id);
+        if (!record || record.deleted) {
+            sendError(socket, "MESSAGE_NOT_FOUND", "That message no longer exists", requestType);
+            return;
+        }
+        const changes = change(record, userId);
+        if (!changes) return;
+        await store.updateMessage({ ...record, ...changes });
+        broadcastToRoom(roomId, encodeServerMessage({ type: "message_patch", payload: { roomId, id, ...changes } }));
+    }).catch((err) => {
+        socketLog(socket).error(`Failed to ${requestType} message`, { roomId, messageId: id, err });
+        sendError(socket, "INTERNAL", "Could not update the message", requestType);
+    });
+}
+
+// Read-modify-write changes to a room's stored messages run one at a time
+function queueMessageUpdate(roomId: RoomId, update: () => Promise<void>): Promise<void> {
+    const previous = roomIdToMessageUpdate.get(roomId) ?? Promise.resolve();
+    const result = previous.then(update);
+    const next = result.catch(() => undefined);
+    roomIdToMessageUpdate.set(roomId, next);
+    void next.then(() => {
+        if (roomIdToMessageUpdate.get(roomId) === next) roomIdToMessageUpdate.delete(roomId);
+    });
+    return result;
+}
+
+// The first message of a thread carries its reply count for the "N replies"
+// link. Imports can add several replies at once, and older than the last one.
+function countReply(roomId: RoomId, parentId: number, at: number, count = 1): void {
+    queueMessageUpdate(roomId, async () => {
+        const parent = await store.getMessage(roomId, parentId);
+        if (!parent) return;
+        const changes = { replyCount: (parent.replyCount ?? 0) + count, lastReplyAt: Math.max(parent.lastReplyAt ?? 0, at) };
+        await store.updateMessage({ ...parent, ...changes });
+        broadcastToRoom(roomId, encodeServerMessage({ type: "message_patch", payload: { roomId, id: parentId, ...changes } }));
+    }).catch((err) => {
+        logger.error("Failed to count reply", { roomId, messageId: parentId, err });
+    });
+}
+
+function handleEdit(socket: WebSocket, payload: EditMessage["payload"]): void {
+    const text = payload.message;
+    if (text.trim().length === 0) {
+        sendError(socket, "BAD_REQUEST", "Use delete to remove a message", "edit");
+        return;
+    }
+    if (isTooLong(socket, text, "edit")) return;
+    changeMessage(socket, payload.roomId, payload.id, "edit", (record, userId) => {
+        if (record.importedId !== undefined) {
+            sendError(socket, "FORBIDDEN", "Imported messages can't be edited", "edit");
+            return null;
+        }
+        if (record.userId !== userId) {
+            sendError(socket, "FORBIDDEN", "You can only edit your own messages", "edit");
+            return null;
+        }
+        if (record.message === text) return null;
+        return { message: text, editedAt: Date.now(), mentions: resolveMentions(payload.roomId, text) };
+    });
+}
+
+function handleDelete(socket: WebSocket, payload: DeleteMessage["payload"]): void {
+    changeMessage(socket, payload.roomId, payload.id, "delete", (record, userId) => {
+        // A transcript's userIds aren't proof of who wrote what, so imported
+        // messages are deleted by whoever manages the room
+        if (record.importedId !== undefined ? !canManageRoom(payload.roomId, userId) : record.userId !== userId) {
+            const problem = record.importedId !== undefined ? "Only the owner and moderators can delete imported messages" : "You can only delete your own messages";
+            sendError(socket, "FORBIDDEN", problem, "delete");
+            return null;
+        }
+        return { message: "", deleted: true, reactions: {}, attachments: [] };
+    });
+}
+
+function handleReact(socket: WebSocket, payload: ReactMessage["payload"]): void {
+    const { emoji } = payload;
+    if (!REACTION_EMOJI.includes(emoji)) {
+        sendError(socket, "BAD_REQUEST", `Reactions must be one of ${REACTION_EMOJI.join(" ")}`, "react");
+        return;
+    }
+    changeMessage(socket, payload.roomId, payload.id, "react", (record, userId) => {
+        const reactions = { ...record.reactions };
+        const userIds = reactions[emoji] ?? [];
+        reactions[emoji] = userIds.includes(userId) ? userIds.filter((id) => id !== userId) : [...userIds, userId];
+        if (reactions[emoji].length === 0) delete reactions[emoji];
+        return { reactions };
+    });
+}
+
+function saveIdentity(userId: string, name: string, createdAt = Date.now()): void {
+    persist(store.saveIdentity({ userId, name, createdAt, lastSeenAt: Date.now() }), "save identity");
+}
+
+interface ResolvedIdentity {
+    userId: string;
+    name: string;
+    // Restored from a resume token rather than signed in afresh
+    resumed: boolean;
+    // A verified account or resumed user, as opposed to a brand new guest
+    returning: boolean;
+    createdAt?: number;
+}
+
+// Works out who identify credentials belong to. Credentials (a token, or a
+// username and password) sign in through the auth providers; otherwise a
+// resume token or a guest name is used. Name collisions with online users are
+// left to the caller, to check after its last await.
+async function resolveIdentity(payload: IdentifyMessage["payload"]): Promise<ResolvedIdentity | { code: ErrorCode; message: string }> {
+    const withCredentials = payload.token !== undefined || payload.username !== undefined;
+    if (withCredentials && payload.register && payload.username && isNameTaken(payload.username)) {
+        return { code: "AUTH_FAILED", message: `"${payload.username.trim()}" is already in use` };
+    }
+    const result = withCredentials ? await authenticate(payload) : null;
+    if (withCredentials && (!result || "error" in result)) {
+        return { code: "AUTH_FAILED", message: result && "error" in result ? result.error : "These credentials aren't accepted here" };
+    }
+    const verified = result && "identity" in result ? result.identity : undefined;
+    let resumed = verified ? null : readResumeToken(payload.resumeToken);
+    // A verified resume only counts while its provider is still enabled
+    const resumedProvider = resumed ? verifiedProvider(resumed.userId) : undefined;
+    if (resumedProvider && !auth.providers.some((provider) => provider.name === resumedProvider)) resumed = null;
+    const knownUserId = verified?.userId ?? resumed?.userId;
+    if (!(knownUserId && isVerified(knownUserId)) && !auth.guestsAllowed) {
+        return { code: "AUTH_REQUIRED", message: "Sign in to chat on this server" };
+    }
+    // The stored identity wins over the token so a rename on another device sticks
+    const known = knownUserId ? await store.getIdentity(knownUserId) : undefined;
+    // Verified users always go by their account's name
+    const name = verified?.name ?? known?.name ?? resumed?.name ?? payload.name?.trim() ?? "";
+    const invalid = validateName(name);
+    if (invalid) return { code: "NAME_INVALID", message: invalid };
+    if (!(knownUserId && isVerified(knownUserId)) && (await isReservedName(name))) {
+        return { code: "NAME_TAKEN", message: `"${name}" belongs to a registered account` };
+    }
+    return {
+        userId: knownUserId ?? Math.random().toString(36).substring(2, 10),
+        name,
+        resumed: Boolean(resumed),
+        returning: knownUserId !== undefined,
+        createdAt: known?.createdAt,
+    };
+}
+
+async function identify(socket: WebSocket, payload: IdentifyMessage["payload"]): Promise<void> {
+    const resolved = await resolveIdentity(payload);
+    if (socket.readyState !== WebSocket.OPEN) return;
+    if ("code" in resolved) {
+        sendError(socket, resolved.code, resolved.message, "identify");
+        return;
+    }
+    const { userId, name } = resolved;
+    if (isNameTaken(name, resolved.returning ? userId : clientToUserId.get(socket))) {
+        sendError(socket, "NAME_TAKEN", `"${name}" is already in use`, "identify");
+        return;
+    }
+    clientToUserId.set(socket, userId);
+    clientToName.set(socket, name);
+    socketLog(socket).info("Identified", { name, resumed: resolved.resumed });
+    saveIdentity(userId, name, resolved.createdAt);
+    publishUserPresence(userId);
+    // Reclaim the seats held during the grace window without a notice
+    const pending = resolved.returning ? cancelDeparture(userId) : undefined;
+    sendIdentity(socket, userId, name, resolved.resumed, pending?.roomIds);
+    for (const roomId of pending?.roomIds ?? []) {
+        joinRoom(socket, roomId, false);
+    }
+}
+
+// requestType lets /nick report errors against the chat message that ran it
+async function handleRename(socket: WebSocket, payload: RenameMessage["payload"], requestType = "rename"): Promise<void> {
+    const userId = clientToUserId.get(socket);
+    const previousName = clientToName.get(socket);
+    if (!userId || previousName === undefined) {
+        sendError(socket, "NOT_IDENTIFIED", undefined, requestType);
+        return;
+    }
+    if (isVerified(userId)) {
+        sendError(socket, "FORBIDDEN", "Your name comes from your account", requestType);
+        return;
+    }
+    const nextName = payload.name.trim();
+    if (nextName === previousName) return;
+    const invalid = validateName(nextName);
+    if (invalid) {
+        sendError(socket, "NAME_INVALID", invalid, requestType);
+        return;
+    }
+    if (await isReservedName(nextName)) {
+        sendError(socket, "NAME_TAKEN", `"${nextName}" belongs to a registered account`, requestType);
+        return;
+    }
+    // Checked after the account lookup so nobody can claim the name meanwhile
+    if (clientToName.get(socket) !== previousName) return;
+    if (isNameTaken(nextName, userId)) {
+        sendError(socket, "NAME_TAKEN", `"${nextName}" is already in use`, requestType);
+        return;
+    }
+    saveIdentity(userId, nextName);
+    // Every connection of this user shares the name
+    const notifiedRooms = new Set<RoomId>();
+    for (const client of socketsForUser(userId)) {
+        clientToName.set(client, nextName);
+        sendIdentity(client, userId, nextName, false);
+        for (const roomId of clientToRoomIds.get(client) ?? []) {
+            notifiedRooms.add(roomId);
+        }
+    }
+    publishUserPresence(userId);
+    for (const roomId of notifiedRooms) {
+        broadcastMember(roomId, userId, nextName);
+        broadcastToRoom(roomId, systemNotice(roomId, `${previousName} is now ${nextName}`));
+    }
+}
+
+function handleStatus(socket: WebSocket, payload: StatusMessage["payload"]): void {
+    const { status } = payload;
+    if (!MEMBER_STATUSES.includes(status)) {
+        sendError(socket, "BAD_REQUEST", `status must be one of ${MEMBER_STATUSES.join(", ")}`, "status");
+        return;
+    }
+    if ((clientToStatus.get(socket) ?? "active") === status) return;
+    clientToStatus.set(socket, status);
+    const userId = clientToUserId.get(socket) ?? "";
+    const name = clientToName.get(socket) ?? "";
+    for (const roomId of clientToRoomIds.get(socket) ?? []) {
+        broadcastMember(roomId, userId, name);
+    }
+}
+
+// Read markers are kept per user, so every connection of theirs shares one
+function sendReadState(socket: WebSocket, roomId: RoomId): void {
+    const userId = clientToUserId.get(socket) ?? "";
+    store.getReadMarkers(roomId).then(async (markers) => {
+        const own = markers[userId];
+        const unread = own === undefined ? 0 : await store.countUnread(roomId, userId, own);
+        send(socket, { type: "read_state", payload: { roomId, markers, unread } });
+    }).catch((err) => {
+        socketLog(socket).error("Failed to load read markers", { roomId, err });
+    });
+}
+
+function handleRead(socket: WebSocket, payload: ReadMessage["payload"]): void {
+    const { roomId, id } = payload;
+    if (!isInRoom(socket, roomId)) {
+        sendError(socket, "NOT_IN_ROOM", "Join the room before marking it read", "read");
+        return;
+    }
+    if (!Number.isInteger(id) || id < 1 || id > messageIds.ceiling(Date.now(), MAX_CLOCK_SKEW_MS)) {
+        sendError(socket, "BAD_REQUEST", "id must be the id of a posted message", "read");
+        return;
+    }
+    const userId = clientToUserId.get(socket) ?? "";
+    persist(store.setReadMarker(roomId, userId, id), "save read marker");
+    broadcastToRoom(roomId, encodeServerMessage({ type: "read", payload: { roomId, userId, id } }));
+}
+
+function handleTyping(socket: WebSocket, payload: TypingMessage["payload"]): void {
+    const { roomId, typing } = payload;
+    if (!isInRoom(socket, roomId)) {
+        sendError(socket, "NOT_IN_ROOM", "Join the room before typing in it", "typing");
+        return;
+    }
+    let typingAt = clientToTypingAt.get(socket);
+    if (!typingAt) {
+        typingAt = new Map<RoomId, number>();
+        clientToTypingAt.set(socket, typingAt);
+    }
+    const last = typingAt.get(roomId);
+    const now = Date.now();
+    if (typing) {
+        if (last !== undefined && now - last < TYPING_THROTTLE_MS) return;
+        typingAt.set(roomId, now);
+    } else {
+        // Only stop what the room was told had started
+        if (last === undefined) return;
+        typingAt.delete(roomId);
+    }
+    const userId = clientToUserId.get(socket) ?? "";
+    const name = clientToName.get(socket) ?? "Someone";
+    broadcastToRoom(roomId, encodeServerMessage({ type: "typing", payload: { roomId, userId, name, typing } }));
+}
+
+async function sendDirectMessage(socket: WebSocket, payload: DirectMessage["payload"]): Promise<void> {
+    const fromUserId = clientToUserId.get(socket) ?? "";
+    const fromName = clientToName.get(socket) ?? "Anonymous";
+    const toUserId = payload.toUserId.trim();
+    if (payload.message.length === 0 || isTooLong(socket, payload.message, "dm")) return;
+    if (toUserId === fromUserId) {
+        sendError(socket, "BAD_REQUEST", "You can't message yourself", "dm");
+        return;
+    }
+    const toName = onlineUserName(toUserId);
+    if (toName === undefined) {
+        // Distinguish "never seen" from "not connected right now"
+        const known = toUserId ? await store.getIdentity(toUserId) : undefined;
+        if (known) {
+            sendError(socket, "RECIPIENT_OFFLINE", `${known.name} is offline`, "dm");
+        } else {
+            sendError(socket, "RECIPIENT_UNKNOWN", "No user with that id", "dm");
+        }
+        return;
+    }
+    const text = encodeServerMessage({
+        type: "dm",
+        payload: { id: messageIds.next(), message: payload.message, fromUserId, fromName, toUserId, toName, timestamp: Date.now() },
+    });
+    deliverToUser(toUserId, text);
+    // Echo to all of the sender's connections so other tabs stay in sync
+    deliverToUser(fromUserId, text);
+}
+
+// Cursor and page size for a history request, clamped to what the server serves
+function historyPage(before: number | undefined, limit: number | undefined): { before?: number; limit: number } {
+    const rawLimit = Math.floor(limit ?? 0);
+    return {
+        before: before !== undefined && before > 0 ? before : undefined,
+        limit: rawLimit > 0 ? Math.min(rawLimit, MAX_HISTORY_PAGE) : DEFAULT_HISTORY_PAGE,
+    };
+}
+
+function handleHistoryRequest(socket: WebSocket, payload: HistoryRequestMessage["payload"]): void {
+    const roomId = payload.roomId;
+    if (!isInRoom(socket, roomId)) {
+        sendError(socket, "NOT_IN_ROOM", "Join the room before requesting its history", "history");
+        return;
+    }
+    // History is only sent when the room has opted in to replay; by
+    // default past messages stay hidden from new joiners.
+    if (!getRoomSettings(roomId).historyReplay) {
+        sendError(socket, "HISTORY_DISABLED", "History replay is turned off for this room", "history");
+        return;
+    }
+    const { before, limit } = historyPage(payload.before, payload.limit);
+    store.getMessages(roomId, before, limit).then((page) => {
+        send(socket, { type: "history", payload: { roomId, before, ...page } });
+    }).catch((err) => {
+        socketLog(socket).error("Failed to load history", { roomId, err });
+        sendError(socket, "INTERNAL", "Could not load history", "history");
+    });
+}
+
+function handleThreadRequest(socket: WebSocket, payload: ThreadRequestMessage["payload"]): void {
+    const { roomId, id } = payload;
+    if (!isInRoom(socket, roomId)) {
+        sendError(socket, "NOT_IN_ROOM", "Join the room before requesting its threads", "thread");
+        return;
+    }
+    // Past replies are history too
+    if (!getRoomSettings(roomId).historyReplay) {
+        sendError(socket, "HISTORY_DISABLED", "History replay is turned off for this room", "thread");
+        return;
+    }
+    const { before, limit } = historyPage(payload.before, payload.limit);
+    store.getReplies(roomId, id, before, limit).then((page) => {
+        send(socket, { type: "thread", payload: { roomId, id, before, ...page } });
+    }).catch((err) => {
+        socketLog(socket).error("Failed to load thread", { roomId, messageId: id, err });
+        sendError(socket, "INTERNAL", "Could not load the thread", "thread");
+    });
+}
+
+// Every room the user is in, on any of their connections to this instance
+function roomsOfUser(userId: string): RoomId[] {
+    const roomIds: Set<RoomId> = new Set();
+    for (const socket of socketsForUser(userId)) {
+        for (const roomId of clientToRoomIds.get(socket) ?? []) roomIds.add(roomId);
+    }
+    return [...roomIds];
+}
+
+// Searching reads history, so rooms without replay are left out
+function searchableRooms(userId: string): RoomId[] {
+    return roomsOfUser(userId).filter((roomId) => getRoomSettings(roomId).historyReplay);
+}
+
+// Turns search filters into a store query, or says what's wrong with them
+function buildSearch(roomIds: RoomId[], filters: Omit<SearchRequestMessage["payload"], "roomId">): MessageSearch | { code: ErrorCode; message: string } {
+    if (filters.query.length > SEARCH_QUERY_MAX_LENGTH) {
+        return { code: "BAD_REQUEST", message: `Searches are limited to ${SEARCH_QUERY_MAX_LENGTH} characters` };
+    }
+    const terms = searchTerms(filters.query);
+    if (terms.length === 0) return { code: "BAD_REQUEST", message: "Search for at least one word" };
+    const { before, limit } = historyPage(filters.before, filters.limit);
+    const sender = filters.sender?.trim();
+    return { roomIds, terms, sender: sender || undefined, since: filters.since, until: filters.until, before, limit };
+}
+
+function handleSearch(socket: WebSocket, payload: SearchRequestMessage["payload"]): void {
+    const userId = clientToUserId.get(socket) ?? "";
+    const { roomId } = payload;
+    if (roomId !== undefined && !roomsOfUser(userId).includes(roomId)) {
+        sendError(socket, "NOT_IN_ROOM", "Join the room before searching it", "search", { roomId });
+        return;
+    }
+    if (roomId !== undefined && !getRoomSettings(roomId).historyReplay) {
+        sendError(socket, "HISTORY_DISABLED", "History replay is turned off for this room", "search", { roomId });
+        return;
+    }
+    const search = buildSearch(roomId !== undefined ? [roomId] : searchableRooms(userId), payload);
+    if ("code" in search) {
+        sendError(socket, search.code, search.message, "search");
+        return;
+    }
+    store.searchMessages(search).then((page) => {
+        send(socket, { type: "search", payload: { query: payload.query, before: search.before, ...page } });
+    }).catch((err) => {
+        socketLog(socket).error("Failed to search messages", { roomId, err });
+        sendError(socket, "INTERNAL", "Could not search messages", "search");
+    });
+}
+
+async function handleJoin(socket: WebSocket, payload: JoinMessage["payload"]): Promise<void> {
+    const roomId = payload.roomId ?? DEFAULT_ROOM_ID;
+    const userId = clientToUserId.get(socket) ?? "";
+    if (!isInRoom(socket, roomId)) {
+        if (!isRoomOwner(roomId, userId) && findBan(roomId, userId, clientToName.get(socket))) {
+            sendError(socket, "BANNED", "You're banned from this room", "join", { roomId });
+            return;
+        }
+        const denied = await checkRoomAccess(roomId, userId, payload);
+        if (socket.readyState !== WebSocket.OPEN) return;
+        if (denied) {
+            sendError(socket, "FORBIDDEN", denied, "join", { roomId, access: getRoomAccess(roomId).mode });
+            return;
+        }
+        if (!roomIdToRecord.has(roomId) && roomId !== DEFAULT_ROOM_ID) {
+            // The first one in owns the room
+            updateRoomRecord(roomId, { ownerUserId: userId });
+        }
+    }
+    joinRoom(socket, roomId);
+}
+
+const ACCESS_DESCRIPTIONS: Record<RoomAccessMode, string> = {
+    open: "open to everyone",
+    password: "password-protected",
+    invite: "invite-only",
+};
+
+async function handleRoomAccess(socket: WebSocket, payload: RoomAccessMessage["payload"]): Promise<void> {
+    const { roomId, password, revokeInvites } = payload;
+    const userId = clientToUserId.get(socket) ?? "";
+    if (!isRoomOwner(roomId, userId)) {
+        sendError(socket, "FORBIDDEN", "Only the room owner can change who may join", "room_access", { roomId });
+        return;
+    }
+    const current = getRoomAccess(roomId);
+    const mode = payload.mode ?? current.mode;
+    if (!ROOM_ACCESS_MODES.includes(mode)) {
+        sendError(socket, "BAD_REQUEST", `mode must be one of ${ROOM_ACCESS_MODES.join(", ")}`, "room_access");
+        return;
+    }
+    const passwordChanged = mode === "password" && password !== undefined;
+    // Invites were issued under the old rules (while open, by any member), so
+    // they stop working when the rules change
+    const rulesChanged = mode !== current.mode || passwordChanged;
+    const access: RoomAccess = { mode, inviteVersion: current.inviteVersion + (revokeInvites || rulesChanged ? 1 : 0) };
+    if (mode === "password") {
+        if (password !== undefined) {
+            if (password.length < ROOM_PASSWORD_MIN_LENGTH) {
+                sendError(socket, "BAD_REQUEST", `Room passwords need at least ${ROOM_PASSWORD_MIN_LENGTH} characters`, "room_access");
+                return;
+            }
+            const { hash, salt } = await hashPassword(password);
+            access.passwordHash = hash;
+            access.passwordSalt = salt;
+        } else if (current.passwordHash && current.passwordSalt) {
+            access.passwordHash = current.passwordHash;
+            access.passwordSalt = current.passwordSalt;
+        } else {
+            sendError(socket, "BAD_REQUEST", "Choose a password for a password-protected room", "room_access");
+            return;
+        }
+    }
+    // A new password is how owners shut out people who knew the old one
+    updateRoomRecord(roomId, passwordChanged ? { access, admittedUserIds: [] } : { access });
+    broadcastRoomState(roomId);
+    const name = clientToName.get(socket) ?? "Someone";
+    if (mode !== current.mode) {
+        broadcastToRoom(roomId, systemNotice(roomId, `${name} made the room ${ACCESS_DESCRIPTIONS[mode]}`));
+    } else if (password !== undefined) {
+        broadcastToRoom(roomId, systemNotice(roomId, `${name} changed the room password`));
+    }
+    if (revokeInvites) {
+        broadcastToRoom(roomId, systemNotice(roomId, `${name} revoked all invite links`));
+    }
+}
+
+function handleRoomRole(socket: WebSocket, payload: RoomRoleMessage["payload"]): void {
+    const { roomId, userId: targetUserId, role } = payload;
+    const userId = clientToUserId.get(socket) ?? "";
+    if (!isRoomOwner(roomId, userId)) {
+        sendError(socket, "FORBIDDEN", "Only the room owner can appoint moderators", "room_role", { roomId });
+        return;
+    }
+    if (!ROOM_ROLES.includes(role)) {
+        sendError(socket, "BAD_REQUEST", `role must be one of ${ROOM_ROLES.join(", ")}`, "room_role");
+        return;
+    }
+    if (targetUserId === userId) {
+        sendError(socket, "BAD_REQUEST", "The owner's role can't be changed", "room_role");
+        return;
+    }
+    const moderators = roomIdToRecord.get(roomId)?.moderatorUserIds ?? [];
+    const isModerator = moderators.includes(targetUserId);
+    if (isModerator === (role === "moderator")) return;
+    updateRoomRecord(roomId, {
+        moderatorUserIds: isModerator ? moderators.filter((id) => id !== targetUserId) : [...moderators, targetUserId],
+    });
+    broadcastRoomState(roomId);
+    const targetName = onlineUserName(targetUserId) ?? "A member";
+    broadcastToRoom(roomId, systemNotice(roomId, `${targetName} is ${isModerator ? "no longer" : "now"} a moderator`));
+}
+
+function handleCreateInvite(socket: WebSocket, payload: CreateInviteMessage["payload"]): void {
+    const { roomId } = payload;
+    const userId = clientToUserId.get(socket) ?? "";
+    if (getRoomAccess(roomId).mode !== "open" && !isRoomModerator(roomId, userId)) {
+        sendError(socket, "FORBIDDEN", "Only the owner and moderators can invite people", "create_invite", { roomId });
+        return;
+    }
+    const ttlMs = Math.min(Math.max(payload.ttlMs ?? INVITE_TTL_MS, MIN_INVITE_TTL_MS), MAX_INVITE_TTL_MS);
+    const { token, expiresAt } = issueInviteToken(roomId, userId, ttlMs);
+    send(socket, { type: "invite", payload: { roomId, token, expiresAt } });
+}
+
+function handleRoomSettings(socket: WebSocket, payload: RoomSettingsMessage["payload"]): void {
+    const roomId = payload.roomId;
+    if (!isInRoom(socket, roomId)) {
+        sendError(socket, "NOT_IN_ROOM", "Join a room before changing its settings", "room_settings");
+        return;
+    }
+    if (!canManageRoom(roomId, clientToUserId.get(socket) ?? "")) {
+        sendError(socket, "FORBIDDEN", "Only the owner and moderators can change room settings", "room_settings", { roomId });
+        return;
+    }
+    const name = clientToName.get(socket) ?? "Someone";
+    const settings = getRoomSettings(roomId);
+    const next: RoomSettings = { ...settings };
+    const notices: string[] = [];
+    const { historyReplay } = payload;
+    if (historyReplay !== undefined && historyReplay !== settings.historyReplay) {
+        next.historyReplay = historyReplay;
+        notices.push(`${name} turned history replay ${historyReplay ? "on" : "off"}`);
+    }
+    if (payload.slowModeMs !== undefined) {
+        const slowModeMs = Math.min(Math.max(Math.round(payload.slowModeMs), 0), MAX_SLOW_MODE_MS);
+        if (slowModeMs !== (settings.slowModeMs ?? 0)) {
+            next.slowModeMs = slowModeMs;
+            if (slowModeMs === 0) roomIdToLastPostAt.delete(roomId);
+            notices.push(
+                slowModeMs > 0
+                    ? `${name} turned on slow mode: one message every ${describeDuration(slowModeMs)}`
+                    : `${name} turned off slow mode`,
+            );
+        }
+    }
+    if (notices.length === 0) return;
+    updateRoomSettings(roomId, next);
+    broadcastRoomState(roomId);
+    for (const notice of notices) {
+        broadcastToRoom(roomId, systemNotice(roomId, notice));
+    }
+}
+
+// userId of a connected user by name (case-insensitive), here or on another instance
+function findUserIdByName(name: string): string | undefined {
+    const wanted = name.toLowerCase();
+    for (const [client, clientName] of clientToName) {
+        if (clientName.toLowerCase() === wanted) return clientToUserId.get(client);
+    }
+    return remotePresence.userIdByName(name);
+}
+
+// Drops the user's connections on this instance from the room and sends
+// them `text` (the moderation event) on the way out
+function removeLocalUserFromRoom(roomId: RoomId, userId: string, text: string): void {
+    let name: string | undefined;
+    for (const client of socketsForUser(userId)) {
+        if (!clientToRoomIds.get(client)?.delete(roomId)) continue;
+        roomIdToClients.get(roomId)?.delete(client);
+        clientToTypingAt.get(client)?.delete(roomId);
+        name = clientToName.get(client);
+        sendText(client, text);
+    }
+    // A connection in its resume grace window must not be put back
+    const pending = userIdToPendingDeparture.get(userId);
+    if (pending?.roomIds.includes(roomId)) {
+        pending.roomIds = pending.roomIds.filter((id) => id !== roomId);
+        name = name ?? pending.name;
+    }
+    if (name === undefined) return;
+    broadcastRoomState(roomId);
+    broadcastMember(roomId, userId, name);
+}
+
+function kickUser(roomId: RoomId, userId: string, event: ModerationEvent["payload"]): void {
+    const text = encodeServerMessage({ type: "moderation", payload: event });
+    removeLocalUserFromRoom(roomId, userId, text);
+    publishClusterEvent({ type: "room_kick", origin: serverSessionId, roomId, userId, text });
+}
+
+function handleModerate(socket: WebSocket, payload: ModerateMessage["payload"]): void {
+    const { roomId, action } = payload;
+    const actorId = clientToUserId.get(socket) ?? "";
+    const actorName = clientToName.get(socket) ?? "A moderator";
+    if (!MODERATION_ACTIONS.includes(action)) {
+        sendError(socket, "BAD_REQUEST", `action must be one of ${MODERATION_ACTIONS.join(", ")}`, "moderate");
+        return;
+    }
+    if (!isRoomModerator(roomId, actorId)) {
+        sendError(socket, "FORBIDDEN", "Only the owner and moderators can moderate this room", "moderate", { roomId });
+        return;
+    }
+    const givenName = payload.name?.trim() || undefined;
+    const targetUserId = payload.userId ?? (givenName ? findUserIdByName(givenName) : undefined);
+    const targetName = (targetUserId ? onlineUserName(targetUserId) : undefined) ?? givenName;
+    if (!targetUserId && !(givenName && (action === "ban" || action === "unban"))) {
+        const problem = givenName ? `No one called ${givenName} is online` : "Say who: payload.userId or payload.name";
+        sendError(socket, "BAD_REQUEST", problem, "moderate");
+        return;
+    }
+    if (targetUserId === actorId) {
+        sendError(socket, "BAD_REQUEST", "You can't moderate yourself", "moderate");
+        return;
+    }
+    if (targetUserId && isRoomOwner(roomId, targetUserId)) {
+        sendError(socket, "FORBIDDEN", "The room owner can't be moderated", "moderate", { roomId });
+        return;
+    }
+    if (targetUserId && isRoomModerator(roomId, targetUserId) && !isRoomOwner(roomId, actorId)) {
+        sendError(socket, "FORBIDDEN", "Only the owner can act on moderators", "moderate", { roomId });
+        return;
+    }
+    const who = targetName ?? "A member";
+    const record = roomIdToRecord.get(roomId);
+    let notice: string;
+    switch (action) {
+        case "kick":
+            if (!targetUserId) return;
+            kickUser(roomId, targetUserId, { roomId, action, byName: actorName });
+            notice = `${who} was removed by ${actorName}`;
+            break;
+        case "mute": {
+            if (!targetUserId) return;
+            const durationMs = Math.min(Math.max(payload.durationMs ?? DEFAULT_MUTE_MS, MIN_MUTE_MS), MAX_MUTE_MS);
+            const until = Date.now() + durationMs;
+            updateRoomRecord(roomId, { mutedUntil: { ...activeMutes(roomId), [targetUserId]: until } });
+            broadcastRoomState(roomId);
+            deliverToUser(targetUserId, encodeServerMessage({ type: "moderation", payload: { roomId, action, byName: actorName, until } }));
+            notice = `${who} was muted for ${describeDuration(durationMs)} by ${actorName}`;
+            break;
+        }
+        case "unmute": {
+            if (!targetUserId) return;
+            const mutes = activeMutes(roomId);
+            if (mutes[targetUserId] === undefined) return;
+            delete mutes[targetUserId];
+            updateRoomRecord(roomId, { mutedUntil: mutes });
+            broadcastRoomState(roomId);
+            deliverToUser(targetUserId, encodeServerMessage({ type: "moderation", payload: { roomId, action, byName: actorName } }));
+            notice = `${actorName} unmuted ${who}`;
+            break;
+        }
+        case "ban": {
+            const bans = (record?.bans ?? []).filter((ban) => !banMatches(ban, targetUserId, targetName));
+            bans.push({ userId: targetUserId, name: targetName, bannedBy: actorId, bannedAt: Date.now() });
+            // A ban also ends any role or password/invite admission the user had
+            const withoutTarget = (ids: string[] | undefined) => ids?.filter((id) => id !== targetUserId);
+            updateRoomRecord(roomId, {
+                bans,
+                moderatorUserIds: withoutTarget(record?.moderatorUserIds),
+                admittedUserIds: withoutTarget(record?.admittedUserIds),
+            });
+            if (targetUserId) kickUser(roomId, targetUserId, { roomId, action, byName: actorName });
+            if (targetUserId && record?.moderatorUserIds?.includes(targetUserId)) broadcastRoomState(roomId);
+            notice = `${who} was banned by ${actorName}`;
+            break;
+        }
+        case "unban": {
+            const bans = record?.bans ?? [];
+            const remaining = bans.filter((ban) => !banMatches(ban, targetUserId, targetName));
+            if (remaining.length === bans.length) return;
+            updateRoomRecord(roomId, { bans: remaining });
+            notice = `${actorName} lifted the ban on ${who}`;
+            break;
+        }
+    }
+    broadcastToRoom(roomId, systemNotice(roomId, notice));
+}
+
+function handleClientMessage(socket: WebSocket, message: ClientMessage): void {
+    // Everything but identify requires a name first
+    if (message.type !== "identify" && !clientToName.has(socket)) {
+        sendError(socket, "NOT_IDENTIFIED", undefined, message.type);
+        return;
+    }
+    switch (message.type) {
+        case "identify":
+            identify(socket, message.payload).catch((err) => {
+                socketLog(socket).error("Failed to identify", { err });
+                sendError(socket, "INTERNAL", "Could not sign you in", "identify");
+            });
+            return;
+        case "rename":
+            handleRename(socket, message.payload).catch((err) => {
+                socketLog(socket).error("Failed to rename", { err });
+                sendError(socket, "INTERNAL", "Could not change your name", "rename");
+            });
+            return;
+        case "join":
+            handleJoin(socket, message.payload).catch((err) => {
+                socketLog(socket).error("Failed to join room", { err });
+                sendError(socket, "INTERNAL", "Could not join the room", "join");
+            });
+            return;
+        case "leave":
+            leaveRoom(socket, message.payload);
+            return;
+        case "chat":
+            postChat(
+                socket,
+                message.payload.roomId,
+                message.payload.message,
+                message.payload.clientId,
+                message.payload.attachments,
+                message.payload.replyTo,
+            );
+            return;
+        case "edit":
+            handleEdit(socket, message.payload);
+            return;
+        case "delete":
+            handleDelete(socket, message.payload);
+            return;
+        case "react":
+            handleReact(socket, message.payload);
+            return;
+        case "status":
+            handleStatus(socket, message.payload);
+            return;
+        case "typing":
+            handleTyping(socket, message.payload);
+            return;
+        case "history":
+            handleHistoryRequest(socket, message.payload);
+            return;
+        case "thread":
+            handleThreadRequest(socket, message.payload);
+            return;
+        case "search":
+            handleSearch(socket, message.payload);
+            return;
+        case "read":
+            handleRead(socket, message.payload);
+            return;
+        case "dm":
+            sendDirectMessage(socket, message.payload).catch((err) => {
+                socketLog(socket).error("Failed to send direct message", { err });
+                sendError(socket, "INTERNAL", "Could not send the message", "dm");
+            });
+            return;
+        case "room_settings":
+            handleRoomSettings(socket, message.payload);
+            return;
+        case "room_access":
+            handleRoomAccess(socket, message.payload).catch((err) => {
+                socketLog(socket).error("Failed to update room access", { err });
+                sendError(socket, "INTERNAL", "Could not update room access", "room_access");
+            });
+            return;
+        case "room_role":
+            handleRoomRole(socket, message.payload);
+            return;
+        case "create_invite":
+            handleCreateInvite(socket, message.payload);
+            return;
+        case "moderate":
+            handleModerate(socket, message.payload);
+            return;
+    }
+}
+
+// HTTP API: probes, a directory of active rooms, and history, search and posting for
+// bots that don't keep a socket open. Callers sign in with the same
+// credentials identify accepts and pass the same room checks as join and chat.
+async function handleHttpRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const method = req.method ?? "GET";
+    for (const [name, value] of Object.entries(CORS_HEADERS)) {
+        if (value !== undefined) res.setHeader(name, value);
+    }
+    if (method === "OPTIONS") {
+        res.writeHead(204);
+        res.end();
+        return;
+    }
+    // "/" stays a liveness probe for hosts configured before the API existed
+    if (url.pathname === "/" || url.pathname === "/health") {
+        sendJson(res, 200, { status: "ok" });
+        return;
+    }
+    if (url.pathname === "/ready") {
+        const storeResponds = ready && (await store.getLastMessageId().then(() => true, () => false));
+        sendJson(res, storeResponds ? 200 : 503, { status: storeResponds ? "ready" : "unavailable" });
+        return;
+    }
+    if (url.pathname === "/metrics") {
+        if (method !== "GET") throw new HttpError(405, "METHOD_NOT_ALLOWED", "Use GET to read metrics");
+        if (METRICS_TOKEN !== undefined && !secretMatches(readCredentials(req).token ?? "", METRICS_TOKEN)) {
+            throw httpError("AUTH_REQUIRED", "Metrics need the metrics token");
+        }
+        res.writeHead(200, { "Content-Type": METRICS_CONTENT_TYPE, "Cache-Control": "no-store" });
+        res.end(metrics.render());
+        return;
+    }
+    if (url.pathname === "/rooms" || url.pathname === "/rooms/") {
+        if (method !== "GET") throw new HttpError(405, "METHOD_NOT_ALLOWED", "Use GET to list rooms");
+        await listRooms(req, res);
+        return;
+    }
+    const params = matchRoute("/rooms/:roomId/messages", url.pathname);
+    if (params && method === "GET") {
+        await getRoomMessages(req, res, roomIdParam(params.roomId), url.searchParams);
+        return;
+    }
+    if (params && method === "POST") {
+        await postRoomMessage(req, res, roomIdParam(params.roomId));
+        return;
+    }
+    if (params) throw new HttpError(405, "METHOD_NOT_ALLOWED", "Use GET or POST for room messages");
+    const transcript = matchRoute("/rooms/:roomId/transcript", url.pathname);
+    if (transcript && method === "GET") {
+        await exportTranscript(req, res, roomIdParam(transcript.roomId), url.searchParams);
+        return;
+    }
+    if (transcript && method === "POST") {
+        await importTranscript(req, res, roomIdParam(transcript.roomId));
+        return;
+    }
+    if (transcript) throw new HttpError(405, "METHOD_NOT_ALLOWED", "Use GET to export a transcript or POST to import one");
+    if (url.pathname === "/search" || url.pathname === "/search/") {
+        if (method !== "GET") throw new HttpError(405, "METHOD_NOT_ALLOWED", "Use GET to search");
+        await searchRooms(req, res, url.searchParams);
+        return;
+    }
+    if (url.pathname === "/attachments" || url.pathname === "/attachments/") {
+        if (method !== "POST") throw new HttpError(405, "METHOD_NOT_ALLOWED", "Use POST to upload an attachment");
+        await uploadAttachment(req, res, url.searchParams);
+        return;
+    }
+    if (url.pathname === "/previews" || url.pathname === "/previews/") {
+        if (method !== "GET") throw new HttpError(405, "METHOD_NOT_ALLOWED", "Use GET to load a link preview");
+        await getLinkPreview(req, res, url.searchParams);
+        return;
+    }
+    if (url.pathname === "/previews/image") {
+        if (method !== "GET" && method !== "HEAD") throw new HttpError(405, "METHOD_NOT_ALLOWED", "Use GET to load a preview image");
+        await getPreviewImage(req, res, url.searchParams);
+        return;
+    }
+    const attachment = matchRoute("/attachments/:id", url.pathname);
+    if (attachment) {
+        if (method !== "GET" && method !== "HEAD") throw new HttpError(405, "METHOD_NOT_ALLOWED", "Use GET to download an attachment");
+        await getAttachment(req, res, attachment.id, url.searchParams);
+        return;
+    }
+    throw new HttpError(404, "NOT_FOUND", `Nothing at ${url.pathname}`);
+}
+
+// A room id from a path or query, held to the same rules as in payloads
+function roomIdParam(value: string): RoomId {
+    const roomId = normalizeRoomId(value);
+    if (roomId === null) throw httpError("BAD_REQUEST", `Room ids are 1 to ${ROOM_ID_MAX_LENGTH} characters`);
+    return roomId;
+}
+
+// Limited per address, before any credentials are checked, so passwords can't be guessed quickly
+function allowHttpRequest(req: http.IncomingMessage): void {
+    const key = req.socket.remoteAddress ?? "unknown";
+    let bucket = httpClientToRateLimit.get(key);
+    if (!bucket) {
+        bucket = new TokenBucket(RATE_LIMIT_BURST, RATE_LIMIT_PER_SECOND);
+        httpClientToRateLimit.set(key, bucket);
+    }
+    if (!bucket.take()) throw httpError("RATE_LIMITED", "Too many requests; slow down", bucket.retryAfterMs());
+}
+
+function headerValue(req: http.IncomingMessage, name: string): string | undefined {
+    const value = req.headers[name];
+    return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+// The caller behind the Authorization header: Bearer with a resume token or a
+// JWT, or Basic with a local account. Without one, guests may post under a
+// name; null means an anonymous reader, which only guest-friendly servers allow.
+async function httpCaller(req: http.IncomingMessage, guestName?: string): Promise<ResolvedIdentity | null> {
+    const { token, username, password } = readCredentials(req);
+    if (!token && !username && guestName === undefined) {
+        if (!auth.guestsAllowed) throw httpError("AUTH_REQUIRED", "Sign in to use this server");
+        return null;
+    }
+    // Resume tokens have two dot-separated parts, JWTs three
+    const isResumeToken = token !== undefined && token.split(".").length === 2;
+    if (isResumeToken && !readResumeToken(token)) throw httpError("AUTH_FAILED", "That token has expired or isn't valid");
+    const payload: IdentifyMessage["payload"] = isResumeToken
+        ? { resumeToken: token }
+        : { token, username, password, name: guestName };
+    const resolved = await resolveIdentity(payload);
+    if ("code" in resolved) throw httpError(resolved.code, resolved.message);
+    if (isResumeToken && !resolved.resumed) throw httpError("AUTH_FAILED", "That token has expired or isn't valid");
+    // Guests would otherwise be someone new on every request, out of reach of
+    // mutes and slow mode; instead each address is one guest
+    if (!token && !username) return { ...resolved, userId: `guest-${opaqueId(req.socket.remoteAddress ?? "unknown", resumeTokenSecret)}` };
+    return resolved;
+}
+
+// Join's admission rules: bans first, then the room's access mode. Room
+// credentials travel in the X-Room-Password and X-Room-Invite headers.
+async function checkHttpRoomAccess(req: http.IncomingMessage, roomId: RoomId, caller: ResolvedIdentity | null): Promise<void> {
+    if (caller && !isRoomOwner(roomId, caller.userId) && findBan(roomId, caller.userId, caller.name)) {
+        throw httpError("BANNED", "You're banned from this room");
+    }
+    const { mode } = getRoomAccess(roomId);
+    if (mode === "open") return;
+    if (!caller) throw httpError("AUTH_REQUIRED", `#${roomId} is ${ACCESS_DESCRIPTIONS[mode]}; sign in first`);
+    const denied = await checkRoomAccess(roomId, caller.userId, {
+        roomId,
+        password: headerValue(req, "x-room-password"),
+        invite: headerValue(req, "x-room-invite"),
+    });
+    if (denied) throw httpError("FORBIDDEN", denied);
+}
+
+// Rooms with someone in them on any instance, busiest first. Protected rooms
+// are listed too; their access mode tells callers what joining takes.
+async function listRooms(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    allowHttpRequest(req);
+    await httpCaller(req);
+    const roomIds = new Set<RoomId>(remotePresence.roomIds());
+    for (const [roomId, clients] of roomIdToClients) {
+        if (clients.size > 0) roomIds.add(roomId);
+    }
+    const rooms = [...roomIds]
+        .map((roomId) => ({ roomId, memberCount: getMemberCount(roomId), access: getRoomAccess(roomId).mode }))
+        .sort((a, b) => b.memberCount - a.memberCount || a.roomId.localeCompare(b.roomId));
+    sendJson(res, 200, { rooms });
+}
+
+function numberParam(query: URLSearchParams, name: string): number | undefined {
+    const raw = query.get(name);
+    if (raw === null || raw === "") return undefined;
+    const value = Number(raw);
+    if (!Number.isFinite(value)) throw httpError("BAD_REQUEST", `${name} must be a number`);
+    return value;
+}
+
+async function getRoomMessages(req: http.IncomingMessage, res: http.ServerResponse, roomId: RoomId, query: URLSearchParams): Promise<void> {
+    allowHttpRequest(req);
+    const { before, limit } = historyPage(numberParam(query, "before"), numberParam(query, "limit"));
+    const caller = await httpCaller(req);
+    await checkHttpRoomAccess(req, roomId, caller);
+    if (!getRoomSettings(roomId).historyReplay) {
+        throw httpError("HISTORY_DISABLED", "History replay is turned off for this room");
+    }
+    const page = await store.getMessages(roomId, before, limit);
+    sendJson(res, 200, { roomId, before, ...page });
+}
+
+// GET /search?q=&room=&sender=&since=&until=&before=&limit=. With room, the
+// same access as reading its history; without, the rooms the caller is in.
+async function searchRooms(req: http.IncomingMessage, res: http.ServerResponse, query: URLSearchParams): Promise<void> {
+    allowHttpRequest(req);
+    const caller = await httpCaller(req);
+    const room = query.get("room")?.trim();
+    const roomId = room ? roomIdParam(room) : undefined;
+    if (roomId !== undefined) {
+        await checkHttpRoomAccess(req, roomId, caller);
+        if (!getRoomSettings(roomId).historyReplay) {
+            throw httpError("HISTORY_DISABLED", "History replay is turned off for this room");
+        }
+    } else if (!caller) {
+        throw httpError("AUTH_REQUIRED", "Sign in to search your rooms, or name a room");
+    }
+    const text = query.get("q") ?? "";
+    const search = buildSearch(roomId !== undefined ? [roomId] : searchableRooms(caller?.userId ?? ""), {
+        query: text,
+        sender: query.get("sender") ?? undefined,
+        since: numberParam(query, "since"),
+        until: numberParam(query, "until"),
+        before: numberParam(query, "before"),
+        limit: numberParam(query, "limit"),
+    });
+    if ("code" in search) throw httpError(search.code, search.message);
+    const page = await store.searchMessages(search);
+    sendJson(res, 200, { query: text, before: search.before, ...page });
+}
+
+// Body: { "message": "...", "name"?: "guest name" }. Posting doesn't need
+// membership, but otherwise follows chat's rules (mutes, slow mode, length).
+async function postRoomMessage(req: http.IncomingMessage, res: http.ServerResponse, roomId: RoomId): Promise<void> {
+    allowHttpRequest(req);
+    const body = await readJsonBody(req, MAX_FRAME_BYTES);
+    // Checked by the same validator as the socket's chat message
+    const decoded = decodeClientMessage(JSON.stringify({ type: "chat", payload: { ...body, roomId } }));
+    if (!decoded.ok) throw httpError("BAD_REQUEST", decoded.error.message ?? "Invalid message");
+    if (decoded.message.type !== "chat") throw httpError("BAD_REQUEST", "Invalid message");
+    if (body.name !== undefined && typeof body.name !== "string") throw httpError("BAD_REQUEST", "name must be a string");
+    const { message: messageText, attachments, replyTo } = decoded.message.payload;
+    const refs = Array.isArray(attachments) ? attachments : [];
+    if (messageText.length === 0 && refs.length === 0) throw httpError("BAD_REQUEST", "message must not be empty");
+    if (messageText.length > MAX_MESSAGE_LENGTH) {
+        throw httpError("MESSAGE_TOO_LARGE", `Messages are limited to ${MAX_MESSAGE_LENGTH} characters`);
+    }
+    const caller = await httpCaller(req, body.name);
+    if (!caller) throw httpError("AUTH_REQUIRED", "Sign in, or give a name to post as a guest");
+    await checkHttpRoomAccess(req, roomId, caller);
+    const flags = await prepareChat(roomId, refs, replyTo);
+    if ("code" in flags) throw httpError(flags.code, flags.message);
+    // Checked after the last await, as identify does
+    if (isNameTaken(caller.name, caller.returning ? caller.userId : undefined)) {
+        throw httpError("NAME_TAKEN", `"${caller.name}" is already in use`);
+    }
+    const now = Date.now();
+    const refusal = postRefusal(roomId, caller.userId, now);
+    if (refusal) throw httpError(refusal.code, refusal.message, refusal.retryAfterMs);
+    const record = publishChat(roomId, caller.userId, caller.name, messageText, now, flags);
+    sendJson(res, 201, record);
+}
+
+// GET /rooms/:roomId/transcript?format=json|md|txt, downloaded as a file.
+// Takes the same access as reading history; covers every stored message.
+async function exportTranscript(req: http.IncomingMessage, res: http.ServerResponse, roomId: RoomId, query: URLSearchParams): Promise<void> {
+    allowHttpRequest(req);
+    const format = query.get("format") || "json";
+    if (!isTranscriptFormat(format)) {
+        throw httpError("BAD_REQUEST", `format must be one of ${Object.keys(TRANSCRIPT_FORMATS).join(", ")}`);
+    }
+    const caller = await httpCaller(req);
+    await checkHttpRoomAccess(req, roomId, caller);
+    if (!getRoomSettings(roomId).historyReplay) {
+        throw httpError("HISTORY_DISABLED", "History replay is turned off for this room");
+    }
+    // Stores keep at most MAX_HISTORY messages per room, so one page holds them all
+    const { messages } = await store.getMessages(roomId, undefined, MAX_HISTORY);
+    const transcript: Transcript = { version: TRANSCRIPT_VERSION, roomId, exportedAt: Date.now(), messages };
+    const { contentType, extension } = TRANSCRIPT_FORMATS[format];
+    res.writeHead(200, {
+        "Content-Type": contentType,
+        "Content-Disposition": contentDisposition("attachment", cleanFileName(`${roomId}-transcript.${extension}`)),
+        "Cache-Control": "no-store",
+        "X-Content-Type-Options": "nosniff",
+    });
+    res.end(renderTranscript(transcript, format));
+}
+
+// POST /rooms/:roomId/transcript with a JSON export as the body, for
+// `Authorization: Bearer <ADMIN_TOKEN>` only. Messages the room already has are
+// skipped, so importing the same transcript twice adds nothing. The rest get
+// ids below the room's oldest message, so they sit before its history and are
+// the first to go when the room's cap is reached.
+async function importTranscript(req: http.IncomingMessage, res: http.ServerResponse, roomId: RoomId): Promise<void> {
+    allowHttpRequest(req);
+    if (ADMIN_TOKEN === undefined) throw httpError("FORBIDDEN", "Transcript imports need ADMIN_TOKEN to be set on the server");
+    const { token } = readCredentials(req);
+    if (token === undefined || !secretMatches(token, ADMIN_TOKEN)) throw httpError("AUTH_REQUIRED", "Importing a transcript needs the admin token");
+    const body = await readJsonBody(req, TRANSCRIPT_MAX_BYTES);
+    const parsed = parseTranscript(body, roomId, MAX_MESSAGE_LENGTH);
+    if (typeof parsed === "string") throw httpError("BAD_REQUEST", parsed);
+    const { messages: stored } = await store.getMessages(roomId, undefined, MAX_HISTORY);
+    const plan = planImport(parsed, stored);
+    const candidates: ChatRecord[] = [];
+    for (const record of plan.records) {
+        const { attachments, ...fields } = record;
+        const kept = await storedAttachments(attachments ?? []);
+        // Nothing left to show once attachments this server doesn't have are dropped
+        if (!fields.deleted && fields.message.length === 0 && kept.length === 0) continue;
+        candidates.push(kept.length > 0 ? { ...fields, attachments: kept } : fields);
+    }
+    // Only as many as fit under the cap beside the room's own messages
+    const room = Math.max(0, MAX_HISTORY - stored.length);
+    const ceiling = stored.length > 0 ? Math.min(...stored.map((record) => record.id)) : messageIds.next();
+    const ids = await freeIdsBelow(ceiling, Math.min(room, candidates.length));
+    const assigned = assignImportIds(candidates, ids, plan.existingIds);
+    const threadIdToTally = tallyReplies(assigned);
+    const records = assigned.map((record) => ({ ...record, ...threadIdToTally.get(record.id) }));
+    const imported = await store.importMessages(roomId, records);
+    // Threads the room already had count their imported replies too
+    const importedIds = new Set(records.map((record) => record.id));
+    for (const [threadId, tally] of threadIdToTally) {
+        if (!importedIds.has(threadId)) countReply(roomId, threadId, tally.lastReplyAt, tally.replyCount);
+    }
+    const skipped = parsed.length - imported;
+    logger.info("Imported transcript", { roomId, imported, skipped });
+    if (imported > 0) {
+        broadcastToRoom(roomId, systemNotice(roomId, `An administrator imported ${imported} message${imported === 1 ? "" : "s"} from a transcript`));
+    }
+    sendJson(res, 200, { roomId, imported, skipped });
+}
+
+// Up to `count` ids below `ceiling` that no room uses, ascending
+async function freeIdsBelow(ceiling: number, count: number): Promise<number[]> {
+    const free: number[] = [];
+    let next = ceiling - 1;
+    while (free.length < count && next > 0) {
+        const candidates: number[] = [];
+        for (; next > 0 && candidates.length < count - free.length; next--) candidates.push(next);
+        const taken = new Set(await store.findMessageIds(candidates));
+        free.push(...candidates.filter((id) => !taken.has(id)));
+    }
+    return free.reverse();
+}
+
+// GET /previews?url=<http(s) URL>, for signed-in callers. Answers 204 when the
+// page has no preview or couldn't be fetched.
+async function getLinkPreview(req: http.IncomingMessage, res: http.ServerResponse, query: URLSearchParams): Promise<void> {
+    allowHttpRequest(req);
+    if (!LINK_PREVIEWS_ENABLED) throw new HttpError(404, "NOT_FOUND", "Link previews are turned off");
+    const caller = await httpCaller(req);
+    if (!caller) throw httpError("AUTH_REQUIRED", "Sign in to load link previews");
+    let url: URL | null;
+    try {
+        url = new URL(query.get("url") ?? "");
+    } catch {
+        url = null;
+    }
+    if (!url || (url.protocol !== "http:" && url.protocol !== "https:")) throw httpError("BAD_REQUEST", "url must be an http:// or https:// URL");
+    const preview = await linkPreviews.get(url);
+    if (!preview) {
+        res.writeHead(204, { "Cache-Control": "no-store" });
+        res.end();
+        return;
+    }
+    // The image is served from here under a signed path, so the page's
+    // host never sees who's reading
+    const image = preview.image ? `/previews/image?token=${encodeURIComponent(signToken({ previewImage: preview.image }, resumeTokenSecret))}` : undefined;
+    sendJson(res, 200, { ...preview, image });
+}
+
+// GET /previews/image?token=<from a preview>. Images can't send credentials,
+// so the signed token, only handed to signed-in callers, stands in for them.
+async function getPreviewImage(req: http.IncomingMessage, res: http.ServerResponse, query: URLSearchParams): Promise<void> {
+    allowHttpRequest(req);
+    if (!LINK_PREVIEWS_ENABLED) throw new HttpError(404, "NOT_FOUND", "Link previews are turned off");
+    const payload = verifyToken<{ previewImage?: unknown }>(query.get("token") ?? "", resumeTokenSecret);
+    if (!payload || typeof payload.previewImage !== "string") throw new HttpError(404, "NOT_FOUND", "No such preview image");
+    const image = await linkPreviews.image(new URL(payload.previewImage));
+    if (!image) throw new HttpError(404, "NOT_FOUND", "That preview image can't be shown");
+    res.writeHead(200, {
+        "Content-Type": image.contentType,
+        "Content-Length": image.data.length,
+        "Cache-Control": `public, max-age=${Math.floor(LINK_PREVIEW_TTL_MS / 1000)}`,
+        "X-Content-Type-Options": "nosniff",
+        "Content-Security-Policy": "default-src 'none'; sandbox",
+    });
+    res.end(req.method === "HEAD" ? undefined : image.data);
+}
+
+// POST /attachments?name=<file name> with the raw file as the body and its
+// type in Content-Type. The response is what chat messages reference.
+async function uploadAttachment(req: http.IncomingMessage, res: http.ServerResponse, query: URLSearchParams): Promise<void> {
+    allowHttpRequest(req);
+    const caller = await httpCaller(req);
+    if (!caller) throw httpError("AUTH_REQUIRED", "Sign in to upload attachments");
+    const contentType = baseContentType(req.headers["content-type"]);
+    if (!isAllowedType(contentType, ATTACHMENT_TYPES)) {
+        throw httpError("UNSUPPORTED_MEDIA_TYPE", `${contentType || "Files without a type"} can't be attached here`);
+    }
+    const data = await readBody(req, ATTACHMENT_MAX_BYTES);
+    if (data.length === 0) throw httpError("BAD_REQUEST", "The file is empty");
+    if (!contentMatchesType(data, contentType)) throw httpError("UNSUPPORTED_MEDIA_TYPE", `That file isn't a valid ${contentType}`);
+    const id = hashContent(data);
+    await blobs.put({ id, size: data.length, contentType }, data);
+    // Identical bytes uploaded before keep the type they were first stored with
+    const info = (await blobs.stat(id)) ?? { id, size: data.length, contentType };
+    const attachment: ChatAttachment = { id, name: cleanFileName(query.get("name") ?? "") || "attachment", size: info.size, contentType: info.contentType };
+    sendJson(res, 201, attachment);
+}
+
+// Attachments are content-addressed and immutable, so they're cached for good
+// and not rate limited. Anyone with the id can fetch one.
+async function getAttachment(req: http.IncomingMessage, res: http.ServerResponse, id: string, query: URLSearchParams): Promise<void> {
+    if (!BLOB_ID_PATTERN.test(id)) throw new HttpError(404, "NOT_FOUND", "No such attachment");
+    const etag = `"${id}"`;
+    if (req.headers["if-none-match"] === etag) {
+        res.writeHead(304, { ETag: etag });
+        res.end();
+        return;
+    }
+    const blob = await blobs.get(id);
+    if (!blob) throw new HttpError(404, "NOT_FOUND", "No such attachment");
+    const name = cleanFileName(query.get("name") ?? "") || undefined;
+    res.writeHead(200, {
+        "Content-Type": blob.info.contentType,
+        "Content-Length": blob.data.length,
+        "Content-Disposition": contentDisposition(isInlineType(blob.info.contentType) ? "inline" : "attachment", name),
+        "Cache-Control": "public, max-age=31536000, immutable",
+        ETag: etag,
+        "X-Content-Type-Options": "nosniff",
+        "Content-Security-Policy": "default-src 'none'; sandbox",
+    });
+    res.end(req.method === "HEAD" ? undefined : blob.data);
+}
+
+wss.on("connection", (socket: WebSocket) => {
+    // Upgrades that were already under way when the shutdown began
+    if (shuttingDown) {
+        sendShutdownNotice(socket);
+        return;
+    }
+    clientToConnectionId.set(socket, ++lastConnectionId);
+    connectionsOpened.inc();
+    const openedAt = Date.now();
+    socketLog(socket).debug("Connection opened");
+    const extSocket = socket as ExtendedWebSocket;
+    extSocket.isAlive = true;
+    extSocket.on('pong', () => {
+        extSocket.isAlive = true;
+    });
+    clientToRateLimit.set(socket, new TokenBucket(RATE_LIMIT_BURST, RATE_LIMIT_PER_SECOND));
+    // Send server info immediately on connection
+    send(socket, {
+        type: "server_info",
+        payload: {
+            sessionId: serverSessionId,
+            protocolVersion: PROTOCOL_VERSION,
+            supportedVersions: [...SUPPORTED_PROTOCOL_VERSIONS],
+            maxMessageLength: MAX_MESSAGE_LENGTH,
+            authProviders: auth.providers.map((provider) => provider.name),
+            guestsAllowed: auth.guestsAllowed,
+            maxAttachmentBytes: ATTACHMENT_MAX_BYTES,
+            attachmentTypes: ATTACHMENT_TYPES,
+        },
+    });
+    // Require identity before joining rooms or chatting
+    send(socket, { type: "require_identity" });
+
+    socket.on("close", (code: number) => {
+        const roomIds = [...(clientToRoomIds.get(socket) ?? [])];
+        const name = clientToName.get(socket) ?? "Someone";
+        const userId = clientToUserId.get(socket);
+        socketLog(socket).info("Connection closed", { code, rooms: roomIds.length, durationMs: Date.now() - openedAt });
+        clientToRoomIds.delete(socket);
+        for (const roomId of roomIds) {
+            roomIdToClients.get(roomId)?.delete(socket);
+        }
+        clientToStatus.delete(socket);
+        clientToTypingAt.delete(socket);
+        clientToRateLimit.delete(socket);
+        rateLimitedClients.delete(socket);
+        // A restart isn't a departure: the clients rejoin once we're back
+        if (roomIds.length > 0 && !shuttingDown) {
+            // Hold the seats briefly so a quick reconnect doesn't show as left/joined
+            if (userId) {
+                scheduleDeparture(userId, roomIds, name);
+                for (const roomId of roomIds) {
+                    broadcastMember(roomId, userId, name);
+                }
+            } else {
+                for (const roomId of roomIds) {
+                    announceDeparture(roomId, name);
+                }
+            }
+        }
+        clientToName.delete(socket);
+        clientToUserId.delete(socket);
+        clientToConnectionId.delete(socket);
+        if (userId && !shuttingDown) publishUserPresence(userId);
+        (socket as ExtendedWebSocket).isAlive = false;
+    });
+
+    socket.on("message", (data: RawData) => {
+        if (!allowFrame(socket)) return;
+        const text = data.toString();
+        const decoded = decodeClientMessage(text);
+        if (decoded.ok) {
+            framesReceived.inc({ type: decoded.message.type });
+            // A bug in one handler shouldn't take every other connection down with it
+            try {
+                handleClientMessage(socket, decoded.message);
+            } catch (err) {
+                socketLog(socket).error("Failed to handle client message", { type: decoded.message.type, err });
+                sendError(socket, "INTERNAL", "Could not handle that message", decoded.message.type);
+            }
+            return;
+        }
+        if (!decoded.notJson) {
+            framesRejected.inc({ code: decoded.error.code });
+            socketLog(socket).debug("Rejected client frame", { code: decoded.error.code, requestType: decoded.error.requestType, reason: decoded.error.message });
+            sendError(socket, decoded.error.code, decoded.error.message, decoded.error.requestType);
+            return;
+        }
+        framesReceived.inc({ type: "text" });
+        // Not a protocol frame → fallback to chatting, which is only unambiguous in a single room
+        if (!clientToName.has(socket)) {
+            sendError(socket, "NOT_IDENTIFIED");
+            return;
+        }
+        const roomIds = [...(clientToRoomIds.get(socket) ?? [])];
+        if (roomIds.length !== 1) {
+            sendError(socket, "BAD_REQUEST", "Plain-text messages need exactly one joined room; send a chat message with a roomId");
+            return;
+        }
+        postChat(socket, roomIds[0], text);
+    });
+});
+
+async function start(): Promise<void> {
+    await store.init();
+    await blobs.init();
+    messageIds.observe(await store.getLastMessageId());
+    for (const room of await store.listRooms()) {
+        roomIdToRecord.set(room.roomId, room);
+    }
+    await bus.start();
+    idSlot = await bus.claimSlot(serverSessionId, ID_SLOTS, ID_SLOT_TTL_MS);
+    messageIds.useSlot(idSlot);
+    await bus.subscribe(CLUSTER_CHANNEL, handleClusterEvent);
+    ready = true;
+    httpServer.listen(port, () => {
+        logger.info("Server listening", { port, sessionId: serverSessionId });
+    });
+}
+
+start().catch((err) => {
+    logger.error("Failed to start server", { err });
+    process.exit(1);
+});
+
+// 1012 is "service restart"; the notice before it says when to come back
+function sendShutdownNotice(socket: WebSocket): void {
+    const retryAfterMs = SHUTDOWN_RETRY_MS + Math.floor(Math.random() * SHUTDOWN_RETRY_MS);
+    send(socket, { type: "server_shutdown", payload: { message: "The server is restarting", retryAfterMs } });
+    socket.close(1012, "Server restarting");
+}
+
+// Resolves once every socket has finished closing, or after timeoutMs
+function waitForSocketsToClose(timeoutMs: number): Promise<void> {
+    const closing = [...wss.clients].map(
+        (client) => new Promise<void>((resolve) => {
+            if (client.readyState === WebSocket.CLOSED) resolve();
+            else client.once("close", () => resolve());
+        }),
+    );
+    return new Promise((resolve) => {
+        const timer = setTimeout(resolve, timeoutMs);
+        void Promise.all(closing).then(() => {
+            clearTimeout(timer);
+            resolve();
+        });
+    });
+}
+
+// Stops taking connections, sends every client the restart notice and closes
+// it, then flushes pending store writes and leaves the bus
+async function shutdown(signal: string): Promise<void> {
+    shuttingDown = true;
+    ready = false;
+    logger.info("Shutting down", { signal, connections: wss.clients.size });
+    httpServer.close();
+    httpServer.closeIdleConnections();
+    clearInterval(interval);
+    clearInterval(presenceInterval);
+    for (const pending of userIdToPendingDeparture.values()) {
+        clearTimeout(pending.timer);
+    }
+    userIdToPendingDeparture.clear();
+    for (const client of wss.clients) {
+        sendShutdownNotice(client as ExtendedWebSocket);
+    }
+    await waitForSocketsToClose(SHUTDOWN_DRAIN_MS);
+    for (const client of wss.clients) {
+        client.terminate();
+    }
+    // An empty snapshot drops our members on other instances right away
+    // rather than when our presence heartbeat expires
+    await bus
+        .publish(CLUSTER_CHANNEL, JSON.stringify({ type: "presence", origin: serverSessionId, counts: {}, users: {}, members: {}, full: true }))
+        .catch((err) => {
+            logger.error("Failed to publish final presence", { err });
+        });
+    await Promise.all([...pendingWrites, ...roomIdToMessageUpdate.values()]);
+    await new Promise<void>((resolve) => wss.close(() => resolve()));
+    await store.close();
+    await blobs.close();
+    await bus.close();
+}
+
+for (const signal of ["SIGTERM", "SIGINT"] as const) {
+    process.on(signal, () => {
+        if (shuttingDown) {
+            // A second signal skips the wait
+            process.exit(1);
+        }
+        setTimeout(() => {
+            logger.error("Shutdown timed out, exiting", { timeoutMs: SHUTDOWN_TIMEOUT_MS });
+            process.exit(1);
+        }, SHUTDOWN_TIMEOUT_MS).unref();
+        shutdown(signal).then(
+            () => process.exit(0),
+            (err) => {
+                logger.error("Failed to shut down cleanly", { err });
+                process.exit(1);
+            },
+        );
+    });
+}
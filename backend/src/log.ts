@@ -0,0 +1,67 @@
+// Structured logs: one JSON object per line, with the time, level, message and
+// whatever context the caller attaches (connection, user, room). Warnings and
+// errors go to stderr, the rest to stdout.
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+export type LogFields = Record<string, unknown>;
+
+// Errors have no enumerable properties, so JSON.stringify would drop them
+function serializeFields(fields: LogFields): LogFields {
+    const serialized: LogFields = {};
+    for (const [key, value] of Object.entries(fields)) {
+        if (value === undefined) continue;
+        serialized[key] = value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value;
+    }
+    return serialized;
+}
+
+export class Logger {
+    constructor(
+        private readonly minLevel: LogLevel,
+        private readonly context: LogFields = {},
+    ) {}
+
+    // A logger that adds `fields` to every entry
+    child(fields: LogFields): Logger {
+        return new Logger(this.minLevel, { ...this.context, ...fields });
+    }
+
+    enabled(level: LogLevel): boolean {
+        return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.minLevel);
+    }
+
+    debug(message: string, fields: LogFields = {}): void {
+        this.write("debug", message, fields);
+    }
+
+    info(message: string, fields: LogFields = {}): void {
+        this.write("info", message, fields);
+    }
+
+    warn(message: string, fields: LogFields = {}): void {
+        this.write("warn", message, fields);
+    }
+
+    error(message: string, fields: LogFields = {}): void {
+        this.write("error", message, fields);
+    }
+
+    private write(level: LogLevel, message: string, fields: LogFields): void {
+        if (!this.enabled(level)) return;
+        const entry = { time: new Date().toISOString(), level, msg: message, ...serializeFields({ ...this.context, ...fields }) };
+        const stream = level === "warn" || level === "error" ? process.stderr : process.stdout;
+        stream.write(`${JSON.stringify(entry)}\n`);
+    }
+}
+
+// LOG_LEVEL=debug, info (default), warn or error: the least severe level written
+export function createLoggerFromEnv(env: NodeJS.ProcessEnv): Logger {
+    const level = (env.LOG_LEVEL || "info").trim().toLowerCase();
+    if (!(LOG_LEVELS as readonly string[]).includes(level)) {
+        throw new Error(`Unknown LOG_LEVEL "${level}" (expected ${LOG_LEVELS.map((name) => `"${name}"`).join(", ")})`);
+    }
+    return new Logger(level as LogLevel);
+}
+
+export const logger = createLoggerFromEnv(process.env);
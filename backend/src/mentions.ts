@@ -0,0 +1,31 @@
+import { ChatMention } from "./protocol";
+
+// "@name" mentions in chat text. Names may contain spaces, so each "@" is
+// matched against the longest candidate name that follows it; code spans and
+// fenced blocks are skipped.
+
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+
+function withoutCode(text: string): string {
+    return text.replace(/```[\s\S]*?(?:```|$)/g, " ").replace(/`[^`\n]*`/g, " ");
+}
+
+export function findMentions(text: string, candidates: ChatMention[]): ChatMention[] {
+    if (!text.includes("@") || candidates.length === 0) return [];
+    const plain = withoutCode(text);
+    const lower = plain.toLowerCase();
+    const longestFirst = [...candidates].sort((a, b) => b.name.length - a.name.length);
+    const found: Map<string, ChatMention> = new Map();
+    for (let at = lower.indexOf("@"); at >= 0; at = lower.indexOf("@", at + 1)) {
+        // "ann@example.com" isn't a mention
+        if (at > 0 && WORD_CHAR.test(plain[at - 1])) continue;
+        const match = longestFirst.find((candidate) => {
+            const name = candidate.name.toLowerCase();
+            if (name.length === 0 || !lower.startsWith(name, at + 1)) return false;
+            const next = plain[at + 1 + name.length];
+            return next === undefined || !WORD_CHAR.test(next);
+        });
+        if (match && !found.has(match.userId)) found.set(match.userId, { userId: match.userId, name: match.name });
+    }
+    return [...found.values()];
+}
@@ -0,0 +1,118 @@
+// Counters, gauges and histograms rendered in the Prometheus text format
+// (version 0.0.4) for GET /metrics. Values live in this process only; each
+// instance is scraped on its own.
+
+export type Labels = Record<string, string>;
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+interface Metric {
+    render(): string[];
+}
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) return "";
+    return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+function header(name: string, help: string, type: string): string[] {
+    return [`# HELP ${name} ${help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`, `# TYPE ${name} ${type}`];
+}
+
+// Series are keyed by their rendered labels, so label order must be stable
+// per call site
+export class Counter implements Metric {
+    private readonly series: Map<string, number> = new Map();
+
+    constructor(
+        private readonly name: string,
+        private readonly help: string,
+    ) {}
+
+    inc(labels: Labels = {}, amount = 1): void {
+        const key = formatLabels(labels);
+        this.series.set(key, (this.series.get(key) ?? 0) + amount);
+    }
+
+    render(): string[] {
+        const lines = header(this.name, this.help, "counter");
+        for (const [labels, value] of this.series) lines.push(`${this.name}${labels} ${value}`);
+        return lines;
+    }
+}
+
+// Read when scraped, from state the server keeps anyway
+export class Gauge implements Metric {
+    constructor(
+        private readonly name: string,
+        private readonly help: string,
+        private readonly collect: () => number,
+    ) {}
+
+    render(): string[] {
+        return [...header(this.name, this.help, "gauge"), `${this.name} ${this.collect()}`];
+    }
+}
+
+export class Histogram implements Metric {
+    private readonly counts: number[];
+    private sum = 0;
+    private count = 0;
+
+    // `buckets` are the upper bounds, ascending; +Inf is added on render
+    constructor(
+        private readonly name: string,
+        private readonly help: string,
+        private readonly buckets: number[],
+    ) {
+        this.counts = buckets.map(() => 0);
+    }
+
+    observe(value: number): void {
+        this.sum += value;
+        this.count += 1;
+        const index = this.buckets.findIndex((bound) => value <= bound);
+        if (index !== -1) this.counts[index] += 1;
+    }
+
+    render(): string[] {
+        const lines = header(this.name, this.help, "histogram");
+        let cumulative = 0;
+        this.buckets.forEach((bound, index) => {
+            cumulative += this.counts[index];
+            lines.push(`${this.name}_bucket{le="${bound}"} ${cumulative}`);
+        });
+        lines.push(`${this.name}_bucket{le="+Inf"} ${this.count}`, `${this.name}_sum ${this.sum}`, `${this.name}_count ${this.count}`);
+        return lines;
+    }
+}
+
+export class MetricsRegistry {
+    private readonly metrics: Metric[] = [];
+
+    counter(name: string, help: string): Counter {
+        return this.register(new Counter(name, help));
+    }
+
+    gauge(name: string, help: string, collect: () => number): Gauge {
+        return this.register(new Gauge(name, help, collect));
+    }
+
+    histogram(name: string, help: string, buckets: number[]): Histogram {
+        return this.register(new Histogram(name, help, buckets));
+    }
+
+    render(): string {
+        return `${this.metrics.flatMap((metric) => metric.render()).join("\n")}\n`;
+    }
+
+    private register<T extends Metric>(metric: T): T {
+        this.metrics.push(metric);
+        return metric;
+    }
+}
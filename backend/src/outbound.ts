@@ -0,0 +1,150 @@
+import * as dns from "dns";
+import * as http from "http";
+import * as https from "https";
+import * as net from "net";
+
+// Requests to URLs users give us: webhook deliveries and link previews. Hosts
+// that are, or resolve to, internal addresses are refused unless allowed, so
+// nobody can use the server to reach its own network.
+
+// Loopback, private, shared (CGNAT), link-local, multicast and reserved ranges
+const INTERNAL_NETWORKS = new net.BlockList();
+for (const [prefix, bits] of [
+    ["0.0.0.0", 8],
+    ["10.0.0.0", 8],
+    ["100.64.0.0", 10],
+    ["127.0.0.0", 8],
+    ["169.254.0.0", 16],
+    ["172.16.0.0", 12],
+    ["192.0.0.0", 24],
+    ["192.168.0.0", 16],
+    ["198.18.0.0", 15],
+    ["224.0.0.0", 4],
+    ["240.0.0.0", 4],
+] as const) {
+    INTERNAL_NETWORKS.addSubnet(prefix, bits, "ipv4");
+}
+for (const [prefix, bits] of [
+    ["::", 127],
+    ["64:ff9b::", 96],
+    ["fc00::", 7],
+    ["fe80::", 10],
+    ["ff00::", 8],
+] as const) {
+    INTERNAL_NETWORKS.addSubnet(prefix, bits, "ipv6");
+}
+
+export interface OutboundRequest {
+    method: "GET" | "POST";
+    headers: http.OutgoingHttpHeaders;
+    body?: string;
+    timeoutMs: number;
+    // Bodies past this are cut off
+    maxBytes: number;
+}
+
+export interface OutboundResponse {
+    status: number;
+    headers: http.IncomingHttpHeaders;
+    body: Buffer;
+}
+
+// Comma-separated addresses or CIDR ranges that may be reached even though
+// they're internal; `name` is the setting they came from, for the error
+export function parseAllowedNetworks(value: string, name: string): net.BlockList {
+    const allowed = new net.BlockList();
+    for (const entry of value.split(",").map((part) => part.trim()).filter((part) => part.length > 0)) {
+        const [address, bits] = entry.split("/");
+        const family = net.isIPv4(address) ? "ipv4" : net.isIPv6(address) ? "ipv6" : undefined;
+        const maxBits = family === "ipv4" ? 32 : 128;
+        const prefix = bits === undefined ? maxBits : Number(bits);
+        if (!family || !Number.isInteger(prefix) || prefix < 0 || prefix > maxBits) {
+            throw new Error(`Invalid ${name} entry "${entry}" (expected an address or CIDR range)`);
+        }
+        allowed.addSubnet(address, prefix, family);
+    }
+    return allowed;
+}
+
+function bareHost(url: URL): string {
+    return url.hostname.replace(/^\[|\]$/g, "");
+}
+
+export class OutboundHttp {
+    constructor(private readonly allowedNetworks = new net.BlockList()) {}
+
+    // Why `url` can't be requested, or null when it can. request() checks
+    // again when it connects, since the host's addresses can change.
+    async refusal(url: URL): Promise<string | null> {
+        const host = bareHost(url);
+        try {
+            const addresses = net.isIP(host) ? [{ address: host }] : await dns.promises.lookup(host, { all: true });
+            const blocked = addresses.find((entry) => this.isBlocked(entry.address));
+            return blocked ? `${host} is an internal address (${blocked.address})` : null;
+        } catch {
+            return `${host} can't be resolved`;
+        }
+    }
+
+    // Plain http(s) rather than fetch: it takes our lookup, and it doesn't
+    // follow redirects, which could lead anywhere
+    request(url: URL, options: OutboundRequest): Promise<OutboundResponse> {
+        const host = bareHost(url);
+        // Literal addresses never reach the lookup
+        if (net.isIP(host) && this.isBlocked(host)) return Promise.reject(new Error(`${host} is an internal address`));
+        return new Promise((resolve, reject) => {
+            const request = (url.protocol === "https:" ? https : http).request(
+                url,
+                {
+                    method: options.method,
+                    headers: options.body === undefined ? options.headers : { ...options.headers, "Content-Length": Buffer.byteLength(options.body) },
+                    lookup: this.lookup,
+                    signal: AbortSignal.timeout(options.timeoutMs),
+                },
+                (response) => {
+                    const chunks: Buffer[] = [];
+                    let size = 0;
+                    const finish = () => resolve({ status: response.statusCode ?? 0, headers: response.headers, body: Buffer.concat(chunks).subarray(0, options.maxBytes) });
+                    response.on("data", (chunk: Buffer) => {
+                        chunks.push(chunk);
+                        size += chunk.length;
+                        if (size < options.maxBytes) return;
+                        // Enough read; the rest isn't wanted
+                        finish();
+                        response.destroy();
+                    });
+                    response.on("end", finish);
+                    response.on("error", reject);
+                },
+            );
+            request.on("error", reject);
+            request.end(options.body);
+        });
+    }
+
+    private isBlocked(address: string): boolean {
+        // IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are judged as IPv4
+        const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+        if (mapped) return this.isBlocked(mapped[1]);
+        const family = net.isIPv6(address) ? "ipv6" : "ipv4";
+        return INTERNAL_NETWORKS.check(address, family) && !this.allowedNetworks.check(address, family);
+    }
+
+    // Used for every connection, so the address that was checked is the one
+    // connected to; a host can't pass the check and then resolve elsewhere
+    private readonly lookup: net.LookupFunction = (hostname, options, callback) => {
+        dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+            if (err) {
+                callback(err, "");
+                return;
+            }
+            const blocked = addresses.find((entry) => this.isBlocked(entry.address));
+            if (blocked || addresses.length === 0) {
+                callback(new Error(`${hostname} is an internal address${blocked ? ` (${blocked.address})` : ""}`), "");
+                return;
+            }
+            if (options.all) callback(null, addresses);
+            else callback(null, addresses[0].address, addresses[0].family);
+        });
+    };
+}
@@ -0,0 +1,23 @@
+import * as crypto from "crypto";
+
+// Salted scrypt hashes, stored as hex. Only the hash and salt are kept.
+
+const KEY_LENGTH = 32;
+
+function derive(password: string, salt: string): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        crypto.scrypt(password, salt, KEY_LENGTH, (err, key) => (err ? reject(err) : resolve(key)));
+    });
+}
+
+export async function hashPassword(password: string): Promise<{ hash: string; salt: string }> {
+    const salt = crypto.randomBytes(16).toString("hex");
+    const key = await derive(password, salt);
+    return { hash: key.toString("hex"), salt };
+}
+
+export async function verifyPassword(password: string, hash: string, salt: string): Promise<boolean> {
+    const expected = Buffer.from(hash, "hex");
+    const actual = await derive(password, salt);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,166 @@
+import { baseContentType, contentMatchesType, isInlineType } from "./attachments";
+import { OutboundHttp, OutboundResponse } from "./outbound";
+
+// Link previews for GET /previews: a page's title, description and image from
+// its Open Graph or Twitter meta tags, falling back to <title>. Pages are
+// fetched through OutboundHttp and results are cached, misses included.
+// Images are fetched the same way for GET /previews/image, so readers never
+// contact the linked site themselves.
+
+export interface LinkPreview {
+    // Where the page ended up, after redirects
+    url: string;
+    title: string;
+    description?: string;
+    siteName?: string;
+    image?: string;
+}
+
+const MAX_REDIRECTS = 3;
+// Meta tags live in <head>, so the start of the page is enough
+const MAX_PAGE_BYTES = 256 * 1024;
+const TEXT_MAX_LENGTH = 300;
+// Bigger images are refused rather than cut short
+const MAX_IMAGE_BYTES = 1024 * 1024;
+
+const ENTITIES = new Map([
+    ["amp", "&"],
+    ["lt", "<"],
+    ["gt", ">"],
+    ["quot", '"'],
+    ["apos", "'"],
+    ["nbsp", " "],
+]);
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+        if (!code.startsWith("#")) return ENTITIES.get(code.toLowerCase()) ?? entity;
+        const point = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    });
+}
+
+function clip(text: string): string {
+    const oneLine = text.replace(/\s+/g, " ").trim();
+    return oneLine.length > TEXT_MAX_LENGTH ? `${oneLine.slice(0, TEXT_MAX_LENGTH - 1)}…` : oneLine;
+}
+
+function parseAttributes(tag: string): Map<string, string> {
+    const attributes = new Map<string, string>();
+    for (const [, name, doubleQuoted, singleQuoted, bare] of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+        attributes.set(name.toLowerCase(), doubleQuoted ?? singleQuoted ?? bare);
+    }
+    return attributes;
+}
+
+// Only http(s) images, resolved against the page they came from
+function imageUrl(value: string | undefined, pageUrl: URL): string | undefined {
+    if (!value) return undefined;
+    try {
+        const url = new URL(value, pageUrl);
+        return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function parsePreview(html: string, pageUrl: URL): LinkPreview | null {
+    const headEnd = html.search(/<\/head\s*>/i);
+    const head = headEnd >= 0 ? html.slice(0, headEnd) : html;
+    // The first of each property wins, as it does for most crawlers
+    const meta = new Map<string, string>();
+    for (const [tag] of head.matchAll(/<meta\b[^>]*>/gi)) {
+        const attributes = parseAttributes(tag);
+        const key = (attributes.get("property") ?? attributes.get("name"))?.toLowerCase();
+        const content = attributes.get("content");
+        if (key && content !== undefined && !meta.has(key)) meta.set(key, decodeEntities(content));
+    }
+    const titleTag = /<title\b[^>]*>([^<]*)<\/title>/i.exec(head);
+    const title = clip(meta.get("og:title") ?? meta.get("twitter:title") ?? (titleTag ? decodeEntities(titleTag[1]) : ""));
+    if (!title) return null;
+    const description = clip(meta.get("og:description") ?? meta.get("twitter:description") ?? meta.get("description") ?? "");
+    const siteName = clip(meta.get("og:site_name") ?? "");
+    const image = imageUrl(meta.get("og:image") ?? meta.get("twitter:image"), pageUrl);
+    return {
+        url: pageUrl.toString(),
+        title,
+        ...(description ? { description } : {}),
+        ...(siteName ? { siteName } : {}),
+        ...(image ? { image } : {}),
+    };
+}
+
+export interface PreviewImage {
+    contentType: string;
+    data: Buffer;
+}
+
+export class LinkPreviews {
+    // In insertion order, so the first entry is the oldest
+    private readonly urlToEntry = new Map<string, { preview: Promise<LinkPreview | null>; expiresAt: number }>();
+
+    constructor(
+        private readonly outbound: OutboundHttp,
+        private readonly timeoutMs: number,
+        private readonly ttlMs: number,
+        private readonly maxEntries: number,
+    ) {}
+
+    // Null when the page has no title or couldn't be fetched. Callers asking
+    // for the same URL while it's being fetched share the one request.
+    get(url: URL, now = Date.now()): Promise<LinkPreview | null> {
+        const key = url.toString();
+        const cached = this.urlToEntry.get(key);
+        if (cached && cached.expiresAt > now) return cached.preview;
+        const preview = this.fetchPreview(url).catch(() => null);
+        this.urlToEntry.delete(key);
+        this.urlToEntry.set(key, { preview, expiresAt: now + this.ttlMs });
+        for (const oldest of this.urlToEntry.keys()) {
+            if (this.urlToEntry.size <= this.maxEntries) break;
+            this.urlToEntry.delete(oldest);
+        }
+        return preview;
+    }
+
+    // A preview's image, or null when it isn't a PNG, JPEG, GIF or WebP that
+    // matches its type and fits MAX_IMAGE_BYTES. Not cached here; the
+    // response is cached by browsers instead.
+    async image(url: URL): Promise<PreviewImage | null> {
+        const response = await this.follow(url, "image/png,image/jpeg,image/gif,image/webp", MAX_IMAGE_BYTES + 1).catch(() => null);
+        if (!response || response.body.length > MAX_IMAGE_BYTES) return null;
+        const contentType = baseContentType(response.headers["content-type"]);
+        if (!isInlineType(contentType) || !contentMatchesType(response.body, contentType)) return null;
+        return { contentType, data: response.body };
+    }
+
+    private async fetchPreview(url: URL): Promise<LinkPreview | null> {
+        const response = await this.follow(url, "text/html,application/xhtml+xml", MAX_PAGE_BYTES);
+        if (!response) return null;
+        if (!/^(text\/html|application\/xhtml\+xml)/i.test(response.headers["content-type"] ?? "")) return null;
+        return parsePreview(response.body.toString("utf8"), response.url);
+    }
+
+    // A successful response and where it came from, or null for errors and too
+    // many redirects. Redirects are followed by hand so every hop goes through
+    // the same checks.
+    private async follow(url: URL, accept: string, maxBytes: number): Promise<(OutboundResponse & { url: URL }) | null> {
+        let current = url;
+        for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+            const response = await this.outbound.request(current, {
+                method: "GET",
+                headers: { Accept: accept, "User-Agent": "den-den-mushi-previews" },
+                timeoutMs: this.timeoutMs,
+                maxBytes,
+            });
+            const location = response.headers.location;
+            if (response.status >= 300 && response.status < 400 && location) {
+                current = new URL(location, current);
+                if (current.protocol !== "http:" && current.protocol !== "https:") return null;
+                continue;
+            }
+            if (response.status < 200 || response.status >= 300) return null;
+            return { ...response, url: current };
+        }
+        return null;
+    }
+}
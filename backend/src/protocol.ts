@@ -0,0 +1,786 @@
+// WebSocket wire protocol shared by the backend and the frontend. The frontend
+// imports this file directly (see frontend/vite.config.ts), so it must stay
+// free of imports and of Node- or DOM-only APIs.
+
+export const PROTOCOL_VERSION = 1;
+export const SUPPORTED_PROTOCOL_VERSIONS: readonly number[] = [1];
+
+export const ROOM_ID_MAX_LENGTH = 64;
+
+// Room ids arrive with any spaces around them trimmed off, from WebSocket
+// payloads and HTTP paths alike. Null when nothing's left or it's too long.
+export function normalizeRoomId(value: string): string | null {
+    const roomId = value.trim();
+    return roomId.length > 0 && roomId.length <= ROOM_ID_MAX_LENGTH ? roomId : null;
+}
+
+// Reactions are limited to this palette
+export const REACTION_EMOJI: readonly string[] = ["👍", "❤️", "😂", "🎉", "😮", "👀"];
+
+export type ErrorCode =
+    | "BAD_REQUEST"
+    | "UNKNOWN_TYPE"
+    | "UNSUPPORTED_VERSION"
+    | "NOT_IDENTIFIED"
+    | "NAME_TAKEN"
+    | "NAME_INVALID"
+    | "AUTH_FAILED"
+    | "AUTH_REQUIRED"
+    | "NOT_IN_ROOM"
+    | "ROOM_LIMIT"
+    | "HISTORY_DISABLED"
+    | "MESSAGE_NOT_FOUND"
+    | "FORBIDDEN"
+    | "BANNED"
+    | "MUTED"
+    | "SLOW_MODE"
+    | "RATE_LIMITED"
+    | "MESSAGE_TOO_LARGE"
+    | "UNSUPPORTED_MEDIA_TYPE"
+    | "UNKNOWN_COMMAND"
+    | "RECIPIENT_OFFLINE"
+    | "RECIPIENT_UNKNOWN"
+    | "INTERNAL";
+
+export type RoomAccessMode = "open" | "password" | "invite";
+export const ROOM_ACCESS_MODES: readonly RoomAccessMode[] = ["open", "password", "invite"];
+
+export type RoomRole = "moderator" | "member";
+export const ROOM_ROLES: readonly RoomRole[] = ["moderator", "member"];
+
+// Moderator actions against a member of a room
+export type ModerationAction = "kick" | "mute" | "unmute" | "ban" | "unban";
+export const MODERATION_ACTIONS: readonly ModerationAction[] = ["kick", "mute", "unmute", "ban", "unban"];
+
+export type MemberStatus = "active" | "idle";
+export const MEMBER_STATUSES: readonly MemberStatus[] = ["active", "idle"];
+
+export interface RoomMember {
+    userId: string;
+    name: string;
+    status: MemberStatus;
+    // Signed in through an auth provider rather than a guest
+    verified?: boolean;
+}
+
+// Client -> server
+
+// Guests send a name. Verified users send a token (jwt) or a username and
+// password (local, with register to create the account) instead.
+export interface IdentifyMessage {
+    type: "identify";
+    payload: {
+        name?: string;
+        resumeToken?: string;
+        token?: string;
+        username?: string;
+        password?: string;
+        register?: boolean;
+    };
+}
+
+export interface RenameMessage {
+    type: "rename";
+    payload: { name: string };
+}
+
+// password or invite (a token from an invite link) unlock protected rooms
+export interface JoinMessage {
+    type: "join";
+    payload: { roomId?: string; password?: string; invite?: string };
+}
+
+export interface LeaveMessage {
+    type: "leave";
+    payload: { roomId: string };
+}
+
+// clientId is the sender's own id for the message. With it the server answers
+// with chat_ack (or an error carrying the same clientId), and a resend with an
+// id it has already accepted is acknowledged again rather than posted twice.
+// message may be empty when attachments are sent. replyTo is the id of a
+// message in the same room; replying to a reply joins the thread it is in.
+export interface ChatMessage {
+    type: "chat";
+    payload: { roomId: string; message: string; clientId?: string; attachments?: AttachmentRef[]; replyTo?: number };
+}
+
+// Edit and delete are limited to the message's author
+export interface EditMessage {
+    type: "edit";
+    payload: { roomId: string; id: number; message: string };
+}
+
+export interface DeleteMessage {
+    type: "delete";
+    payload: { roomId: string; id: number };
+}
+
+// Toggles the sender's reaction on or off
+export interface ReactMessage {
+    type: "react";
+    payload: { roomId: string; id: number; emoji: string };
+}
+
+// Applies to all of the connection's rooms
+export interface StatusMessage {
+    type: "status";
+    payload: { status: MemberStatus };
+}
+
+// The user has seen the room up to and including message id. Markers only
+// move forward; an older id changes nothing.
+export interface ReadMessage {
+    type: "read";
+    payload: { roomId: string; id: number };
+}
+
+// Clients repeat typing: true while the user keeps typing; the server
+// throttles how often it relays them
+export interface TypingMessage {
+    type: "typing";
+    payload: { roomId: string; typing: boolean };
+}
+
+// Owner only. password is required when switching to "password" mode;
+// revokeInvites invalidates every invite issued so far.
+export interface RoomAccessMessage {
+    type: "room_access";
+    payload: { roomId: string; mode?: RoomAccessMode; password?: string; revokeInvites?: boolean };
+}
+
+// Owner only
+export interface RoomRoleMessage {
+    type: "room_role";
+    payload: { roomId: string; userId: string; role: RoomRole };
+}
+
+// Owner and moderators; answered with an invite message
+export interface CreateInviteMessage {
+    type: "create_invite";
+    payload: { roomId: string; ttlMs?: number };
+}
+
+// Owner and moderators. The target is given by userId or, for someone who
+// isn't around, by name; durationMs applies to mutes.
+export interface ModerateMessage {
+    type: "moderate";
+    payload: { roomId: string; action: ModerationAction; userId?: string; name?: string; durationMs?: number };
+}
+
+export interface HistoryRequestMessage {
+    type: "history";
+    payload: { roomId: string; before?: number; limit?: number };
+}
+
+// A thread's replies, newest page first like history; answered with a thread message
+export interface ThreadRequestMessage {
+    type: "thread";
+    payload: { roomId: string; id: number; before?: number; limit?: number };
+}
+
+// Full-text search over the rooms the sender is in that replay history.
+// Every word of query must start a word of the message; roomId narrows it to
+// one room, sender to one author's name, since/until (timestamps) to a time
+// range. Results are newest first; before pages on by message id.
+export interface SearchRequestMessage {
+    type: "search";
+    payload: {
+        query: string;
+        roomId?: string;
+        sender?: string;
+        since?: number;
+        until?: number;
+        before?: number;
+        limit?: number;
+    };
+}
+
+export interface RoomSettingsMessage {
+    type: "room_settings";
+    // slowModeMs: minimum gap between one member's messages; 0 turns it off
+    payload: { roomId: string; historyReplay?: boolean; slowModeMs?: number };
+}
+
+export interface DirectMessage {
+    type: "dm";
+    payload: { toUserId: string; message: string };
+}
+
+export type ClientMessage =
+    | IdentifyMessage
+    | RenameMessage
+    | JoinMessage
+    | LeaveMessage
+    | ChatMessage
+    | EditMessage
+    | DeleteMessage
+    | ReactMessage
+    | StatusMessage
+    | TypingMessage
+    | HistoryRequestMessage
+    | ThreadRequestMessage
+    | SearchRequestMessage
+    | ReadMessage
+    | RoomSettingsMessage
+    | RoomAccessMessage
+    | RoomRoleMessage
+    | CreateInviteMessage
+    | ModerateMessage
+    | DirectMessage;
+
+// Server -> client
+
+// A file uploaded with POST /attachments and sent along with a chat message.
+// id is the SHA-256 of the content; it's served from /attachments/<id>.
+export interface ChatAttachment {
+    id: string;
+    name: string;
+    size: number;
+    contentType: string;
+}
+
+// What a sender passes; the server fills in size and type from its blob store
+export type AttachmentRef = Pick<ChatAttachment, "id" | "name">;
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+// A room member named with "@name" in a message, resolved by the server
+export interface ChatMention {
+    userId: string;
+    name: string;
+}
+
+// The start of the message a reply answers, as it read when the reply was sent
+export interface ChatQuote {
+    sender: string;
+    userId: string;
+    message: string;
+}
+
+export interface ChatPayload {
+    id: number;
+    message: string;
+    sender: string;
+    userId: string;
+    roomId: string;
+    timestamp: number;
+    // The sender was signed in through an auth provider
+    verified?: boolean;
+    // Posted with /me
+    action?: boolean;
+    // A webhook's reply to a slash command
+    bot?: boolean;
+    editedAt?: number;
+    deleted?: boolean;
+    // emoji -> userIds that reacted with it
+    reactions?: Record<string, string[]>;
+    attachments?: ChatAttachment[];
+    mentions?: ChatMention[];
+    // Set on replies: the thread's first message and a preview of it
+    replyTo?: number;
+    quote?: ChatQuote;
+    // Set on messages that have been replied to
+    replyCount?: number;
+    lastReplyAt?: number;
+    // Set on messages restored from a transcript: the id they had in it
+    importedId?: number;
+}
+
+// Fields of a chat message that changed; absent fields are unchanged
+export interface MessagePatch {
+    roomId: string;
+    id: number;
+    message?: string;
+    editedAt?: number;
+    deleted?: boolean;
+    reactions?: Record<string, string[]>;
+    attachments?: ChatAttachment[];
+    // Re-resolved when the text is edited
+    mentions?: ChatMention[];
+    replyCount?: number;
+    lastReplyAt?: number;
+}
+
+export interface DirectMessagePayload {
+    id: number;
+    message: string;
+    fromUserId: string;
+    fromName: string;
+    toUserId: string;
+    toName: string;
+    timestamp: number;
+}
+
+export interface ServerInfoMessage {
+    type: "server_info";
+    // maxMessageLength caps chat, edit and dm text, in characters. authProviders
+    // lists the ways to sign in; without guestsAllowed a name alone isn't enough.
+    payload: {
+        sessionId: string;
+        protocolVersion: number;
+        supportedVersions: number[];
+        maxMessageLength: number;
+        authProviders: string[];
+        guestsAllowed: boolean;
+        // Upload limits for POST /attachments; types may end in "/*"
+        maxAttachmentBytes: number;
+        attachmentTypes: string[];
+    };
+}
+
+export interface RequireIdentityMessage {
+    type: "require_identity";
+}
+
+// Sent to every client just before the server closes their socket with 1012
+// (service restart). retryAfterMs is when to reconnect; each client gets a
+// slightly different value so they don't all come back at once.
+export interface ServerShutdownMessage {
+    type: "server_shutdown";
+    payload: { message: string; retryAfterMs: number };
+}
+
+export interface IdentityMessage {
+    type: "identity";
+    // roomIds lists the rooms a resumed session was put back into
+    payload: { name: string; userId: string; resumeToken: string; resumed: boolean; verified: boolean; roomIds?: string[] };
+}
+
+export interface ErrorMessage {
+    type: "error";
+    // requestType echoes the client message type that failed, when known.
+    // Rejected joins also name the room and, for protected rooms, its access mode.
+    // MUTED, SLOW_MODE and RATE_LIMITED say how long until the next message is allowed.
+    // Refused chat messages echo their clientId.
+    payload: {
+        code: ErrorCode;
+        message?: string;
+        requestType?: string;
+        roomId?: string;
+        access?: RoomAccessMode;
+        retryAfterMs?: number;
+        clientId?: string;
+    };
+}
+
+// Sent to the sender only, before the message itself is broadcast. id and
+// timestamp are the stored message's; slash commands are acknowledged without
+// them. recipients counts the other members connected to the room when it was
+// sent, so a nonzero count means it was delivered.
+export interface ChatAckMessage {
+    type: "chat_ack";
+    payload: { clientId: string; roomId: string; id?: number; timestamp?: number; recipients?: number };
+}
+
+export interface ChatEvent {
+    type: "chat";
+    payload: ChatPayload;
+}
+
+export interface MessagePatchEvent {
+    type: "message_patch";
+    payload: MessagePatch;
+}
+
+export interface SystemMessage {
+    type: "system";
+    payload: { message: string; roomId: string; timestamp: number };
+}
+
+export interface RoomStateMessage {
+    type: "room_state";
+    // members (the full roster) is only sent to the connection that just joined;
+    // everyone else follows along through presence events
+    payload: {
+        roomId: string;
+        memberCount: number;
+        historyReplay: boolean;
+        access: RoomAccessMode;
+        ownerUserId?: string;
+        moderatorUserIds: string[];
+        // 0 when slow mode is off
+        slowModeMs: number;
+        // userId -> when their mute ends
+        mutedUntil: Record<string, number>;
+        topic?: string;
+        members?: RoomMember[];
+    };
+}
+
+// Sent to the member a moderator acted on. Kicks and bans have already
+// removed them from the room.
+export interface ModerationEvent {
+    type: "moderation";
+    payload: { roomId: string; action: ModerationAction; byName: string; until?: number };
+}
+
+export interface InviteMessage {
+    type: "invite";
+    payload: { roomId: string; token: string; expiresAt: number };
+}
+
+export interface PresenceMessage {
+    type: "presence";
+    payload: { roomId: string; userId: string; name: string; status: MemberStatus | "left" };
+}
+
+// A member's read marker moved forward
+export interface ReadEvent {
+    type: "read";
+    payload: { roomId: string; userId: string; id: number };
+}
+
+// Sent after room_state to a connection joining a room: each user's read
+// marker (userId -> message id) and how many messages from others arrived
+// after the joiner's own marker, 0 when it has none yet
+export interface ReadStateMessage {
+    type: "read_state";
+    payload: { roomId: string; markers: Record<string, number>; unread: number };
+}
+
+export interface TypingEvent {
+    type: "typing";
+    payload: { roomId: string; userId: string; name: string; typing: boolean };
+}
+
+export interface HistoryPageMessage {
+    type: "history";
+    payload: { roomId: string; before?: number; messages: ChatPayload[]; hasMore: boolean };
+}
+
+// id is the thread's first message; messages are its replies, oldest first
+export interface ThreadPageMessage {
+    type: "thread";
+    payload: { roomId: string; id: number; before?: number; messages: ChatPayload[]; hasMore: boolean };
+}
+
+// query is echoed so clients can drop answers to searches they've moved on from
+export interface SearchResultsMessage {
+    type: "search";
+    payload: { query: string; before?: number; messages: ChatPayload[]; hasMore: boolean };
+}
+
+// Delivered to the recipient's connections and echoed to the sender's
+export interface DirectMessageEvent {
+    type: "dm";
+    payload: DirectMessagePayload;
+}
+
+export type ServerMessage =
+    | ServerInfoMessage
+    | RequireIdentityMessage
+    | ServerShutdownMessage
+    | IdentityMessage
+    | ErrorMessage
+    | ChatEvent
+    | ChatAckMessage
+    | MessagePatchEvent
+    | SystemMessage
+    | RoomStateMessage
+    | PresenceMessage
+    | TypingEvent
+    | ReadEvent
+    | ReadStateMessage
+    | InviteMessage
+    | ModerationEvent
+    | HistoryPageMessage
+    | ThreadPageMessage
+    | SearchResultsMessage
+    | DirectMessageEvent;
+
+// Runtime validation. Payloads are described by a flat field spec; a trailing
+// "?" marks a field that may be absent.
+
+type FieldKind = "string" | "number" | "boolean" | "array" | "object";
+type FieldSpec = FieldKind | `${FieldKind}?`;
+type PayloadSpec = Record<string, FieldSpec> | null;
+
+const CHAT_PAYLOAD: Record<string, FieldSpec> = {
+    id: "number",
+    message: "string",
+    sender: "string",
+    userId: "string",
+    roomId: "string",
+    timestamp: "number",
+    verified: "boolean?",
+    action: "boolean?",
+    bot: "boolean?",
+    editedAt: "number?",
+    deleted: "boolean?",
+    reactions: "object?",
+    attachments: "array?",
+    mentions: "array?",
+    replyTo: "number?",
+    quote: "object?",
+    replyCount: "number?",
+    lastReplyAt: "number?",
+    importedId: "number?",
+};
+
+const ATTACHMENT_SPEC: Record<string, FieldSpec> = { id: "string", name: "string", size: "number", contentType: "string" };
+const MENTION_SPEC: Record<string, FieldSpec> = { userId: "string", name: "string" };
+const QUOTE_SPEC: Record<string, FieldSpec> = { sender: "string", userId: "string", message: "string" };
+
+const CLIENT_PAYLOADS: Record<ClientMessage["type"], PayloadSpec> = {
+    identify: {
+        name: "string?",
+        resumeToken: "string?",
+        token: "string?",
+        username: "string?",
+        password: "string?",
+        register: "boolean?",
+    },
+    rename: { name: "string" },
+    join: { roomId: "string?", password: "string?", invite: "string?" },
+    leave: { roomId: "string" },
+    chat: { roomId: "string", message: "string", clientId: "string?", attachments: "array?", replyTo: "number?" },
+    edit: { roomId: "string", id: "number", message: "string" },
+    delete: { roomId: "string", id: "number" },
+    react: { roomId: "string", id: "number", emoji: "string" },
+    status: { status: "string" },
+    typing: { roomId: "string", typing: "boolean" },
+    history: { roomId: "string", before: "number?", limit: "number?" },
+    thread: { roomId: "string", id: "number", before: "number?", limit: "number?" },
+    search: {
+        query: "string",
+        roomId: "string?",
+        sender: "string?",
+        since: "number?",
+        until: "number?",
+        before: "number?",
+        limit: "number?",
+    },
+    room_settings: { roomId: "string", historyReplay: "boolean?", slowModeMs: "number?" },
+    room_access: { roomId: "string", mode: "string?", password: "string?", revokeInvites: "boolean?" },
+    room_role: { roomId: "string", userId: "string", role: "string" },
+    create_invite: { roomId: "string", ttlMs: "number?" },
+    moderate: { roomId: "string", action: "string", userId: "string?", name: "string?", durationMs: "number?" },
+    dm: { toUserId: "string", message: "string" },
+    read: { roomId: "string", id: "number" },
+};
+
+const SERVER_PAYLOADS: Record<ServerMessage["type"], PayloadSpec> = {
+    server_info: {
+        sessionId: "string",
+        protocolVersion: "number",
+        supportedVersions: "array",
+        maxMessageLength: "number",
+        authProviders: "array",
+        guestsAllowed: "boolean",
+        maxAttachmentBytes: "number",
+        attachmentTypes: "array",
+    },
+    require_identity: null,
+    server_shutdown: { message: "string", retryAfterMs: "number" },
+    identity: {
+        name: "string",
+        userId: "string",
+        resumeToken: "string",
+        resumed: "boolean",
+        verified: "boolean",
+        roomIds: "array?",
+    },
+    error: {
+        code: "string",
+        message: "string?",
+        requestType: "string?",
+        roomId: "string?",
+        access: "string?",
+        retryAfterMs: "number?",
+        clientId: "string?",
+    },
+    chat: CHAT_PAYLOAD,
+    chat_ack: { clientId: "string", roomId: "string", id: "number?", timestamp: "number?", recipients: "number?" },
+    message_patch: {
+        roomId: "string",
+        id: "number",
+        message: "string?",
+        editedAt: "number?",
+        deleted: "boolean?",
+        reactions: "object?",
+        attachments: "array?",
+        mentions: "array?",
+        replyCount: "number?",
+        lastReplyAt: "number?",
+    },
+    system: { message: "string", roomId: "string", timestamp: "number" },
+    room_state: {
+        roomId: "string",
+        memberCount: "number",
+        historyReplay: "boolean",
+        access: "string",
+        ownerUserId: "string?",
+        moderatorUserIds: "array",
+        slowModeMs: "number",
+        mutedUntil: "object",
+        topic: "string?",
+        members: "array?",
+    },
+    invite: { roomId: "string", token: "string", expiresAt: "number" },
+    moderation: { roomId: "string", action: "string", byName: "string", until: "number?" },
+    presence: { roomId: "string", userId: "string", name: "string", status: "string" },
+    typing: { roomId: "string", userId: "string", name: "string", typing: "boolean" },
+    read: { roomId: "string", userId: "string", id: "number" },
+    read_state: { roomId: "string", markers: "object", unread: "number" },
+    history: { roomId: "string", before: "number?", messages: "array", hasMore: "boolean" },
+    thread: { roomId: "string", id: "number", before: "number?", messages: "array", hasMore: "boolean" },
+    search: { query: "string", before: "number?", messages: "array", hasMore: "boolean" },
+    dm: {
+        id: "number",
+        message: "string",
+        fromUserId: "string",
+        fromName: "string",
+        toUserId: "string",
+        toName: "string",
+        timestamp: "number",
+    },
+};
+
+export interface ProtocolError {
+    code: ErrorCode;
+    message: string;
+    requestType?: string;
+}
+
+export type DecodeResult<T> =
+    | { ok: true; message: T }
+    // notJson: the frame wasn't a JSON object at all (e.g. plain text)
+    | { ok: false; error: ProtocolError; notJson?: boolean };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function kindOf(value: unknown): FieldKind | "other" {
+    if (Array.isArray(value)) return "array";
+    if (isRecord(value)) return "object";
+    if (typeof value === "number") return Number.isFinite(value) ? "number" : "other";
+    if (typeof value === "string" || typeof value === "boolean") return typeof value as FieldKind;
+    return "other";
+}
+
+// Returns a description of the first mismatch, or null when the payload fits.
+// Optional fields may be left out but not sent as null: handlers type them as
+// `T | undefined`, so a null would get past their defaults.
+function checkPayload(payload: unknown, spec: PayloadSpec, path = "payload"): string | null {
+    if (spec === null) return null;
+    if (!isRecord(payload)) return `${path} must be an object`;
+    for (const [field, fieldSpec] of Object.entries(spec)) {
+        const optional = fieldSpec.endsWith("?");
+        const kind = (optional ? fieldSpec.slice(0, -1) : fieldSpec) as FieldKind;
+        const value = payload[field];
+        if (value === undefined) {
+            if (optional) continue;
+            return `${path}.${field} is required`;
+        }
+        if (kindOf(value) !== kind) return `${path}.${field} must be ${kind === "array" || kind === "object" ? "an" : "a"} ${kind}`;
+    }
+    return null;
+}
+
+// A whole chat message, nested attachments, mentions, quote and reactions
+// included; used for history pages and for imported transcripts
+export function checkChatPayload(value: unknown, path = "payload"): string | null {
+    const problem = checkPayload(value, CHAT_PAYLOAD, path);
+    if (problem) return problem;
+    const chat = value as ChatPayload;
+    const lists: [string, unknown[] | undefined, Record<string, FieldSpec>][] = [
+        ["attachments", chat.attachments, ATTACHMENT_SPEC],
+        ["mentions", chat.mentions, MENTION_SPEC],
+    ];
+    for (const [field, items, spec] of lists) {
+        for (let i = 0; i < (items ?? []).length; i++) {
+            const itemProblem = checkPayload(items?.[i], spec, `${path}.${field}[${i}]`);
+            if (itemProblem) return itemProblem;
+        }
+    }
+    if (chat.quote !== undefined) {
+        const quoteProblem = checkPayload(chat.quote, QUOTE_SPEC, `${path}.quote`);
+        if (quoteProblem) return quoteProblem;
+    }
+    for (const [emoji, userIds] of Object.entries(chat.reactions ?? {})) {
+        if (!Array.isArray(userIds) || userIds.some((userId) => typeof userId !== "string")) {
+            return `${path}.reactions.${emoji} must be an array of strings`;
+        }
+    }
+    return null;
+}
+
+function parseObject(text: string): Record<string, unknown> | null {
+    try {
+        const parsed: unknown = JSON.parse(text);
+        return isRecord(parsed) ? parsed : null;
+    } catch {
+        return null;
+    }
+}
+
+export function decodeClientMessage(text: string): DecodeResult<ClientMessage> {
+    const parsed = parseObject(text);
+    if (!parsed) {
+        return { ok: false, notJson: true, error: { code: "BAD_REQUEST", message: "Expected a JSON object" } };
+    }
+    const { type, v } = parsed;
+    if (typeof type !== "string") {
+        return { ok: false, error: { code: "BAD_REQUEST", message: "Missing message type" } };
+    }
+    // Messages without a version are treated as the current version
+    if (v !== undefined && (typeof v !== "number" || !SUPPORTED_PROTOCOL_VERSIONS.includes(v))) {
+        return {
+            ok: false,
+            error: { code: "UNSUPPORTED_VERSION", message: `Supported versions: ${SUPPORTED_PROTOCOL_VERSIONS.join(", ")}`, requestType: type },
+        };
+    }
+    if (!Object.prototype.hasOwnProperty.call(CLIENT_PAYLOADS, type)) {
+        return { ok: false, error: { code: "UNKNOWN_TYPE", message: `Unknown message type "${type}"`, requestType: type } };
+    }
+    const spec = CLIENT_PAYLOADS[type as ClientMessage["type"]];
+    const problem = checkPayload(parsed.payload, spec);
+    if (problem) {
+        return { ok: false, error: { code: "BAD_REQUEST", message: problem, requestType: type } };
+    }
+    let payload = parsed.payload;
+    if (spec?.roomId && isRecord(payload) && typeof payload.roomId === "string") {
+        const roomId = normalizeRoomId(payload.roomId);
+        // A blank optional roomId counts as left out: join's default room, search's every room
+        const leftOut = roomId === null && payload.roomId.trim() === "" && spec.roomId.endsWith("?");
+        if (roomId === null && !leftOut) {
+            const message = `payload.roomId must be 1 to ${ROOM_ID_MAX_LENGTH} characters`;
+            return { ok: false, error: { code: "BAD_REQUEST", message, requestType: type } };
+        }
+        payload = { ...payload, roomId: roomId ?? undefined };
+    }
+    return { ok: true, message: { type, payload } as ClientMessage };
+}
+
+export function decodeServerMessage(text: string): DecodeResult<ServerMessage> {
+    const parsed = parseObject(text);
+    if (!parsed) {
+        return { ok: false, notJson: true, error: { code: "BAD_REQUEST", message: "Expected a JSON object" } };
+    }
+    const { type } = parsed;
+    if (typeof type !== "string" || !Object.prototype.hasOwnProperty.call(SERVER_PAYLOADS, type)) {
+        return { ok: false, error: { code: "UNKNOWN_TYPE", message: `Unknown message type "${String(type)}"` } };
+    }
+    const problem = checkPayload(parsed.payload, SERVER_PAYLOADS[type as ServerMessage["type"]]);
+    if (problem) {
+        return { ok: false, error: { code: "BAD_REQUEST", message: problem } };
+    }
+    if (type === "history" || type === "thread" || type === "search") {
+        const messages = (parsed.payload as { messages: unknown[] }).messages;
+        for (let i = 0; i < messages.length; i++) {
+            const itemProblem = checkChatPayload(messages[i], `payload.messages[${i}]`);
+            if (itemProblem) return { ok: false, error: { code: "BAD_REQUEST", message: itemProblem } };
+        }
+    }
+    return { ok: true, message: parsed as unknown as ServerMessage };
+}
+
+export function encodeServerMessage(message: ServerMessage): string {
+    return JSON.stringify(message);
+}
+
+export function encodeClientMessage(message: ClientMessage): string {
+    return JSON.stringify({ v: PROTOCOL_VERSION, ...message });
+}
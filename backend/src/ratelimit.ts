@@ -0,0 +1,40 @@
+// Token bucket: holds up to `capacity` tokens and regains `refillPerSecond`
+// of them continuously. Each request takes one; an empty bucket means wait.
+export class TokenBucket {
+    private tokens: number;
+    private updatedAt: number;
+
+    constructor(
+        private readonly capacity: number,
+        private readonly refillPerSecond: number,
+    ) {
+        this.tokens = capacity;
+        this.updatedAt = Date.now();
+    }
+
+    take(): boolean {
+        this.refill();
+        if (this.tokens < 1) return false;
+        this.tokens -= 1;
+        return true;
+    }
+
+    // Back at capacity, i.e. nothing to remember about this client
+    isFull(): boolean {
+        this.refill();
+        return this.tokens >= this.capacity;
+    }
+
+    // Milliseconds until the next token is available
+    retryAfterMs(): number {
+        this.refill();
+        if (this.tokens >= 1) return 0;
+        return Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.refillPerSecond);
+        this.updatedAt = now;
+    }
+}
@@ -0,0 +1,138 @@
+import * as http from "http";
+import { ErrorCode } from "./protocol";
+
+// Plumbing for the JSON HTTP API served next to the WebSocket endpoint. Errors
+// reuse the socket protocol's error codes so clients can share handling.
+
+export type HttpErrorCode = ErrorCode | "NOT_FOUND" | "METHOD_NOT_ALLOWED";
+
+export class HttpError extends Error {
+    constructor(
+        readonly status: number,
+        readonly code: HttpErrorCode,
+        message: string,
+        readonly retryAfterMs?: number,
+    ) {
+        super(message);
+    }
+}
+
+const STATUS_BY_CODE: Partial<Record<ErrorCode, number>> = {
+    BAD_REQUEST: 400,
+    NAME_INVALID: 400,
+    AUTH_FAILED: 401,
+    AUTH_REQUIRED: 401,
+    FORBIDDEN: 403,
+    BANNED: 403,
+    MUTED: 403,
+    HISTORY_DISABLED: 403,
+    MESSAGE_NOT_FOUND: 404,
+    NAME_TAKEN: 409,
+    MESSAGE_TOO_LARGE: 413,
+    UNSUPPORTED_MEDIA_TYPE: 415,
+    SLOW_MODE: 429,
+    RATE_LIMITED: 429,
+};
+
+// Maps a socket error code to the matching HTTP error
+export function httpError(code: ErrorCode, message: string, retryAfterMs?: number): HttpError {
+    return new HttpError(STATUS_BY_CODE[code] ?? 500, code, message, retryAfterMs);
+}
+
+export function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}): void {
+    res.writeHead(status, { "Content-Type": "application/json; charset=utf-8", "Cache-Control": "no-store", ...headers });
+    res.end(JSON.stringify(body));
+}
+
+// Callers authenticate with headers rather than cookies, so any origin may call
+export const CORS_HEADERS: http.OutgoingHttpHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Authorization, Content-Type, X-Room-Password, X-Room-Invite",
+    "Access-Control-Max-Age": "600",
+};
+
+export function sendHttpError(res: http.ServerResponse, err: HttpError): void {
+    const headers: http.OutgoingHttpHeaders = {};
+    if (err.retryAfterMs !== undefined) headers["Retry-After"] = String(Math.ceil(err.retryAfterMs / 1000));
+    sendJson(res, err.status, { error: { code: err.code, message: err.message, retryAfterMs: err.retryAfterMs } }, headers);
+}
+
+// Reads the whole body, refusing anything over maxBytes
+export function readBody(req: http.IncomingMessage, maxBytes: number): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const tooLarge = () => new HttpError(413, "MESSAGE_TOO_LARGE", `Request bodies are limited to ${maxBytes} bytes`);
+        if (Number(req.headers["content-length"]) > maxBytes) {
+            reject(tooLarge());
+            req.resume();
+            return;
+        }
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on("data", (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxBytes) {
+                reject(tooLarge());
+                // Drain the rest so the error response can still be read
+                req.removeAllListeners("data");
+                req.resume();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on("error", reject);
+        req.on("end", () => resolve(Buffer.concat(chunks)));
+    });
+}
+
+// Parses a JSON object body, refusing anything over maxBytes
+export async function readJsonBody(req: http.IncomingMessage, maxBytes: number): Promise<Record<string, unknown>> {
+    const raw = await readBody(req, maxBytes);
+    let body: unknown;
+    try {
+        body = JSON.parse(raw.toString("utf8"));
+    } catch {
+        throw new HttpError(400, "BAD_REQUEST", "The request body must be JSON");
+    }
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+        throw new HttpError(400, "BAD_REQUEST", "The request body must be a JSON object");
+    }
+    return body as Record<string, unknown>;
+}
+
+// "Bearer <token>" or "Basic base64(username:password)" from the Authorization header
+export function readCredentials(req: http.IncomingMessage): { token?: string; username?: string; password?: string } {
+    const header = req.headers.authorization?.trim() ?? "";
+    const separator = header.indexOf(" ");
+    if (separator < 0) return {};
+    const scheme = header.slice(0, separator).toLowerCase();
+    const value = header.slice(separator + 1).trim();
+    if (scheme === "bearer" && value) return { token: value };
+    if (scheme === "basic" && value) {
+        const decoded = Buffer.from(value, "base64").toString("utf8");
+        const colon = decoded.indexOf(":");
+        if (colon > 0) return { username: decoded.slice(0, colon), password: decoded.slice(colon + 1) };
+    }
+    return {};
+}
+
+// Matches paths like "/rooms/:roomId/messages"; returns the decoded params or null
+export function matchRoute(pattern: string, pathname: string): Record<string, string> | null {
+    const expected = pattern.split("/");
+    const actual = pathname.replace(/\/+$/, "").split("/");
+    if (expected.length !== actual.length) return null;
+    const params: Record<string, string> = {};
+    for (let i = 0; i < expected.length; i++) {
+        if (expected[i].startsWith(":")) {
+            if (!actual[i]) return null;
+            try {
+                params[expected[i].slice(1)] = decodeURIComponent(actual[i]);
+            } catch {
+                return null;
+            }
+        } else if (expected[i] !== actual[i]) {
+            return null;
+        }
+    }
+    return params;
+}
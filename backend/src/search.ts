@@ -0,0 +1,25 @@
+// Words for full-text search: runs of letters and digits, lowercased. Stores
+// match a query word against the start of a message's words, so "deplo"
+// finds "Deploying".
+
+export const SEARCH_MAX_TERMS = 8;
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+function words(text: string): string[] {
+    return text.toLowerCase().match(WORD) ?? [];
+}
+
+export function searchTerms(query: string): string[] {
+    return [...new Set(words(query))].slice(0, SEARCH_MAX_TERMS);
+}
+
+export function matchesTerms(text: string, terms: string[]): boolean {
+    const messageWords = words(text);
+    return terms.every((term) => messageWords.some((word) => word.startsWith(term)));
+}
+
+// FTS5 query for the same match: every term, each as a quoted prefix
+export function ftsQuery(terms: string[]): string {
+    return terms.map((term) => `"${term}"*`).join(" ");
+}
@@ -0,0 +1,20 @@
+import { MemoryStore } from "./memory";
+import { SqliteStore } from "./sqlite";
+import { ChatStore } from "./types";
+
+export * from "./types";
+export { MemoryStore } from "./memory";
+export { SqliteStore } from "./sqlite";
+
+// STORE=memory (default) or STORE=sqlite with SQLITE_PATH pointing at the db file
+export function createStoreFromEnv(env: NodeJS.ProcessEnv, maxHistory: number): ChatStore {
+    const kind = (env.STORE || "memory").trim().toLowerCase();
+    switch (kind) {
+        case "memory":
+            return new MemoryStore(maxHistory);
+        case "sqlite":
+            return new SqliteStore(env.SQLITE_PATH || "./data/chat.db", maxHistory);
+        default:
+            throw new Error(`Unknown STORE "${kind}" (expected "memory" or "sqlite")`);
+    }
+}
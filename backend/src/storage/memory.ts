@@ -0,0 +1,140 @@
+import { matchesTerms } from "../search";
+import { AccountRecord, ChatRecord, ChatStore, IdentityRecord, MessagePage, MessageSearch, RoomId, RoomRecord } from "./types";
+
+// Default store: plain Maps, lost on restart. Also handy for local testing.
+export class MemoryStore implements ChatStore {
+    private readonly roomIdToHistory: Map<RoomId, ChatRecord[]> = new Map();
+    private readonly roomIdToRoom: Map<RoomId, RoomRecord> = new Map();
+    private readonly userIdToIdentity: Map<string, IdentityRecord> = new Map();
+    private readonly usernameToAccount: Map<string, AccountRecord> = new Map();
+    // roomId -> userId -> newest message id read
+    private readonly roomIdToReadMarkers: Map<RoomId, Map<string, number>> = new Map();
+    private lastMessageId = 0;
+
+    constructor(private readonly maxHistory: number) {}
+
+    async init(): Promise<void> {}
+
+    async close(): Promise<void> {}
+
+    async appendMessage(record: ChatRecord): Promise<void> {
+        const history = this.roomIdToHistory.get(record.roomId) ?? [];
+        history.push(record);
+        if (history.length > this.maxHistory) {
+            history.splice(0, history.length - this.maxHistory);
+        }
+        this.roomIdToHistory.set(record.roomId, history);
+        this.lastMessageId = Math.max(this.lastMessageId, record.id);
+    }
+
+    async getMessages(roomId: RoomId, before: number | undefined, limit: number): Promise<MessagePage> {
+        const history = this.roomIdToHistory.get(roomId) ?? [];
+        let end = history.length;
+        if (before !== undefined) {
+            // History is ordered by id, so find the first entry at or past the cursor
+            end = history.findIndex((record) => record.id >= before);
+            if (end === -1) end = history.length;
+        }
+        const start = Math.max(0, end - limit);
+        return { messages: history.slice(start, end), hasMore: start > 0 };
+    }
+
+    async getReplies(roomId: RoomId, parentId: number, before: number | undefined, limit: number): Promise<MessagePage> {
+        const replies = (this.roomIdToHistory.get(roomId) ?? []).filter(
+            (record) => record.replyTo === parentId && (before === undefined || record.id < before),
+        );
+        const start = Math.max(0, replies.length - limit);
+        return { messages: replies.slice(start), hasMore: start > 0 };
+    }
+
+    async searchMessages(search: MessageSearch): Promise<MessagePage> {
+        const sender = search.sender?.toLowerCase();
+        const matches = search.roomIds
+            .flatMap((roomId) => this.roomIdToHistory.get(roomId) ?? [])
+            .filter((record) =>
+                !record.deleted &&
+                (search.before === undefined || record.id < search.before) &&
+                (search.since === undefined || record.timestamp >= search.since) &&
+                (search.until === undefined || record.timestamp < search.until) &&
+                (sender === undefined || record.sender.toLowerCase() === sender) &&
+                matchesTerms(record.message, search.terms),
+            )
+            .sort((a, b) => b.id - a.id);
+        return { messages: matches.slice(0, search.limit), hasMore: matches.length > search.limit };
+    }
+
+    async clearMessages(roomId: RoomId): Promise<void> {
+        this.roomIdToHistory.delete(roomId);
+    }
+
+    async getLastMessageId(): Promise<number> {
+        return this.lastMessageId;
+    }
+
+    async getMessage(roomId: RoomId, id: number): Promise<ChatRecord | undefined> {
+        return this.roomIdToHistory.get(roomId)?.find((record) => record.id === id);
+    }
+
+    async updateMessage(record: ChatRecord): Promise<void> {
+        const history = this.roomIdToHistory.get(record.roomId);
+        const index = history ? history.findIndex((existing) => existing.id === record.id) : -1;
+        if (history && index !== -1) history[index] = record;
+    }
+
+    async findMessageIds(ids: number[]): Promise<number[]> {
+        const wanted = new Set(ids);
+        return [...this.roomIdToHistory.values()].flatMap((history) => history.filter((record) => wanted.has(record.id)).map((record) => record.id));
+    }
+
+    async importMessages(roomId: RoomId, records: ChatRecord[]): Promise<number> {
+        const storedIds = new Set<number>();
+        for (const history of this.roomIdToHistory.values()) {
+            for (const record of history) storedIds.add(record.id);
+        }
+        const added = records.filter((record) => !storedIds.has(record.id));
+        const history = [...(this.roomIdToHistory.get(roomId) ?? []), ...added].sort((a, b) => a.id - b.id);
+        this.roomIdToHistory.set(roomId, history.slice(Math.max(0, history.length - this.maxHistory)));
+        for (const record of added) this.lastMessageId = Math.max(this.lastMessageId, record.id);
+        return added.length;
+    }
+
+    async getReadMarkers(roomId: RoomId): Promise<Record<string, number>> {
+        return Object.fromEntries(this.roomIdToReadMarkers.get(roomId) ?? []);
+    }
+
+    async setReadMarker(roomId: RoomId, userId: string, id: number): Promise<void> {
+        const markers = this.roomIdToReadMarkers.get(roomId) ?? new Map<string, number>();
+        markers.set(userId, Math.max(markers.get(userId) ?? 0, id));
+        this.roomIdToReadMarkers.set(roomId, markers);
+    }
+
+    async countUnread(roomId: RoomId, userId: string, after: number): Promise<number> {
+        return (this.roomIdToHistory.get(roomId) ?? []).filter((record) => record.id > after && record.userId !== userId && !record.deleted).length;
+    }
+
+    async listRooms(): Promise<RoomRecord[]> {
+        return [...this.roomIdToRoom.values()];
+    }
+
+    async saveRoom(room: RoomRecord): Promise<void> {
+        this.roomIdToRoom.set(room.roomId, room);
+    }
+
+    async getIdentity(userId: string): Promise<IdentityRecord | undefined> {
+        return this.userIdToIdentity.get(userId);
+    }
+
+    async saveIdentity(identity: IdentityRecord): Promise<void> {
+        this.userIdToIdentity.set(identity.userId, identity);
+    }
+
+    async getAccount(username: string): Promise<AccountRecord | undefined> {
+        return this.usernameToAccount.get(username);
+    }
+
+    async createAccount(account: AccountRecord): Promise<boolean> {
+        if (this.usernameToAccount.has(account.username)) return false;
+        this.usernameToAccount.set(account.username, account);
+        return true;
+    }
+}
@@ -0,0 +1,270 @@
+import Database from "better-sqlite3";
+import * as fs from "fs";
+import * as path from "path";
+import { ftsQuery } from "../search";
+import { AccountRecord, ChatRecord, ChatStore, IdentityRecord, MessagePage, MessageSearch, RoomId, RoomRecord } from "./types";
+
+// File-backed store. Records are kept as JSON in a `data` column next to the
+// few fields we query on, so new message/room fields don't need migrations.
+// Message text is also indexed in an FTS5 table keyed by message id.
+export class SqliteStore implements ChatStore {
+    private db: Database.Database | null = null;
+
+    constructor(private readonly filename: string, private readonly maxHistory: number) {}
+
+    private get conn(): Database.Database {
+        if (!this.db) throw new Error("SqliteStore used before init()");
+        return this.db;
+    }
+
+    async init(): Promise<void> {
+        if (this.filename !== ":memory:") {
+            fs.mkdirSync(path.dirname(path.resolve(this.filename)), { recursive: true });
+        }
+        const db = new Database(this.filename);
+        db.pragma("journal_mode = WAL");
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS messages (
+                id INTEGER PRIMARY KEY,
+                room_id TEXT NOT NULL,
+                timestamp INTEGER NOT NULL,
+                data TEXT NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS messages_room_id ON messages (room_id, id);
+            CREATE INDEX IF NOT EXISTS messages_reply_to ON messages (room_id, json_extract(data, '$.replyTo'), id);
+            CREATE VIRTUAL TABLE IF NOT EXISTS message_search USING fts5 (message);
+            CREATE TABLE IF NOT EXISTS read_markers (
+                room_id TEXT NOT NULL,
+                user_id TEXT NOT NULL,
+                message_id INTEGER NOT NULL,
+                PRIMARY KEY (room_id, user_id)
+            );
+            -- High-water marks that must not go back when rows are deleted
+            CREATE TABLE IF NOT EXISTS counters (
+                name TEXT PRIMARY KEY,
+                value INTEGER NOT NULL
+            );
+            CREATE TABLE IF NOT EXISTS rooms (
+                room_id TEXT PRIMARY KEY,
+                data TEXT NOT NULL
+            );
+            CREATE TABLE IF NOT EXISTS identities (
+                user_id TEXT PRIMARY KEY,
+                data TEXT NOT NULL
+            );
+            CREATE TABLE IF NOT EXISTS accounts (
+                username TEXT PRIMARY KEY,
+                data TEXT NOT NULL
+            );
+        `);
+        // Databases from before search get their messages indexed once
+        db.prepare(`
+            INSERT INTO message_search (rowid, message)
+            SELECT id, json_extract(data, '$.message') FROM messages WHERE id NOT IN (SELECT rowid FROM message_search)
+        `).run();
+        // Databases from before the counter start it at their newest message
+        db.prepare("INSERT OR IGNORE INTO counters (name, value) SELECT 'message_id', COALESCE(MAX(id), 0) FROM messages").run();
+        this.db = db;
+    }
+
+    async close(): Promise<void> {
+        this.db?.close();
+        this.db = null;
+    }
+
+    async appendMessage(record: ChatRecord): Promise<void> {
+        const db = this.conn;
+        db.transaction(() => {
+            db.prepare("INSERT OR REPLACE INTO messages (id, room_id, timestamp, data) VALUES (?, ?, ?, ?)")
+                .run(record.id, record.roomId, record.timestamp, JSON.stringify(record));
+            this.index(record);
+            this.raiseLastMessageId(record.id);
+            this.trim(record.roomId);
+        })();
+    }
+
+    private raiseLastMessageId(id: number): void {
+        this.conn.prepare("UPDATE counters SET value = MAX(value, ?) WHERE name = 'message_id'").run(id);
+    }
+
+    // Keeps only the newest maxHistory rows for the room
+    private trim(roomId: RoomId): void {
+        const trimmed = `
+            SELECT id FROM messages WHERE room_id = ? AND id NOT IN (
+                SELECT id FROM messages WHERE room_id = ? ORDER BY id DESC LIMIT ?
+            )
+        `;
+        this.conn.prepare(`DELETE FROM message_search WHERE rowid IN (${trimmed})`).run(roomId, roomId, this.maxHistory);
+        this.conn.prepare(`DELETE FROM messages WHERE id IN (${trimmed})`).run(roomId, roomId, this.maxHistory);
+    }
+
+    async getMessages(roomId: RoomId, before: number | undefined, limit: number): Promise<MessagePage> {
+        const cursor = before ?? Number.MAX_SAFE_INTEGER;
+        // Fetch one extra row to learn whether an older page exists
+        const rows = this.conn
+            .prepare("SELECT data FROM messages WHERE room_id = ? AND id < ? ORDER BY id DESC LIMIT ?")
+            .all(roomId, cursor, limit + 1) as { data: string }[];
+        const hasMore = rows.length > limit;
+        const messages = rows.slice(0, limit).reverse().map((row) => JSON.parse(row.data) as ChatRecord);
+        return { messages, hasMore };
+    }
+
+    async getReplies(roomId: RoomId, parentId: number, before: number | undefined, limit: number): Promise<MessagePage> {
+        const cursor = before ?? Number.MAX_SAFE_INTEGER;
+        const rows = this.conn
+            .prepare("SELECT data FROM messages WHERE room_id = ? AND json_extract(data, '$.replyTo') = ? AND id < ? ORDER BY id DESC LIMIT ?")
+            .all(roomId, parentId, cursor, limit + 1) as { data: string }[];
+        const hasMore = rows.length > limit;
+        const messages = rows.slice(0, limit).reverse().map((row) => JSON.parse(row.data) as ChatRecord);
+        return { messages, hasMore };
+    }
+
+    async searchMessages(search: MessageSearch): Promise<MessagePage> {
+        if (search.roomIds.length === 0 || search.terms.length === 0) return { messages: [], hasMore: false };
+        const conditions = [`m.room_id IN (${search.roomIds.map(() => "?").join(", ")})`];
+        const params: (string | number)[] = [ftsQuery(search.terms), ...search.roomIds];
+        if (search.before !== undefined) {
+            conditions.push("m.id < ?");
+            params.push(search.before);
+        }
+        if (search.since !== undefined) {
+            conditions.push("m.timestamp >= ?");
+            params.push(search.since);
+        }
+        if (search.until !== undefined) {
+            conditions.push("m.timestamp < ?");
+            params.push(search.until);
+        }
+        if (search.sender !== undefined) {
+            conditions.push("lower(json_extract(m.data, '$.sender')) = lower(?)");
+            params.push(search.sender);
+        }
+        const rows = this.conn
+            .prepare(`
+                SELECT m.data FROM message_search JOIN messages m ON m.id = message_search.rowid
+                WHERE message_search MATCH ? AND ${conditions.join(" AND ")}
+                ORDER BY m.id DESC LIMIT ?
+            `)
+            .all(...params, search.limit + 1) as { data: string }[];
+        const hasMore = rows.length > search.limit;
+        const messages = rows.slice(0, search.limit).map((row) => JSON.parse(row.data) as ChatRecord);
+        return { messages, hasMore };
+    }
+
+    async clearMessages(roomId: RoomId): Promise<void> {
+        const db = this.conn;
+        db.transaction(() => {
+            db.prepare("DELETE FROM message_search WHERE rowid IN (SELECT id FROM messages WHERE room_id = ?)").run(roomId);
+            db.prepare("DELETE FROM messages WHERE room_id = ?").run(roomId);
+        })();
+    }
+
+    async getLastMessageId(): Promise<number> {
+        const row = this.conn.prepare("SELECT value FROM counters WHERE name = 'message_id'").get() as { value: number } | undefined;
+        return row?.value ?? 0;
+    }
+
+    async getMessage(roomId: RoomId, id: number): Promise<ChatRecord | undefined> {
+        const row = this.conn.prepare("SELECT data FROM messages WHERE room_id = ? AND id = ?").get(roomId, id) as { data: string } | undefined;
+        return row ? (JSON.parse(row.data) as ChatRecord) : undefined;
+    }
+
+    async updateMessage(record: ChatRecord): Promise<void> {
+        const db = this.conn;
+        db.transaction(() => {
+            const result = db.prepare("UPDATE messages SET data = ? WHERE room_id = ? AND id = ?").run(JSON.stringify(record), record.roomId, record.id);
+            if (result.changes > 0) this.index(record);
+        })();
+    }
+
+    async findMessageIds(ids: number[]): Promise<number[]> {
+        const found: number[] = [];
+        // Batched to stay under SQLite's limit on bound parameters
+        for (let start = 0; start < ids.length; start += 500) {
+            const batch = ids.slice(start, start + 500);
+            const rows = this.conn.prepare(`SELECT id FROM messages WHERE id IN (${batch.map(() => "?").join(", ")})`).all(...batch) as { id: number }[];
+            found.push(...rows.map((row) => row.id));
+        }
+        return found;
+    }
+
+    async importMessages(roomId: RoomId, records: ChatRecord[]): Promise<number> {
+        const db = this.conn;
+        return db.transaction(() => {
+            // The id is the primary key, so ids stored in any room are skipped
+            const insert = db.prepare("INSERT OR IGNORE INTO messages (id, room_id, timestamp, data) VALUES (?, ?, ?, ?)");
+            let added = 0;
+            for (const record of records) {
+                if (insert.run(record.id, roomId, record.timestamp, JSON.stringify(record)).changes === 0) continue;
+                this.index(record);
+                this.raiseLastMessageId(record.id);
+                added += 1;
+            }
+            this.trim(roomId);
+            return added;
+        })();
+    }
+
+    async getReadMarkers(roomId: RoomId): Promise<Record<string, number>> {
+        const rows = this.conn.prepare("SELECT user_id, message_id FROM read_markers WHERE room_id = ?").all(roomId) as {
+            user_id: string;
+            message_id: number;
+        }[];
+        return Object.fromEntries(rows.map((row) => [row.user_id, row.message_id]));
+    }
+
+    async setReadMarker(roomId: RoomId, userId: string, id: number): Promise<void> {
+        this.conn
+            .prepare(`
+                INSERT INTO read_markers (room_id, user_id, message_id) VALUES (?, ?, ?)
+                ON CONFLICT (room_id, user_id) DO UPDATE SET message_id = MAX(message_id, excluded.message_id)
+            `)
+            .run(roomId, userId, id);
+    }
+
+    async countUnread(roomId: RoomId, userId: string, after: number): Promise<number> {
+        const row = this.conn
+            .prepare(`
+                SELECT COUNT(*) AS count FROM messages
+                WHERE room_id = ? AND id > ? AND json_extract(data, '$.userId') != ? AND json_extract(data, '$.deleted') IS NOT 1
+            `)
+            .get(roomId, after, userId) as { count: number };
+        return row.count;
+    }
+
+    // Replaces the message's search entry; deleted messages keep an empty one
+    private index(record: ChatRecord): void {
+        this.conn.prepare("DELETE FROM message_search WHERE rowid = ?").run(record.id);
+        this.conn.prepare("INSERT INTO message_search (rowid, message) VALUES (?, ?)").run(record.id, record.message);
+    }
+
+    async listRooms(): Promise<RoomRecord[]> {
+        const rows = this.conn.prepare("SELECT data FROM rooms").all() as { data: string }[];
+        return rows.map((row) => JSON.parse(row.data) as RoomRecord);
+    }
+
+    async saveRoom(room: RoomRecord): Promise<void> {
+        this.conn.prepare("INSERT OR REPLACE INTO rooms (room_id, data) VALUES (?, ?)").run(room.roomId, JSON.stringify(room));
+    }
+
+    async getIdentity(userId: string): Promise<IdentityRecord | undefined> {
+        const row = this.conn.prepare("SELECT data FROM identities WHERE user_id = ?").get(userId) as { data: string } | undefined;
+        return row ? (JSON.parse(row.data) as IdentityRecord) : undefined;
+    }
+
+    async saveIdentity(identity: IdentityRecord): Promise<void> {
+        this.conn.prepare("INSERT OR REPLACE INTO identities (user_id, data) VALUES (?, ?)").run(identity.userId, JSON.stringify(identity));
+    }
+
+    async getAccount(username: string): Promise<AccountRecord | undefined> {
+        const row = this.conn.prepare("SELECT data FROM accounts WHERE username = ?").get(username) as { data: string } | undefined;
+        return row ? (JSON.parse(row.data) as AccountRecord) : undefined;
+    }
+
+    async createAccount(account: AccountRecord): Promise<boolean> {
+        const result = this.conn
+            .prepare("INSERT OR IGNORE INTO accounts (username, data) VALUES (?, ?)")
+            .run(account.username, JSON.stringify(account));
+        return result.changes > 0;
+    }
+}
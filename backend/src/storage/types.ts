@@ -0,0 +1,174 @@
+import { ChatAttachment, ChatMention, ChatQuote, RoomAccessMode } from "../protocol";
+
+export type RoomId = string;
+
+export interface ChatRecord {
+    id: number;
+    message: string;
+    sender: string;
+    userId: string;
+    roomId: RoomId;
+    timestamp: number;
+    // The author was signed in through an auth provider
+    verified?: boolean;
+    // Posted with /me; shown as "* sender message"
+    action?: boolean;
+    // A webhook's reply to a slash command
+    bot?: boolean;
+    // Set when the author last edited the message
+    editedAt?: number;
+    // Deleted messages keep their id but lose their text and reactions
+    deleted?: boolean;
+    // emoji -> userIds that reacted with it
+    reactions?: Record<string, string[]>;
+    // Blobs live in the BlobStore; records only reference them
+    attachments?: ChatAttachment[];
+    // Room members named with "@name", resolved when posted or edited
+    mentions?: ChatMention[];
+    // Replies point at the thread's first message and quote it as it was
+    replyTo?: number;
+    quote?: ChatQuote;
+    // Kept on the first message of a thread
+    replyCount?: number;
+    lastReplyAt?: number;
+    // Set on messages restored from a transcript: the id they had in it
+    importedId?: number;
+}
+
+export interface RoomSettings {
+    // When enabled, members may page back through the room's stored history
+    historyReplay: boolean;
+    // Minimum milliseconds between one member's messages; missing or 0 is off
+    slowModeMs?: number;
+    // Set with /topic
+    topic?: string;
+}
+
+// Outgoing webhook. One with commands answers those slash commands; one
+// without receives every new message in the room.
+export interface RoomWebhook {
+    id: string;
+    url: string;
+    // Signs every delivery; only shown to whoever added the webhook
+    secret: string;
+    commands: string[];
+    createdBy: string;
+    createdAt: number;
+}
+
+// A ban by userId also matches the name the user had; a ban by name alone
+// covers someone who wasn't around to look up. At least one is set.
+export interface RoomBan {
+    userId?: string;
+    name?: string;
+    bannedBy: string;
+    bannedAt: number;
+}
+
+export interface RoomAccess {
+    mode: RoomAccessMode;
+    // scrypt hash and salt (hex), set for mode "password"
+    passwordHash?: string;
+    passwordSalt?: string;
+    // Invites carry the version they were issued under; bumping it revokes them all
+    inviteVersion: number;
+}
+
+export interface RoomRecord {
+    roomId: RoomId;
+    settings: RoomSettings;
+    createdAt: number;
+    // The first user to join; rooms created before owners existed have none
+    ownerUserId?: string;
+    moderatorUserIds?: string[];
+    // Missing means open
+    access?: RoomAccess;
+    // Users let in by password or invite keep access without them
+    admittedUserIds?: string[];
+    bans?: RoomBan[];
+    // userId -> when their mute ends
+    mutedUntil?: Record<string, number>;
+    webhooks?: RoomWebhook[];
+}
+
+export interface IdentityRecord {
+    userId: string;
+    name: string;
+    createdAt: number;
+    lastSeenAt: number;
+}
+
+// Local username/password account; `username` is the lowercased key and
+// `name` the spelling used at registration
+export interface AccountRecord {
+    username: string;
+    name: string;
+    passwordHash: string;
+    passwordSalt: string;
+    createdAt: number;
+}
+
+export interface MessagePage {
+    messages: ChatRecord[];
+    hasMore: boolean;
+}
+
+export interface MessageSearch {
+    roomIds: RoomId[];
+    // Lowercased words from search.ts; each must start a word of the message
+    terms: string[];
+    // Author's name, compared case-insensitively
+    sender?: string;
+    // Timestamp range, since inclusive and until exclusive
+    since?: number;
+    until?: number;
+    // Id cursor; results are newest first
+    before?: number;
+    limit: number;
+}
+
+// Durable state behind the server. Live connection state (sockets, room
+// membership) stays in memory; everything that should survive a restart goes
+// through a ChatStore.
+export interface ChatStore {
+    init(): Promise<void>;
+    close(): Promise<void>;
+
+    // Messages are kept in id order and trimmed to the store's per-room cap
+    appendMessage(record: ChatRecord): Promise<void>;
+    getMessages(roomId: RoomId, before: number | undefined, limit: number): Promise<MessagePage>;
+    // The same paging, over the replies to one message
+    getReplies(roomId: RoomId, parentId: number, before: number | undefined, limit: number): Promise<MessagePage>;
+    // Unlike the pages above, search results come newest first
+    searchMessages(search: MessageSearch): Promise<MessagePage>;
+    clearMessages(roomId: RoomId): Promise<void>;
+    // The highest id ever stored, even once that message is cleared, so a
+    // restart never hands an id out twice
+    getLastMessageId(): Promise<number>;
+    // Edits, deletions and reactions rewrite a stored message in place
+    getMessage(roomId: RoomId, id: number): Promise<ChatRecord | undefined>;
+    updateMessage(record: ChatRecord): Promise<void>;
+    // Which of `ids` are stored, in any room
+    findMessageIds(ids: number[]): Promise<number[]>;
+    // Stores imported records, which the caller has given free ids, in one
+    // room; ids already stored anywhere are skipped all the same. Returns how
+    // many were added. The per-room cap still applies afterwards.
+    importMessages(roomId: RoomId, records: ChatRecord[]): Promise<number>;
+
+    // Read markers: the newest message id each user has seen in a room
+    getReadMarkers(roomId: RoomId): Promise<Record<string, number>>;
+    // Only ever moves a marker forward; an older id is ignored
+    setReadMarker(roomId: RoomId, userId: string, id: number): Promise<void>;
+    // Stored messages after `after` from anyone but userId, deleted ones left out
+    countUnread(roomId: RoomId, userId: string, after: number): Promise<number>;
+
+    listRooms(): Promise<RoomRecord[]>;
+    saveRoom(room: RoomRecord): Promise<void>;
+
+    getIdentity(userId: string): Promise<IdentityRecord | undefined>;
+    saveIdentity(identity: IdentityRecord): Promise<void>;
+
+    getAccount(username: string): Promise<AccountRecord | undefined>;
+    // Returns false, without overwriting, when the username is already taken
+    createAccount(account: AccountRecord): Promise<boolean>;
+}
@@ -0,0 +1,50 @@
+import * as crypto from "crypto";
+
+// Compact signed tokens: base64url(JSON payload) + "." + base64url(HMAC-SHA256).
+// Payloads are readable by anyone holding the token, so never put secrets in them.
+
+function toBase64Url(input: Buffer | string): string {
+    return Buffer.from(input).toString("base64url");
+}
+
+function hmac(data: string, secret: string): string {
+    return crypto.createHmac("sha256", secret).update(data).digest("base64url");
+}
+
+export function signToken<T extends object>(payload: T, secret: string): string {
+    const body = toBase64Url(JSON.stringify(payload));
+    return `${body}.${hmac(body, secret)}`;
+}
+
+export function verifyToken<T extends object>(token: string, secret: string): T | null {
+    if (typeof token !== "string") return null;
+    const [body, signature, ...rest] = token.split(".");
+    if (!body || !signature || rest.length > 0) return null;
+    const expected = Buffer.from(hmac(body, secret));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        return null;
+    }
+    try {
+        const parsed = JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+        return parsed && typeof parsed === "object" ? (parsed as T) : null;
+    } catch {
+        return null;
+    }
+}
+
+// A stable id for `value` (such as a client address) that doesn't reveal it
+export function opaqueId(value: string, secret: string): string {
+    return hmac(value, secret).slice(0, 12);
+}
+
+export function randomSecret(): string {
+    return crypto.randomBytes(32).toString("hex");
+}
+
+// Constant-time comparison for shared secrets sent as-is (e.g. METRICS_TOKEN)
+export function secretMatches(given: string, secret: string): boolean {
+    const expected = Buffer.from(secret);
+    const actual = Buffer.from(given);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
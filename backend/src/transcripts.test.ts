@@ -0,0 +1,143 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import { ChatRecord } from "./storage";
+import { Transcript, TRANSCRIPT_VERSION, assignImportIds, parseTranscript, planImport, renderTranscript, tallyReplies } from "./transcripts";
+
+// 2024-03-01 12:00:00 UTC
+const NOON = Date.UTC(2024, 2, 1, 12);
+
+function record(id: number, fields: Partial<ChatRecord> = {}): ChatRecord {
+    return { id, roomId: "ops", message: `message ${id}`, sender: "Alice", userId: "alice", timestamp: NOON + id * 1000, ...fields };
+}
+
+function transcript(messages: ChatRecord[]): Transcript {
+    return { version: TRANSCRIPT_VERSION, roomId: "ops", exportedAt: NOON, messages };
+}
+
+describe("renderTranscript", () => {
+    const messages = [
+        record(1, { message: "deploy *now*\nplease" }),
+        record(2, { sender: "Bob", userId: "bob", replyTo: 1, quote: { sender: "Alice", userId: "alice", message: "deploy\n*now*" }, editedAt: NOON }),
+        record(3, { message: "waves", action: true }),
+        record(4, { message: "", deleted: true }),
+        record(5, { sender: "ci", bot: true, attachments: [{ id: "a".repeat(64), name: "log.txt", size: 3, contentType: "text/plain" }] }),
+    ];
+
+    it("writes plain text with times in UTC", () => {
+        assert.equal(
+            renderTranscript(transcript(messages), "txt"),
+            [
+                "#ops, exported 2024-03-01 12:00:00 UTC (5 messages)",
+                "",
+                "[2024-03-01 12:00:01 UTC] Alice: deploy *now*",
+                "    please",
+                "[2024-03-01 12:00:02 UTC] Bob (replying to Alice): message 2 (edited)",
+                "[2024-03-01 12:00:03 UTC] * Alice waves",
+                "[2024-03-01 12:00:04 UTC] Alice: (message deleted)",
+                "[2024-03-01 12:00:05 UTC] ci [bot]: message 5",
+                "    [attachment: log.txt]",
+                "",
+            ].join("\n"),
+        );
+    });
+
+    it("copies messages into Markdown as written but escapes names and quotes", () => {
+        const markdown = renderTranscript(transcript(messages), "md");
+        assert.ok(markdown.startsWith("# #ops\n\nExported 2024-03-01 12:00:00 UTC · 5 messages\n"));
+        assert.ok(markdown.includes("### Alice · 2024-03-01 12:00:01 UTC\n\ndeploy *now*\nplease\n"));
+        assert.ok(markdown.includes("### Bob · 2024-03-01 12:00:02 UTC · edited\n\n> ↪ **Alice**: deploy \\*now\\*\n"));
+        assert.ok(markdown.includes("_Alice waves_"));
+        assert.ok(markdown.includes("_(message deleted)_"));
+        assert.ok(markdown.includes("### ci · 2024-03-01 12:00:05 UTC · bot\n\nmessage 5\n\n📎 log.txt\n"));
+    });
+
+    it("keeps whole records in JSON", () => {
+        assert.deepEqual(JSON.parse(renderTranscript(transcript(messages), "json")), transcript(messages));
+    });
+});
+
+describe("parseTranscript", () => {
+    const parse = (messages: unknown[], body: Record<string, unknown> = {}) =>
+        parseTranscript({ version: TRANSCRIPT_VERSION, roomId: "elsewhere", exportedAt: NOON, messages, ...body }, "ops", 100);
+
+    it("moves messages into the room, sorted and one per id", () => {
+        const parsed = parse([record(2, { roomId: "elsewhere" }), record(1), record(2, { message: "again" })]);
+        assert.deepEqual(parsed, [record(1), record(2, { message: "again" })]);
+    });
+
+    it("drops marks only this server gives out, reply counts and unknown fields", () => {
+        const parsed = parse([{ ...record(1), verified: true, bot: true, replyCount: 9, lastReplyAt: NOON, importedId: 7, extra: "x" }]);
+        assert.deepEqual(parsed, [record(1)]);
+    });
+
+    it("describes the first problem", () => {
+        assert.equal(parse([], { version: 2 }), `version must be ${TRANSCRIPT_VERSION}`);
+        assert.equal(parse([record(1), { ...record(2), sender: 5 }]), "messages[1].sender must be a string");
+        assert.equal(parse([{ ...record(1), attachments: {} }]), "messages[0].attachments must be an array");
+        assert.equal(parse([record(0)]), "messages[0].id must be a positive integer");
+        assert.equal(parse([record(1, { message: "x".repeat(101) })]), "messages[0].message is over 100 characters");
+        assert.equal(parse([record(1, { replyTo: 1.5 })]), "messages[0].replyTo must be a message id");
+    });
+});
+
+describe("planImport", () => {
+    it("skips messages the room has under the same id, sender and time, however they were edited", () => {
+        const plan = planImport([record(1, { message: "edited" }), record(2)], [record(1)]);
+        assert.deepEqual(plan.records, [record(2)]);
+        assert.deepEqual([...plan.existingIds], [[1, 1]]);
+    });
+
+    it("matches earlier imports by the id they had in their transcript", () => {
+        const plan = planImport([record(1)], [record(50, { timestamp: record(1).timestamp, importedId: 1 })]);
+        assert.deepEqual(plan.records, []);
+        assert.deepEqual([...plan.existingIds], [[1, 50]]);
+    });
+
+    it("imports messages whose id only coincides with one in the room", () => {
+        const plan = planImport([record(1, { userId: "mallory" }), record(2, { timestamp: NOON })], [record(1), record(2)]);
+        assert.equal(plan.records.length, 2);
+        assert.equal(plan.existingIds.size, 0);
+    });
+});
+
+describe("assignImportIds", () => {
+    it("keeps the newest records that fit, under the ids given", () => {
+        const assigned = assignImportIds([record(1), record(2), record(3)], [10, 11], new Map());
+        assert.deepEqual(
+            assigned.map(({ id, importedId, message }) => ({ id, importedId, message })),
+            [
+                { id: 10, importedId: 2, message: "message 2" },
+                { id: 11, importedId: 3, message: "message 3" },
+            ],
+        );
+    });
+
+    it("points replies at their thread's new id or the room's copy of it", () => {
+        const quote = { sender: "Alice", userId: "alice", message: "message 1" };
+        const records = [record(2), record(3, { replyTo: 1, quote }), record(4, { replyTo: 2, quote }), record(5, { replyTo: 9, quote })];
+        const assigned = assignImportIds(records, [20, 21, 22, 23], new Map([[1, 100]]));
+        assert.deepEqual(
+            assigned.map(({ id, replyTo, quote }) => ({ id, replyTo, quote })),
+            [
+                { id: 20, replyTo: undefined, quote: undefined },
+                { id: 21, replyTo: 100, quote },
+                { id: 22, replyTo: 20, quote },
+                // Its thread was in neither, so it stops being a reply
+                { id: 23, replyTo: undefined, quote: undefined },
+            ],
+        );
+    });
+});
+
+describe("tallyReplies", () => {
+    it("counts replies per thread with the newest reply's time", () => {
+        const tallies = tallyReplies([record(1), record(2, { replyTo: 1 }), record(4, { replyTo: 1 }), record(3, { replyTo: 50 })]);
+        assert.deepEqual(
+            [...tallies],
+            [
+                [1, { replyCount: 2, lastReplyAt: record(4).timestamp }],
+                [50, { replyCount: 1, lastReplyAt: record(3).timestamp }],
+            ],
+        );
+    });
+});
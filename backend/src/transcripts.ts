@@ -0,0 +1,205 @@
+import { checkChatPayload } from "./protocol";
+import { ChatRecord, RoomId } from "./storage";
+
+// Room transcripts for /rooms/:roomId/transcript. JSON keeps whole records and
+// is what an import takes back; Markdown and plain text are for reading. Times
+// are written in UTC so a transcript reads the same wherever it's opened.
+
+export const TRANSCRIPT_VERSION = 1;
+
+export const TRANSCRIPT_FORMATS = {
+    json: { contentType: "application/json; charset=utf-8", extension: "json" },
+    md: { contentType: "text/markdown; charset=utf-8", extension: "md" },
+    txt: { contentType: "text/plain; charset=utf-8", extension: "txt" },
+} as const;
+
+export type TranscriptFormat = keyof typeof TRANSCRIPT_FORMATS;
+
+export interface Transcript {
+    version: number;
+    roomId: RoomId;
+    exportedAt: number;
+    messages: ChatRecord[];
+}
+
+// The fields an import keeps; anything else in an uploaded record is dropped.
+// verified and bot are marks only this server gives, so they're dropped too,
+// and reply counts are worked out again from what's imported.
+const RECORD_FIELDS: (keyof ChatRecord)[] = [
+    "id",
+    "message",
+    "sender",
+    "userId",
+    "timestamp",
+    "action",
+    "editedAt",
+    "deleted",
+    "reactions",
+    "attachments",
+    "mentions",
+    "replyTo",
+    "quote",
+];
+
+export function isTranscriptFormat(value: string): value is TranscriptFormat {
+    return Object.prototype.hasOwnProperty.call(TRANSCRIPT_FORMATS, value);
+}
+
+function utcTime(timestamp: number): string {
+    return `${new Date(timestamp).toISOString().slice(0, 19).replace("T", " ")} UTC`;
+}
+
+function plural(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function escapeMarkdown(text: string): string {
+    return text.replace(/[\\`*_[\]#<>|]/g, "\\$&");
+}
+
+// Quotes are shown on one line, however many the original had
+function oneLine(text: string): string {
+    return text.replace(/\s+/g, " ").trim();
+}
+
+function renderMarkdown(transcript: Transcript): string {
+    const lines = [
+        `# #${escapeMarkdown(transcript.roomId)}`,
+        "",
+        `Exported ${utcTime(transcript.exportedAt)} · ${plural(transcript.messages.length, "message")}`,
+    ];
+    for (const record of transcript.messages) {
+        const details = [utcTime(record.timestamp)];
+        if (record.bot) details.push("bot");
+        if (record.editedAt !== undefined && !record.deleted) details.push("edited");
+        lines.push("", `### ${escapeMarkdown(record.sender)} · ${details.join(" · ")}`, "");
+        if (record.quote) {
+            lines.push(`> ↪ **${escapeMarkdown(record.quote.sender)}**: ${escapeMarkdown(oneLine(record.quote.message))}`, "");
+        }
+        if (record.deleted) {
+            lines.push("_(message deleted)_");
+            continue;
+        }
+        // Messages are already Markdown, so they're copied as written
+        if (record.message) lines.push(record.action ? `_${escapeMarkdown(record.sender)} ${record.message}_` : record.message);
+        for (const attachment of record.attachments ?? []) lines.push("", `📎 ${escapeMarkdown(attachment.name)}`);
+    }
+    return `${lines.join("\n")}\n`;
+}
+
+function renderText(transcript: Transcript): string {
+    const lines = [`#${transcript.roomId}, exported ${utcTime(transcript.exportedAt)} (${plural(transcript.messages.length, "message")})`, ""];
+    for (const record of transcript.messages) {
+        let speaker = record.bot ? `${record.sender} [bot]` : record.sender;
+        if (record.quote) speaker += ` (replying to ${record.quote.sender})`;
+        const body = record.deleted
+            ? ["(message deleted)"]
+            : [...(record.message ? record.message.split("\n") : []), ...(record.attachments ?? []).map((attachment) => `[attachment: ${attachment.name}]`)];
+        if (record.editedAt !== undefined && !record.deleted && body.length > 0) body[body.length - 1] += " (edited)";
+        const [first = "", ...rest] = body;
+        const prefix = `[${utcTime(record.timestamp)}]`;
+        lines.push(record.action && !record.deleted ? `${prefix} * ${speaker} ${first}` : `${prefix} ${speaker}: ${first}`);
+        // Continuation lines are indented so each message still starts with its time
+        for (const line of rest) lines.push(`    ${line}`);
+    }
+    return `${lines.join("\n")}\n`;
+}
+
+export function renderTranscript(transcript: Transcript, format: TranscriptFormat): string {
+    switch (format) {
+        case "json":
+            return JSON.stringify(transcript, null, 2);
+        case "md":
+            return renderMarkdown(transcript);
+        case "txt":
+            return renderText(transcript);
+    }
+}
+
+// Checks an uploaded JSON transcript. Returns its messages moved into roomId,
+// one per id and in id order, or a description of the first problem. The ids
+// are the ones from the export; assignImportIds gives each message a new one.
+export function parseTranscript(body: Record<string, unknown>, roomId: RoomId, maxMessageLength: number): ChatRecord[] | string {
+    if (body.version !== TRANSCRIPT_VERSION) return `version must be ${TRANSCRIPT_VERSION}`;
+    if (!Array.isArray(body.messages)) return "messages must be an array";
+    const idToRecord = new Map<number, ChatRecord>();
+    for (let i = 0; i < body.messages.length; i++) {
+        const path = `messages[${i}]`;
+        const value: unknown = body.messages[i];
+        const problem = checkChatPayload(value, path);
+        if (problem) return problem;
+        const fields = value as Record<string, unknown>;
+        const id = fields.id as number;
+        if (!Number.isSafeInteger(id) || id < 1) return `${path}.id must be a positive integer`;
+        if ((fields.message as string).length > maxMessageLength) return `${path}.message is over ${maxMessageLength} characters`;
+        if (fields.replyTo !== undefined && !Number.isSafeInteger(fields.replyTo)) {
+            return `${path}.replyTo must be a message id`;
+        }
+        const record: Record<string, unknown> = { roomId };
+        for (const field of RECORD_FIELDS) {
+            if (fields[field] !== undefined && fields[field] !== null) record[field] = fields[field];
+        }
+        idToRecord.set(id, record as unknown as ChatRecord);
+    }
+    return [...idToRecord.values()].sort((a, b) => a.id - b.id);
+}
+
+export interface ImportPlan {
+    // Messages the room doesn't have yet, in id order, still under their export ids
+    records: ChatRecord[];
+    // Export ids of messages the room already has -> their ids in the room
+    existingIds: Map<number, number>;
+}
+
+// Matches a transcript against the room's stored messages by id. A stored
+// message matches under its own id or, if it was imported, the id it had in
+// its transcript, as long as the sender and time agree too: ids from another
+// server can coincide with unrelated messages here. Edits don't matter.
+export function planImport(records: ChatRecord[], stored: ChatRecord[]): ImportPlan {
+    const storedByExportId = new Map<number, ChatRecord>();
+    for (const record of stored) {
+        storedByExportId.set(record.id, record);
+        if (record.importedId !== undefined) storedByExportId.set(record.importedId, record);
+    }
+    const plan: ImportPlan = { records: [], existingIds: new Map() };
+    for (const record of records) {
+        const match = storedByExportId.get(record.id);
+        if (match && match.userId === record.userId && match.timestamp === record.timestamp) plan.existingIds.set(record.id, match.id);
+        else plan.records.push(record);
+    }
+    return plan;
+}
+
+// Gives the newest records the ids in `ids` (ascending, one per record at
+// most), keeping the export id as importedId. Replies follow their thread to
+// its new id, or to the room's copy of it; ones whose thread is in neither
+// place stop being replies.
+export function assignImportIds(records: ChatRecord[], ids: number[], existingIds: Map<number, number>): ChatRecord[] {
+    const kept = records.slice(records.length - Math.min(ids.length, records.length));
+    const roomIds = new Map(existingIds);
+    kept.forEach((record, i) => roomIds.set(record.id, ids[i]));
+    return kept.map(({ id: exportId, replyTo, quote, ...fields }, i) => {
+        const threadId = replyTo === undefined ? undefined : roomIds.get(replyTo);
+        return {
+            id: ids[i],
+            ...fields,
+            ...(threadId !== undefined ? { replyTo: threadId, ...(quote ? { quote } : {}) } : {}),
+            importedId: exportId,
+        };
+    });
+}
+
+// Reply counts for the threads `records` reply to, by thread id: how many
+// replies each gains and when the newest was sent
+export function tallyReplies(records: ChatRecord[]): Map<number, { replyCount: number; lastReplyAt: number }> {
+    const threadIdToTally = new Map<number, { replyCount: number; lastReplyAt: number }>();
+    for (const { replyTo, timestamp } of records) {
+        if (replyTo === undefined) continue;
+        const tally = threadIdToTally.get(replyTo);
+        threadIdToTally.set(replyTo, {
+            replyCount: (tally?.replyCount ?? 0) + 1,
+            lastReplyAt: Math.max(tally?.lastReplyAt ?? 0, timestamp),
+        });
+    }
+    return threadIdToTally;
+}
@@ -0,0 +1,93 @@
+import * as crypto from "crypto";
+import { OutboundHttp, OutboundResponse } from "./outbound";
+import { ChatRecord, RoomId, RoomWebhook } from "./storage";
+
+// Outgoing webhooks: JSON POSTs signed with the webhook's secret. Receivers
+// check X-Webhook-Signature, which is "sha256=" + hex HMAC-SHA256 of
+// `${X-Webhook-Timestamp}.${body}`. Deliveries go through OutboundHttp, since
+// replies are posted back into the room.
+
+export type WebhookEvent =
+    | { type: "message"; roomId: RoomId; message: ChatRecord }
+    | { type: "command"; roomId: RoomId; command: string; args: string; userId: string; name: string }
+    | { type: "ping"; roomId: RoomId };
+
+// What a receiver may answer with; text is posted to the room
+export interface WebhookReply {
+    text?: string;
+    name?: string;
+}
+
+// Replies past this are cut off; a receiver only needs room for a chat message
+const MAX_REPLY_BYTES = 64 * 1024;
+
+export function signWebhookBody(secret: string, timestamp: string, body: string): string {
+    return `sha256=${crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function parseReply(text: string): WebhookReply {
+    try {
+        const parsed: unknown = JSON.parse(text);
+        if (typeof parsed !== "object" || parsed === null) return {};
+        const { text: replyText, name } = parsed as Record<string, unknown>;
+        return {
+            text: typeof replyText === "string" ? replyText : undefined,
+            name: typeof name === "string" ? name : undefined,
+        };
+    } catch {
+        // Receivers that answer with plain text (or nothing) have nothing to say
+        return {};
+    }
+}
+
+export class WebhookDispatcher {
+    constructor(
+        private readonly maxAttempts: number,
+        private readonly timeoutMs: number,
+        private readonly outbound = new OutboundHttp(),
+        private readonly backoffMs = 1000,
+    ) {}
+
+    // Resolves with the receiver's reply. Network errors, timeouts, 429 and
+    // 5xx are retried with exponential backoff; other statuses fail at once.
+    // Every attempt carries the same X-Webhook-Delivery id for de-duplication.
+    async deliver(webhook: RoomWebhook, event: WebhookEvent): Promise<WebhookReply> {
+        const body = JSON.stringify({ ...event, webhookId: webhook.id, sentAt: Date.now() });
+        const deliveryId = crypto.randomUUID();
+        let lastError = new Error(`Could not deliver to ${webhook.url}`);
+        for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+            if (attempt > 1) await delay(this.backoffMs * 2 ** (attempt - 2));
+            try {
+                const response = await this.post(webhook, body, deliveryId);
+                if (response.status >= 200 && response.status < 300) return parseReply(response.body.toString("utf8"));
+                lastError = new Error(`${webhook.url} answered ${response.status}`);
+                if (response.status !== 429 && response.status < 500) break;
+            } catch (err) {
+                lastError = err instanceof Error ? err : new Error(String(err));
+            }
+        }
+        throw lastError;
+    }
+
+    private post(webhook: RoomWebhook, body: string, deliveryId: string): Promise<OutboundResponse> {
+        const timestamp = String(Date.now());
+        return this.outbound.request(new URL(webhook.url), {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                "User-Agent": "den-den-mushi-webhooks",
+                "X-Webhook-Id": webhook.id,
+                "X-Webhook-Delivery": deliveryId,
+                "X-Webhook-Timestamp": timestamp,
+                "X-Webhook-Signature": signWebhookBody(webhook.secret, timestamp, body),
+            },
+            body,
+            timeoutMs: this.timeoutMs,
+            maxBytes: MAX_REPLY_BYTES,
+        });
+    }
+}
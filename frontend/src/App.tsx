@@ -1,5 +1,24 @@
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useLayoutEffect, useMemo, useState, useRef, type KeyboardEvent, type MouseEvent, type ReactNode } from 'react';
 import './App.css';
+import { RichText } from './markdown';
+import { LinkPreview } from './previews';
+import {
+  PROTOCOL_VERSION,
+  REACTION_EMOJI,
+  decodeServerMessage,
+  encodeClientMessage,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  ROOM_ID_MAX_LENGTH,
+  type ChatAttachment,
+  type ChatMention,
+  type ChatQuote,
+  type ChatPayload,
+  type MemberStatus,
+  type MessagePatch,
+  type ModerationAction,
+  type RoomAccessMode,
+  type RoomMember,
+} from '../../backend/src/protocol';
 
 function hashString(str: string): number {
   let hash = 0;
@@ -10,205 +29,1567 @@ function hashString(str: string): number {
   return Math.abs(hash);
 }
 
+type ChatItem =
+  | {
+      kind: 'chat';
+      id?: number;
+      message: string;
+      sender: string;
+      timestamp: number;
+      roomId: string;
+      userId: string;
+      verified?: boolean;
+      action?: boolean;
+      bot?: boolean;
+      editedAt?: number;
+      deleted?: boolean;
+      reactions?: Record<string, string[]>;
+      attachments?: ChatAttachment[];
+      mentions?: ChatMention[];
+      // Replies point at their thread's first message; that message counts them
+      replyTo?: number;
+      quote?: ChatQuote;
+      replyCount?: number;
+      lastReplyAt?: number;
+      // Restored from a transcript: the id it had there
+      importedId?: number;
+      // Our own messages before the server acknowledges them; delivered ones have an id
+      clientId?: string;
+      delivery?: 'pending' | 'failed';
+      // From the ack: how many other members were connected when it was sent
+      recipients?: number;
+    }
+  | { kind: 'system'; message: string; timestamp: number; roomId: string }
+  | { kind: 'raw'; raw: string };
+
+type DmThread = { userId: string; name: string; items: ChatItem[]; unread: number };
+
+// A room message waiting for its chat_ack
+type OutboundChat = { clientId: string; roomId: string; message: string; attachments?: ChatAttachment[]; replyTo?: number };
+
+// The thread open in the side panel: replies fetched from the server, which
+// are shown together with the ones held in the room view
+type ThreadView = { roomId: string; id: number; replies: ChatItem[]; hasMore: boolean };
+
+type RoomInfo = {
+  memberCount: number;
+  historyReplay: boolean;
+  hasMoreHistory: boolean;
+  unread: number;
+  // Unread messages that mention us
+  mentions: number;
+  members: RoomMember[];
+  access: RoomAccessMode;
+  ownerUserId?: string;
+  moderatorUserIds: string[];
+  slowModeMs: number;
+  mutedUntil: Record<string, number>;
+  topic?: string;
+  // userId -> the newest message id they've seen here
+  readMarkers: Record<string, number>;
+};
+
+// roomId -> userId -> who is typing and until when we keep showing it
+type TypingState = Record<string, Record<string, { name: string; until: number }>>;
+
+type ConnectionState = 'connecting' | 'open' | 'reconnecting';
+
+// The search box's fields; dates are the yyyy-mm-dd of date inputs
+type SearchForm = { query: string; roomId: string; sender: string; since: string; until: string };
+type SearchResults = { query: string; items: ChatItem[]; hasMore: boolean; loading: boolean };
+
+const DEFAULT_ROOM = 'broadcast';
+const HISTORY_PAGE_SIZE = 30;
+const THREAD_PAGE_SIZE = 50;
+const DM_STORAGE_KEY = 'dm:threads';
+const JOINED_ROOMS_KEY = 'rooms:joined';
+const EMPTY_ROOM_INFO: RoomInfo = {
+  memberCount: 0,
+  historyReplay: false,
+  hasMoreHistory: false,
+  unread: 0,
+  mentions: 0,
+  members: [],
+  access: 'open',
+  moderatorUserIds: [],
+  slowModeMs: 0,
+  mutedUntil: {},
+  readMarkers: {},
+};
+// Typing starts are repeated while typing continues; indicators expire without them
+const TYPING_REPEAT_MS = 3000;
+const TYPING_TTL_MS = 6000;
+const IDLE_AFTER_MS = 2 * 60 * 1000;
+const SLOW_MODE_CHOICES = [0, 10_000, 30_000, 60_000, 5 * 60_000];
+const MUTE_CHOICES = [5 * 60_000, 60 * 60_000, 24 * 60 * 60_000];
+// Reconnect waits double from RECONNECT_BASE_MS up to RECONNECT_MAX_MS
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+const COMPOSER_MAX_ROWS = 8;
+const SEARCH_PAGE_SIZE = 20;
+// How long a message found by search stays highlighted
+const HIGHLIGHT_MS = 3000;
+const TRANSCRIPT_CHOICES = [
+  ['json', 'JSON'],
+  ['md', 'Markdown'],
+  ['txt', 'Plain text'],
+] as const;
+
+function shortDuration(ms: number): string {
+  if (ms >= 24 * 60 * 60_000) return `${Math.round(ms / (24 * 60 * 60_000))}d`;
+  if (ms >= 60 * 60_000) return `${Math.round(ms / (60 * 60_000))}h`;
+  if (ms >= 60_000) return `${Math.round(ms / 60_000)}m`;
+  return `${Math.round(ms / 1000)}s`;
+}
+
+// Local midnight at the start of a date input's day, offsetDays later
+function dayStart(date: string, offsetDays = 0): number | undefined {
+  if (!date) return undefined;
+  const day = new Date(`${date}T00:00`);
+  day.setDate(day.getDate() + offsetDays);
+  return day.getTime();
+}
+
+// Marks the words of text that start with one of the query's words, as the server matched them
+function highlightMatches(text: string, query: string): ReactNode[] {
+  const terms = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return text.split(/([\p{L}\p{N}]+)/u).map((part, index) =>
+    index % 2 === 1 && terms.some((term) => part.toLowerCase().startsWith(term)) ? (
+      <mark key={index} className="rounded bg-amber-400/30 text-inherit">{part}</mark>
+    ) : (
+      part
+    ),
+  );
+}
+
+function timeOfDay(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+}
+
+function linkedRoom(): string | undefined {
+  return new URL(window.location.href).searchParams.get('room')?.trim() || undefined;
+}
+
+// Signed invite that admits us to the linked room; only needed on the first join
+function takeLinkedInvite(): string | undefined {
+  const url = new URL(window.location.href);
+  const invite = url.searchParams.get('invite')?.trim() || undefined;
+  if (invite) {
+    url.searchParams.delete('invite');
+    window.history.replaceState(null, '', url.toString());
+  }
+  return invite;
+}
+
+// Sign-in token handed over by an identity provider as #token=...; kept for later visits
+function takeLinkedAuthToken(): string | undefined {
+  const hash = new URLSearchParams(window.location.hash.slice(1));
+  const token = hash.get('token')?.trim() || undefined;
+  if (token) {
+    hash.delete('token');
+    const rest = hash.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}${rest ? `#${rest}` : ''}`);
+  }
+  return token;
+}
+
+type SignInMode = 'guest' | 'local' | 'token';
+
+// Ways to sign in the server offers, guest first
+function signInModes(providers: string[], guestsAllowed: boolean): SignInMode[] {
+  const modes: SignInMode[] = [];
+  if (guestsAllowed) modes.push('guest');
+  if (providers.includes('local')) modes.push('local');
+  if (providers.includes('jwt')) modes.push('token');
+  return modes;
+}
+
+const SIGN_IN_LABELS: Record<SignInMode, string> = { guest: 'Guest', local: 'Account', token: 'Token' };
+
+// Rooms open on the last visit plus the one from an invite link
+function loadJoinedRooms(): string[] {
+  let saved: unknown = [];
+  try {
+    saved = JSON.parse(localStorage.getItem(JOINED_ROOMS_KEY) || '[]');
+  } catch {
+    // ignore
+  }
+  const rooms = Array.isArray(saved) ? saved.filter((room): room is string => typeof room === 'string' && room.length > 0) : [];
+  const linked = linkedRoom();
+  if (linked && !rooms.includes(linked)) rooms.push(linked);
+  return rooms.length > 0 ? rooms : [DEFAULT_ROOM];
+}
+
+function roomStorageKey(roomId: string): string {
+  return `room:${roomId}:messages`;
+}
+
+// Persist only your own view per-room; not shared across users
+function loadRoomItems(roomId: string): ChatItem[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(roomStorageKey(roomId)) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+function appendRoomItem(all: Record<string, ChatItem[]>, roomId: string, item: ChatItem): Record<string, ChatItem[]> {
+  return { ...all, [roomId]: [...(all[roomId] ?? loadRoomItems(roomId)), item] };
+}
+
+// The server's copy of a message we already hold, keeping what only our ack told us
+function withReceipt(fresh: ChatItem, held: ChatItem): ChatItem {
+  return fresh.kind === 'chat' && held.kind === 'chat' && held.recipients !== undefined ? { ...fresh, recipients: held.recipients } : fresh;
+}
+
+// A chat event replaces the copy we already hold (our own message, confirmed by its ack)
+function upsertChatItem(items: ChatItem[], item: ChatItem): ChatItem[] {
+  if (item.kind === 'chat' && item.id !== undefined) {
+    const index = items.findIndex((existing) => existing.kind === 'chat' && existing.id === item.id);
+    if (index >= 0) return items.map((existing, i) => (i === index ? withReceipt(item, existing) : existing));
+  }
+  return [...items, item];
+}
+
+// Messages still pending in any stored room view, oldest first per room
+function loadOutbox(): OutboundChat[] {
+  const outbox: OutboundChat[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const match = /^room:(.+):messages$/.exec(localStorage.key(i) ?? '');
+    if (!match) continue;
+    for (const item of loadRoomItems(match[1])) {
+      if (item.kind === 'chat' && item.delivery === 'pending' && item.clientId) {
+        outbox.push({ clientId: item.clientId, roomId: item.roomId, message: item.message, attachments: item.attachments, replyTo: item.replyTo });
+      }
+    }
+  }
+  return outbox;
+}
+
+function newClientId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// An ack with an id turns the pending copy into the stored message, stamped
+// with the server's time; one without (a slash command) just drops it
+function confirmChat(items: ChatItem[], clientId: string, id?: number, timestamp?: number, recipients?: number): ChatItem[] {
+  if (id === undefined || items.some((item) => item.kind === 'chat' && item.id === id)) {
+    return items.filter((item) => item.kind !== 'chat' || item.clientId !== clientId);
+  }
+  return items.map((item) =>
+    item.kind === 'chat' && item.clientId === clientId ? { ...item, id, timestamp: timestamp ?? item.timestamp, recipients, delivery: undefined } : item,
+  );
+}
+
+function setDelivery(items: ChatItem[], clientId: string, delivery: 'pending' | 'failed'): ChatItem[] {
+  return items.map((item) => (item.kind === 'chat' && item.clientId === clientId ? { ...item, delivery } : item));
+}
+
+// Sends a room's queued messages that haven't gone out on this connection yet
+function sendQueued(ws: WebSocket | null, outbox: OutboundChat[], sent: Set<string>, roomId: string): void {
+  if (ws?.readyState !== WebSocket.OPEN) return;
+  for (const { clientId, message, attachments, replyTo } of outbox.filter((entry) => entry.roomId === roomId && !sent.has(entry.clientId))) {
+    sent.add(clientId);
+    const refs = attachments?.map(({ id, name }) => ({ id, name }));
+    ws.send(encodeClientMessage({ type: 'chat', payload: { roomId, message, clientId, attachments: refs, replyTo } }));
+  }
+}
+
+function resolveWsUrl(): string {
+  const envUrl = import.meta.env?.VITE_WS_URL as string | undefined;
+  if (envUrl && envUrl.trim().length > 0) return envUrl.trim();
+  // Fallbacks: dev -> localhost:8080, prod -> same host with ws/wss
+  if (window.location.port === '5173') return 'ws://localhost:8080';
+  const isHttps = window.location.protocol === 'https:';
+  return `${isHttps ? 'wss' : 'ws'}://${window.location.host}`;
+}
+
+// The HTTP API is served next to the WebSocket endpoint
+function apiUrl(path: string): URL {
+  const url = new URL(resolveWsUrl());
+  url.protocol = url.protocol === 'wss:' ? 'https:' : 'http:';
+  url.pathname = path;
+  return url;
+}
+
+// name becomes the file name when the attachment is downloaded
+function attachmentUrl(id: string, name?: string): string {
+  const url = apiUrl(`/attachments/${id}`);
+  if (name) url.searchParams.set('name', name);
+  return url.toString();
+}
+
+function previewEndpoint(): string {
+  return apiUrl('/previews').toString();
+}
+
+// Mirrors the server's check; types may end in "/*"
+function acceptsType(type: string, allowed: string[]): boolean {
+  return allowed.some((entry) => entry === type || (entry.endsWith('/*') && type.startsWith(entry.slice(0, -1))));
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Exponential backoff with jitter: between half and all of the attempt's cap
+function reconnectDelay(attempt: number): number {
+  const cap = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+  return Math.floor(cap / 2 + Math.random() * (cap / 2));
+}
+
+function patchRoomInfo(all: Record<string, RoomInfo>, roomId: string, patch: Partial<RoomInfo>): Record<string, RoomInfo> {
+  return { ...all, [roomId]: { ...(all[roomId] ?? EMPTY_ROOM_INFO), ...patch } };
+}
+
+function setTyping(all: TypingState, roomId: string, userId: string, entry: { name: string; until: number } | null): TypingState {
+  const room = { ...all[roomId] };
+  if (entry) {
+    room[userId] = entry;
+  } else {
+    if (!room[userId]) return all;
+    delete room[userId];
+  }
+  return { ...all, [roomId]: room };
+}
+
+function pruneTyping(all: TypingState, now: number): TypingState {
+  const next: TypingState = {};
+  for (const [roomId, users] of Object.entries(all)) {
+    next[roomId] = Object.fromEntries(Object.entries(users).filter(([, entry]) => entry.until > now));
+  }
+  return next;
+}
+
+function typingText(names: string[]): string {
+  if (names.length === 0) return '';
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return 'Several people are typing…';
+}
+
+function withoutRoom<T>(all: Record<string, T>, roomId: string): Record<string, T> {
+  const next = { ...all };
+  delete next[roomId];
+  return next;
+}
+
+function loadDmThreads(): Record<string, DmThread> {
+  try {
+    const saved = JSON.parse(localStorage.getItem(DM_STORAGE_KEY) || '{}');
+    return saved && typeof saved === 'object' ? saved : {};
+  } catch {
+    return {};
+  }
+}
+
+function lastActivity(thread: DmThread): number {
+  const last = thread.items[thread.items.length - 1];
+  return last && last.kind !== 'raw' ? last.timestamp : 0;
+}
+
+// Enter sends and Shift+Enter starts a new line; keys confirming an IME composition do neither
+function isSubmitKey(event: KeyboardEvent): boolean {
+  return event.key === 'Enter' && !event.shiftKey && !event.nativeEvent.isComposing;
+}
+
+// Textareas grow with their content up to a few lines, then scroll
+function composerRows(text: string): number {
+  return Math.min(COMPOSER_MAX_ROWS, text.split('\n').length);
+}
+
+function isMentioned(item: ChatItem, userId: string): boolean {
+  return item.kind === 'chat' && !!item.mentions?.some((mention) => mention.userId === userId);
+}
+
+function toChatItem(payload: ChatPayload): ChatItem {
+  const { id, message, sender, timestamp, roomId, userId, verified, action, bot, editedAt, deleted, reactions, attachments, mentions } = payload;
+  const { replyTo, quote, replyCount, lastReplyAt, importedId } = payload;
+  return {
+    kind: 'chat',
+    id,
+    message,
+    sender,
+    timestamp,
+    roomId,
+    userId,
+    verified,
+    action,
+    bot,
+    editedAt,
+    deleted,
+    reactions,
+    attachments,
+    mentions,
+    replyTo,
+    quote,
+    replyCount,
+    lastReplyAt,
+    importedId,
+  };
+}
+
+// A thread's replies: the fetched pages refreshed by the copies held in the
+// room view, then replies of ours that are still on their way
+function threadReplies(fetched: ChatItem[], roomItems: ChatItem[], parentId: number): ChatItem[] {
+  const local = roomItems.filter((item) => item.kind === 'chat' && item.replyTo === parentId);
+  const pending = local.filter((item) => item.kind === 'chat' && item.id === undefined);
+  return [...mergeHistory(fetched, local), ...pending];
+}
+
+// How a reply quotes its thread's first message: live when we hold it, else as it was when quoted
+function replyQuote(item: ChatItem, byId: Map<number, ChatItem>): ChatQuote | undefined {
+  if (item.kind !== 'chat' || item.replyTo === undefined) return undefined;
+  const parent = byId.get(item.replyTo);
+  if (parent?.kind === 'chat') {
+    return { sender: parent.sender, userId: parent.userId, message: parent.deleted ? 'Message deleted' : parent.message };
+  }
+  return item.quote;
+}
+
+function applyMessagePatch(items: ChatItem[], patch: MessagePatch): ChatItem[] {
+  const { roomId, id, ...changes } = patch;
+  return items.map((item) => (item.kind === 'chat' && item.id === id && item.roomId === roomId ? { ...item, ...changes } : item));
+}
+
+// Merge a page of server history into the local view. Messages we already
+// have (by id) take the server's copy, which carries later edits and
+// reactions; new ones are slotted in by timestamp.
+function mergeHistory(existing: ChatItem[], page: ChatItem[]): ChatItem[] {
+  const pageById = new Map<number, ChatItem>();
+  for (const item of page) {
+    if (item.kind === 'chat' && item.id !== undefined) pageById.set(item.id, item);
+  }
+  const known = new Set<number>();
+  const refreshed = existing.map((item) => {
+    if (item.kind !== 'chat' || item.id === undefined) return item;
+    known.add(item.id);
+    const fresh = pageById.get(item.id);
+    return fresh ? withReceipt(fresh, item) : item;
+  });
+  const fresh = [...pageById.values()].filter((item) => item.kind === 'chat' && !known.has(item.id ?? -1));
+  if (fresh.length === 0) return refreshed;
+  let lastTime = 0;
+  const keyed = [...fresh, ...refreshed].map((item, index) => {
+    const time = item.kind === 'raw' ? lastTime : item.timestamp;
+    lastTime = time;
+    return { item, time, index };
+  });
+  keyed.sort((a, b) => a.time - b.time || a.index - b.index);
+  return keyed.map((entry) => entry.item);
+}
+
+function oldestMessageId(items: ChatItem[]): number | undefined {
+  let oldest: number | undefined;
+  for (const item of items) {
+    if (item.kind === 'chat' && item.id !== undefined && (oldest === undefined || item.id < oldest)) oldest = item.id;
+  }
+  return oldest;
+}
+
+function newestMessageId(items: ChatItem[]): number | undefined {
+  let newest: number | undefined;
+  for (const item of items) {
+    if (item.kind === 'chat' && item.id !== undefined && (newest === undefined || item.id > newest)) newest = item.id;
+  }
+  return newest;
+}
+
+// Sent, delivered to someone connected, or read by others, for our own messages
+function receiptFor(item: ChatItem, myUserId: string, readMarkers: Record<string, number>): { seenBy: string[]; delivered: boolean } | undefined {
+  if (item.kind !== 'chat' || item.id === undefined || item.userId !== myUserId) return undefined;
+  const id = item.id;
+  const seenBy = Object.entries(readMarkers).flatMap(([userId, readUpTo]) => (userId !== myUserId && readUpTo >= id ? [userId] : []));
+  return { seenBy, delivered: seenBy.length > 0 || (item.recipients ?? 0) > 0 };
+}
+
 function App() {
-  type ChatItem =
-    | { kind: 'chat'; message: string; sender: string; timestamp: number; roomId: string; userId: string }
-    | { kind: 'system'; message: string; timestamp: number; roomId: string }
-    | { kind: 'raw'; raw: string };
-  const [messages, setMessages] = useState<ChatItem[]>([]);
+  const [joinedRooms, setJoinedRooms] = useState<string[]>(loadJoinedRooms);
+  const joinedRoomsRef = useRef<string[]>(joinedRooms);
+  const [roomMessages, setRoomMessages] = useState<Record<string, ChatItem[]>>(
+    () => Object.fromEntries(joinedRooms.map((roomId) => [roomId, loadRoomItems(roomId)])),
+  );
+  const [roomInfo, setRoomInfo] = useState<Record<string, RoomInfo>>({});
+  const [typingByRoom, setTypingByRoom] = useState<TypingState>({});
+  // The room we last told we're typing in, and when
+  const typingSentRef = useRef<{ roomId: string; at: number } | null>(null);
   const [input, setInput] = useState('');
   const [roomInput, setRoomInput] = useState('');
-  const [currentRoom, setCurrentRoom] = useState('broadcast');
+  const [roomError, setRoomError] = useState<string>('');
+  const [editing, setEditing] = useState<{ id: number; text: string } | null>(null);
+  const [replyingTo, setReplyingTo] = useState<{ id: number; quote: ChatQuote } | null>(null);
+  const [threadView, setThreadView] = useState<ThreadView | null>(null);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [searchForm, setSearchForm] = useState<SearchForm>({ query: '', roomId: '', sender: '', since: '', until: '' });
+  const [searchResults, setSearchResults] = useState<SearchResults | null>(null);
+  const [searchError, setSearchError] = useState('');
+  // Answers to any other query are dropped
+  const searchQueryRef = useRef<string>('');
+  const [highlight, setHighlight] = useState<{ roomId: string; id: number } | null>(null);
+  const highlightShownRef = useRef<{ roomId: string; id: number } | null>(null);
+  const [currentRoom, setCurrentRoom] = useState(() => linkedRoom() ?? joinedRooms[0]);
   const wsRef = useRef<WebSocket | null>(null);
-  const [isConnected, setIsConnected] = useState(false);
+  // Room messages not acknowledged yet, oldest first; they survive reloads in the room views
+  const outboxRef = useRef<OutboundChat[]>([]);
+  // Queued clientIds sent, and rooms joined, on the current connection
+  const sentClientIdsRef = useRef<Set<string>>(new Set());
+  const readyRoomsRef = useRef<Set<string>>(new Set());
+  // roomId -> the newest message id the server knows we've read
+  const readSentRef = useRef<Record<string, number>>({});
+  const [connection, setConnection] = useState<ConnectionState>('connecting');
   const endRef = useRef<HTMLDivElement | null>(null);
   const [copied, setCopied] = useState(false);
+  const [inviteLink, setInviteLink] = useState<{ roomId: string; url: string; expiresAt: number } | null>(null);
+  const [passwordPrompt, setPasswordPrompt] = useState<{ roomId: string; message: string } | null>(null);
+  const [passwordInput, setPasswordInput] = useState('');
+  const [accessDraft, setAccessDraft] = useState<{ mode: RoomAccessMode; password: string } | null>(null);
+  // Right-click menu on a member or sender name
+  const [memberMenu, setMemberMenu] = useState<{ userId: string; name: string; x: number; y: number } | null>(null);
   const [myName, setMyName] = useState<string>('');
   const [myUserId, setMyUserId] = useState<string>('');
-  const [serverSessionId, setServerSessionId] = useState<string>('');
   const [needsIdentity, setNeedsIdentity] = useState<boolean>(true);
   const [nameInput, setNameInput] = useState<string>('');
   const [nameError, setNameError] = useState<string>('');
+  const [isRenaming, setIsRenaming] = useState<boolean>(false);
+  const [myVerified, setMyVerified] = useState<boolean>(false);
+  const [authOptions, setAuthOptions] = useState<{ providers: string[]; guestsAllowed: boolean }>({ providers: [], guestsAllowed: true });
+  const [signInMode, setSignInMode] = useState<SignInMode>('guest');
+  const [usernameInput, setUsernameInput] = useState<string>('');
+  const [accountPassword, setAccountPassword] = useState<string>('');
+  const [tokenInput, setTokenInput] = useState<string>('');
   const storedNameRef = useRef<string | null>(null);
-  const storedSessionRef = useRef<string | null>(null);
-  const desiredRoomRef = useRef<string>('broadcast');
-  const [memberCount, setMemberCount] = useState<number>(0);
+  const storedResumeTokenRef = useRef<string | null>(null);
+  const storedAuthTokenRef = useRef<string | null>(null);
+  const identifiedRef = useRef<boolean>(false);
+  const [protocolError, setProtocolError] = useState<string>('');
+  const [maxMessageLength, setMaxMessageLength] = useState<number | undefined>(undefined);
+  const [attachmentLimits, setAttachmentLimits] = useState<{ maxBytes: number; types: string[] }>({ maxBytes: 0, types: [] });
+  // Uploaded and waiting for the next room message
+  const [draftAttachments, setDraftAttachments] = useState<ChatAttachment[]>([]);
+  const [uploading, setUploading] = useState<number>(0);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [transcriptBusy, setTranscriptBusy] = useState(false);
+  const composerRef = useRef<HTMLTextAreaElement | null>(null);
+  const currentRoomRef = useRef<string>(currentRoom);
+  // Rooms whose newest history page has been requested on this connection
+  const historyRequestedRef = useRef<Set<string>>(new Set());
+  // Joined optimistically; rolled back if the server refuses
+  const pendingJoinRef = useRef<{ roomId: string; previousRoom: string } | null>(null);
+  const savedRoomItemsRef = useRef<Record<string, ChatItem[]>>({});
+  const loadingHistoryRef = useRef<boolean>(false);
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const scrollRestoreRef = useRef<{ height: number; top: number } | null>(null);
+  const lastItemRef = useRef<ChatItem | undefined>(undefined);
+  const myUserIdRef = useRef<string>('');
+  const [dmThreads, setDmThreads] = useState<Record<string, DmThread>>(loadDmThreads);
+  const [activeDm, setActiveDm] = useState<string | null>(null);
+  const activeDmRef = useRef<string | null>(null);
+  const [showDmList, setShowDmList] = useState<boolean>(false);
+  const [dmError, setDmError] = useState<string>('');
 
   useEffect(() => {
     // Load stored name on first render to avoid showing modal on refresh
     const stored = localStorage.getItem('displayName');
-    const storedSession = localStorage.getItem('serverSessionId');
     storedNameRef.current = stored;
-    storedSessionRef.current = storedSession;
+    storedResumeTokenRef.current = localStorage.getItem('resumeToken');
+    const linkedToken = takeLinkedAuthToken();
+    storedAuthTokenRef.current = linkedToken ?? localStorage.getItem('authToken');
+    if (linkedToken) {
+      try {
+        localStorage.setItem('authToken', linkedToken);
+      } catch (err) {
+        console.debug('localStorage set authToken failed', err);
+      }
+    }
     if (stored) {
       setMyName(stored);
       setNameInput(stored);
-      setNeedsIdentity(false);
     }
+    if (stored || storedAuthTokenRef.current) setNeedsIdentity(false);
+    outboxRef.current = loadOutbox();
 
-    const url = new URL(window.location.href);
-    const initialRoom = url.searchParams.get('room')?.trim() || 'broadcast';
-    desiredRoomRef.current = initialRoom;
-    const resolveWsUrl = (): string => {
-      const envUrl = import.meta.env?.VITE_WS_URL as string | undefined;
-      if (envUrl && envUrl.trim().length > 0) return envUrl.trim();
-      // Fallbacks: dev -> localhost:8080, prod -> same host with ws/wss
-      if (window.location.port === '5173') return 'ws://localhost:8080';
-      const isHttps = window.location.protocol === 'https:';
-      return `${isHttps ? 'wss' : 'ws'}://${window.location.host}`;
-    };
-    const ws = new WebSocket(resolveWsUrl());
-    wsRef.current = ws;
+    // Set by server_shutdown: how long to wait before reconnecting
+    let restartAfterMs: number | null = null;
+    // Failed connection attempts since the last one that opened
+    let attempt = 0;
+    let reconnectTimer: number | undefined;
+    let disposed = false;
 
-    ws.onopen = () => {
+    const onOpen = () => {
       console.log('Connected to server');
-      setIsConnected(true);
+      attempt = 0;
+      setConnection('open');
       // Do not auto-identify yet; wait for server_info to check session
     };
 
-    ws.onmessage = (event: MessageEvent) => {
-      try {
-        const parsed = JSON.parse(String(event.data));
-        if (parsed?.type === 'server_info' && parsed?.payload?.sessionId) {
-          const currentSession = String(parsed.payload.sessionId);
-          setServerSessionId(currentSession);
-          if (storedSessionRef.current !== currentSession) {
-            // Session changed (server restarted), clear stored name and prompt
-            storedNameRef.current = null;
-            storedSessionRef.current = currentSession;
-            try { localStorage.removeItem('displayName'); } catch {}
-            try { localStorage.setItem('serverSessionId', currentSession); } catch {}
-            setNeedsIdentity(true);
+    // Forget a room the server refused or removed us from
+    const dropRoom = (roomId: string) => {
+      const pending = pendingJoinRef.current?.roomId === roomId ? pendingJoinRef.current : null;
+      if (pending) pendingJoinRef.current = null;
+      let rooms = joinedRoomsRef.current.filter((joined) => joined !== roomId);
+      if (rooms.length === 0) {
+        rooms = [DEFAULT_ROOM];
+        wsRef.current?.send(encodeClientMessage({ type: 'join', payload: { roomId: DEFAULT_ROOM } }));
+      }
+      joinedRoomsRef.current = rooms;
+      setJoinedRooms(rooms);
+      setRoomInfo((all) => withoutRoom(all, roomId));
+      historyRequestedRef.current.delete(roomId);
+      readyRoomsRef.current.delete(roomId);
+      // Whatever was queued for the room can't be sent now
+      const failed = outboxRef.current.filter((entry) => entry.roomId === roomId);
+      if (failed.length > 0) {
+        outboxRef.current = outboxRef.current.filter((entry) => entry.roomId !== roomId);
+        setRoomMessages((all) => ({
+          ...all,
+          [roomId]: failed.reduce((items, entry) => setDelivery(items, entry.clientId, 'failed'), all[roomId] ?? loadRoomItems(roomId)),
+        }));
+      }
+      if (currentRoomRef.current === roomId) {
+        const next = pending && rooms.includes(pending.previousRoom) ? pending.previousRoom : rooms[0];
+        currentRoomRef.current = next;
+        setCurrentRoom(next);
+      }
+    };
+
+    const onMessage = (event: MessageEvent) => {
+      const decoded = decodeServerMessage(String(event.data));
+      if (!decoded.ok) {
+        if (decoded.notJson) {
+          // fallback raw
+          setRoomMessages((all) => appendRoomItem(all, currentRoomRef.current, { kind: 'raw', raw: String(event.data) }));
+        } else {
+          console.warn('Ignoring malformed server message', decoded.error.message, event.data);
+        }
+        return;
+      }
+      const msg = decoded.message;
+      switch (msg.type) {
+        case 'server_info': {
+          if (msg.payload.protocolVersion !== PROTOCOL_VERSION && !msg.payload.supportedVersions.includes(PROTOCOL_VERSION)) {
+            setProtocolError(`This page speaks protocol v${PROTOCOL_VERSION} but the server expects v${msg.payload.protocolVersion}. Please refresh.`);
+          }
+          setMaxMessageLength(msg.payload.maxMessageLength);
+          setAttachmentLimits({ maxBytes: msg.payload.maxAttachmentBytes, types: msg.payload.attachmentTypes });
+          const { authProviders, guestsAllowed } = msg.payload;
+          setAuthOptions({ providers: authProviders, guestsAllowed });
+          setSignInMode((mode) => {
+            const modes = signInModes(authProviders, guestsAllowed);
+            return modes.includes(mode) ? mode : modes[0] ?? 'guest';
+          });
+          if (storedAuthTokenRef.current && authProviders.includes('jwt')) {
+            // A fresh token check also reclaims our seats, and picks up a new name from the provider
+            wsRef.current?.send(encodeClientMessage({ type: 'identify', payload: { token: storedAuthTokenRef.current } }));
           } else if (storedNameRef.current) {
-            // Session matches, auto-identify
-            wsRef.current?.send(JSON.stringify({ type: 'identify', payload: { name: storedNameRef.current } }));
+            // Resume token keeps our userId and rooms across reconnects and restarts
+            const resumeToken = storedResumeTokenRef.current ?? undefined;
+            wsRef.current?.send(encodeClientMessage({ type: 'identify', payload: { name: storedNameRef.current, resumeToken } }));
           } else {
             setNeedsIdentity(true);
           }
           return;
         }
-        if (parsed?.type === 'require_identity') {
+        case 'require_identity':
           // Ignore; we handle identity after server_info
           return;
+        case 'server_shutdown': {
+          const { message, retryAfterMs } = msg.payload;
+          restartAfterMs = retryAfterMs;
+          setConnection('reconnecting');
+          const roomId = currentRoomRef.current;
+          setRoomMessages((all) => appendRoomItem(all, roomId, { kind: 'system', message, timestamp: Date.now(), roomId }));
+          return;
         }
-        if (parsed?.type === 'identity' && parsed?.payload?.name) {
-          setMyName(String(parsed.payload.name));
-          setMyUserId(String(parsed.payload.userId || ''));
+        case 'identity': {
+          const { name, userId, resumeToken, verified, roomIds } = msg.payload;
+          setMyName(name);
+          setMyVerified(verified);
+          setAccountPassword('');
+          setMyUserId(userId);
+          myUserIdRef.current = userId;
           setNeedsIdentity(false);
+          setIsRenaming(false);
           setNameError('');
-          storedNameRef.current = String(parsed.payload.name);
-          try { localStorage.setItem('displayName', storedNameRef.current); } catch (err) {
+          const firstIdentity = !identifiedRef.current;
+          identifiedRef.current = true;
+          storedNameRef.current = name;
+          storedResumeTokenRef.current = resumeToken;
+          try {
+            localStorage.setItem('displayName', name);
+            localStorage.setItem('resumeToken', resumeToken);
+          } catch (err) {
             // ignore storage errors in CI/browsers without quota
-            console.debug('localStorage set displayName failed', err);
+            console.debug('localStorage set identity failed', err);
+          }
+          // Renames also confirm with identity; rooms are only joined once
+          if (!firstIdentity) return;
+          // Rooms a resume restored are joined already; joining again just resyncs their state
+          const rooms = [...joinedRoomsRef.current];
+          for (const roomId of roomIds ?? []) {
+            if (!rooms.includes(roomId)) rooms.push(roomId);
+          }
+          joinedRoomsRef.current = rooms;
+          setJoinedRooms(rooms);
+          setRoomMessages((all) => Object.fromEntries(rooms.map((roomId) => [roomId, all[roomId] ?? loadRoomItems(roomId)])));
+          const linked = linkedRoom();
+          const invite = takeLinkedInvite();
+          for (const roomId of rooms) {
+            const payload = roomId === linked && invite ? { roomId, invite } : { roomId };
+            wsRef.current?.send(encodeClientMessage({ type: 'join', payload }));
           }
-          try { localStorage.setItem('serverSessionId', serverSessionId); } catch {}
-          // Now that identity is set, join desired room
-          const target = desiredRoomRef.current || 'broadcast';
-          wsRef.current?.send(JSON.stringify({ type: 'join', payload: { roomId: target } }));
-          setCurrentRoom(target);
           return;
         }
-        if (parsed?.type === 'error' && parsed?.payload?.code === 'NOT_IDENTIFIED') {
-          setNeedsIdentity(true);
+        case 'error': {
+          const { code, message, requestType, roomId, access, clientId, retryAfterMs } = msg.payload;
+          const refused = clientId ? outboxRef.current.find((entry) => entry.clientId === clientId) : undefined;
+          if (refused) {
+            outboxRef.current = outboxRef.current.filter((entry) => entry !== refused);
+            setRoomMessages((all) => ({
+              ...all,
+              [refused.roomId]: setDelivery(all[refused.roomId] ?? loadRoomItems(refused.roomId), refused.clientId, 'failed'),
+            }));
+          }
+          if (code === 'NOT_IDENTIFIED') {
+            setNeedsIdentity(true);
+          } else if (requestType === 'search') {
+            setSearchError(message || 'Search failed');
+            setSearchResults((results) => results && { ...results, loading: false });
+          } else if (code === 'UNKNOWN_COMMAND' || (requestType === 'chat' && ['NAME_TAKEN', 'NAME_INVALID', 'BAD_REQUEST'].includes(code))) {
+            // Slash commands report their problems against the chat message that ran them
+            setRoomError(message || 'That command did not work');
+          } else if (code === 'NAME_TAKEN' || code === 'NAME_INVALID') {
+            const fallback = code === 'NAME_TAKEN' ? 'That name is already taken' : 'That name is not allowed';
+            setNameError(message || fallback);
+            // A rejected rename keeps the current identity; a rejected identify needs a new name
+            if (!identifiedRef.current) setNeedsIdentity(true);
+          } else if (code === 'AUTH_FAILED' || code === 'AUTH_REQUIRED') {
+            setNameError(message || (code === 'AUTH_FAILED' ? 'Sign-in failed' : 'Please sign in'));
+            setNeedsIdentity(true);
+            if (code === 'AUTH_REQUIRED') setSignInMode((mode) => (mode === 'guest' ? 'local' : mode));
+            // A stored token that stopped working shouldn't be retried on every visit
+            if (code === 'AUTH_FAILED' && storedAuthTokenRef.current) {
+              storedAuthTokenRef.current = null;
+              localStorage.removeItem('authToken');
+            }
+          } else if (code === 'HISTORY_DISABLED' && requestType === 'thread') {
+            // Without replay the panel shows the replies seen live
+            setThreadView((view) => view && { ...view, hasMore: false });
+          } else if (code === 'HISTORY_DISABLED') {
+            loadingHistoryRef.current = false;
+            setRoomInfo((all) => patchRoomInfo(all, currentRoomRef.current, { hasMoreHistory: false }));
+          } else if (code === 'ROOM_LIMIT') {
+            setRoomError(message || 'You are in too many rooms');
+            if (pendingJoinRef.current) dropRoom(pendingJoinRef.current.roomId);
+          } else if (code === 'FORBIDDEN' && requestType === 'join' && roomId) {
+            dropRoom(roomId);
+            if (access === 'password') {
+              setPasswordPrompt({ roomId, message: message || `#${roomId} needs a password` });
+            } else {
+              setRoomError(message || `You need an invite to join #${roomId}`);
+            }
+          } else if (code === 'RATE_LIMITED' || code === 'MESSAGE_TOO_LARGE') {
+            // Rate-limited frames are dropped unread, so queued messages go out again afterwards
+            if (code === 'RATE_LIMITED') window.setTimeout(resendQueued, retryAfterMs ?? RECONNECT_BASE_MS);
+            const fallback = code === 'RATE_LIMITED' ? 'You are sending messages too fast' : 'That message is too long';
+            if (requestType === 'dm') {
+              setDmError(message || fallback);
+            } else {
+              setRoomError(message || fallback);
+            }
+          } else if (code === 'RECIPIENT_OFFLINE' || code === 'RECIPIENT_UNKNOWN') {
+            setDmError(message || (code === 'RECIPIENT_OFFLINE' ? 'They are offline' : 'Unknown user'));
+          } else if (code === 'MESSAGE_NOT_FOUND') {
+            setRoomError(message || 'That message can no longer be changed');
+          } else if (code === 'FORBIDDEN') {
+            setRoomError(message || 'You are not allowed to do that');
+          } else if (code === 'BANNED' && roomId) {
+            dropRoom(roomId);
+            setRoomError(message || `You're banned from #${roomId}`);
+          } else if (code === 'MUTED' || code === 'SLOW_MODE') {
+            setRoomError(message || (code === 'MUTED' ? 'You are muted in this room' : 'Slow down a little'));
+          } else if (code === 'BAD_REQUEST' && (requestType === 'room_access' || requestType === 'moderate')) {
+            setRoomError(message || 'The server rejected that');
+          } else if (requestType === 'read') {
+            // Our view can hold ids the server no longer has (e.g. after a restart); the marker just stays put
+          } else if (code === 'UNSUPPORTED_VERSION') {
+            setProtocolError(message || 'This page is out of date. Please refresh.');
+          } else {
+            console.warn(`Server rejected ${msg.payload.requestType ?? 'request'}: ${code}`, message);
+          }
           return;
         }
-        if (parsed?.type === 'chat' && parsed?.payload) {
-          const { message, sender, timestamp, roomId, userId } = parsed.payload;
-          setMessages((m) => [...m, { kind: 'chat', message: String(message), sender: String(sender), timestamp: Number(timestamp), roomId: String(roomId), userId: String(userId) }]);
+        case 'chat': {
+          const { roomId, userId } = msg.payload;
+          if (!joinedRoomsRef.current.includes(roomId)) return;
+          const item = toChatItem(msg.payload);
+          setRoomMessages((all) => ({ ...all, [roomId]: upsertChatItem(all[roomId] ?? loadRoomItems(roomId), item) }));
+          setTypingByRoom((all) => setTyping(all, roomId, userId, null));
+          if (userId !== myUserIdRef.current && (roomId !== currentRoomRef.current || activeDmRef.current)) {
+            const mentioned = isMentioned(item, myUserIdRef.current);
+            setRoomInfo((all) =>
+              patchRoomInfo(all, roomId, {
+                unread: (all[roomId]?.unread ?? 0) + 1,
+                mentions: (all[roomId]?.mentions ?? 0) + (mentioned ? 1 : 0),
+              }),
+            );
+          }
           return;
         }
-        if (parsed?.type === 'system' && parsed?.payload) {
-          const { message, timestamp, roomId } = parsed.payload;
-          setMessages((m) => [...m, { kind: 'system', message: String(message), timestamp: Number(timestamp), roomId: String(roomId) }]);
+        case 'chat_ack': {
+          const { clientId, roomId, id, timestamp, recipients } = msg.payload;
+          outboxRef.current = outboxRef.current.filter((entry) => entry.clientId !== clientId);
+          setRoomMessages((all) => ({ ...all, [roomId]: confirmChat(all[roomId] ?? loadRoomItems(roomId), clientId, id, timestamp, recipients) }));
           return;
         }
-        if (parsed?.type === 'room_state' && parsed?.payload) {
-          const { memberCount } = parsed.payload;
-          setMemberCount(Number(memberCount) || 0);
+        case 'read': {
+          const { roomId, userId, id } = msg.payload;
+          if (!joinedRoomsRef.current.includes(roomId)) return;
+          if (userId === myUserIdRef.current) readSentRef.current[roomId] = Math.max(readSentRef.current[roomId] ?? 0, id);
+          setRoomInfo((all) => {
+            const readMarkers = all[roomId]?.readMarkers ?? {};
+            if ((readMarkers[userId] ?? 0) >= id) return all;
+            return patchRoomInfo(all, roomId, { readMarkers: { ...readMarkers, [userId]: id } });
+          });
+          return;
+        }
+        case 'read_state': {
+          const { roomId, markers, unread } = msg.payload;
+          if (!joinedRoomsRef.current.includes(roomId)) return;
+          readSentRef.current[roomId] = Math.max(readSentRef.current[roomId] ?? 0, markers[myUserIdRef.current] ?? 0);
+          // The server counts what arrived while we were away; the open room is being read
+          const viewing = roomId === currentRoomRef.current && !activeDmRef.current;
+          setRoomInfo((all) =>
+            patchRoomInfo(all, roomId, {
+              readMarkers: markers,
+              ...(viewing ? {} : { unread, mentions: Math.min(all[roomId]?.mentions ?? 0, unread) }),
+            }),
+          );
+          return;
+        }
+        case 'message_patch': {
+          const { roomId } = msg.payload;
+          if (!joinedRoomsRef.current.includes(roomId)) return;
+          const patch = msg.payload;
+          setRoomMessages((all) => ({ ...all, [roomId]: applyMessagePatch(all[roomId] ?? loadRoomItems(roomId), patch) }));
+          setThreadView((view) => view && { ...view, replies: applyMessagePatch(view.replies, patch) });
+          return;
+        }
+        case 'search': {
+          const { query, before, hasMore } = msg.payload;
+          if (query !== searchQueryRef.current) return;
+          const found = msg.payload.messages.map(toChatItem);
+          setSearchResults((results) => ({ query, items: before !== undefined && results ? [...results.items, ...found] : found, hasMore, loading: false }));
+          return;
+        }
+        case 'thread': {
+          const { roomId, id, hasMore } = msg.payload;
+          const page = msg.payload.messages.map(toChatItem);
+          setThreadView((view) =>
+            view && view.roomId === roomId && view.id === id ? { ...view, replies: mergeHistory(view.replies, page), hasMore } : view,
+          );
+          return;
+        }
+        case 'history': {
+          const { roomId, before, hasMore } = msg.payload;
+          if (!joinedRoomsRef.current.includes(roomId)) return;
+          if (roomId === currentRoomRef.current) {
+            loadingHistoryRef.current = false;
+            if (before !== undefined && scrollRef.current) {
+              // Older page is prepended; keep the viewport anchored where it was
+              scrollRestoreRef.current = { height: scrollRef.current.scrollHeight, top: scrollRef.current.scrollTop };
+            }
+          }
+          const page = msg.payload.messages.map(toChatItem);
+          setRoomInfo((all) => patchRoomInfo(all, roomId, { hasMoreHistory: hasMore }));
+          setRoomMessages((all) => ({ ...all, [roomId]: mergeHistory(all[roomId] ?? loadRoomItems(roomId), page) }));
+          return;
+        }
+        case 'dm': {
+          const { id, message, fromUserId, fromName, toUserId, toName, timestamp } = msg.payload;
+          const mine = fromUserId === myUserIdRef.current;
+          const peerId = mine ? toUserId : fromUserId;
+          const peerName = mine ? toName : fromName;
+          const item: ChatItem = { kind: 'chat', id, message, sender: fromName, timestamp, roomId: `dm:${peerId}`, userId: fromUserId };
+          setDmThreads((threads) => {
+            const thread = threads[peerId] ?? { userId: peerId, name: peerName, items: [], unread: 0 };
+            if (thread.items.some((existing) => existing.kind === 'chat' && existing.id === id)) return threads;
+            const unread = !mine && activeDmRef.current !== peerId ? thread.unread + 1 : thread.unread;
+            return { ...threads, [peerId]: { ...thread, name: peerName, items: [...thread.items, item], unread } };
+          });
+          if (mine) setDmError('');
+          return;
+        }
+        case 'system': {
+          const { message, timestamp, roomId } = msg.payload;
+          if (!joinedRoomsRef.current.includes(roomId)) return;
+          setRoomMessages((all) => appendRoomItem(all, roomId, { kind: 'system', message, timestamp, roomId }));
+          return;
+        }
+        case 'room_state': {
+          const { memberCount, roomId, historyReplay, members, access, ownerUserId, moderatorUserIds, slowModeMs, mutedUntil, topic } = msg.payload;
+          if (!joinedRoomsRef.current.includes(roomId)) return;
+          if (pendingJoinRef.current?.roomId === roomId) pendingJoinRef.current = null;
+          setRoomInfo((all) => patchRoomInfo(all, roomId, {
+            memberCount,
+            historyReplay,
+            hasMoreHistory: historyReplay && (all[roomId]?.hasMoreHistory ?? false),
+            access,
+            ownerUserId,
+            moderatorUserIds,
+            slowModeMs,
+            mutedUntil,
+            topic,
+            // Only the snapshot sent on join carries the roster
+            ...(members ? { members } : {}),
+          }));
+          if (historyReplay && !historyRequestedRef.current.has(roomId)) {
+            // First page for this room: the newest messages
+            historyRequestedRef.current.add(roomId);
+            wsRef.current?.send(encodeClientMessage({ type: 'history', payload: { roomId, limit: HISTORY_PAGE_SIZE } }));
+          }
+          // Joined on this connection: anything queued for the room can go
+          readyRoomsRef.current.add(roomId);
+          sendQueued(wsRef.current, outboxRef.current, sentClientIdsRef.current, roomId);
+          return;
+        }
+        case 'presence': {
+          const { roomId, userId, name, status } = msg.payload;
+          if (!joinedRoomsRef.current.includes(roomId)) return;
+          setRoomInfo((all) => {
+            const others = (all[roomId]?.members ?? []).filter((member) => member.userId !== userId);
+            const members = status === 'left' ? others : [...others, { userId, name, status: status as MemberStatus }];
+            return patchRoomInfo(all, roomId, { members });
+          });
+          if (status === 'left') setTypingByRoom((all) => setTyping(all, roomId, userId, null));
+          return;
+        }
+        case 'invite': {
+          const { roomId, token, expiresAt } = msg.payload;
+          const url = new URL(window.location.href);
+          url.searchParams.set('room', roomId);
+          url.searchParams.set('invite', token);
+          setInviteLink({ roomId, url: url.toString(), expiresAt });
+          return;
+        }
+        case 'moderation': {
+          const { roomId, action, byName, until } = msg.payload;
+          if (action === 'kick' || action === 'ban') {
+            dropRoom(roomId);
+            setRoomError(`${byName} ${action === 'kick' ? 'removed you from' : 'banned you from'} #${roomId}`);
+          } else if (action === 'mute' && until) {
+            setRoomError(`${byName} muted you in #${roomId} until ${timeOfDay(until)}`);
+          } else if (action === 'unmute') {
+            setRoomError('');
+          }
+          return;
+        }
+        case 'typing': {
+          const { roomId, userId, name, typing } = msg.payload;
+          if (userId === myUserIdRef.current || !joinedRoomsRef.current.includes(roomId)) return;
+          setTypingByRoom((all) => setTyping(all, roomId, userId, typing ? { name, until: Date.now() + TYPING_TTL_MS } : null));
           return;
         }
-      } catch {
-        // fallback raw
-        setMessages((m) => [...m, { kind: 'raw', raw: String(event.data) }]);
-        return;
       }
-      // unknown message shape -> ignore
     };
 
-    ws.onclose = () => {
+    const resendQueued = () => {
+      sentClientIdsRef.current.clear();
+      for (const roomId of readyRoomsRef.current) {
+        sendQueued(wsRef.current, outboxRef.current, sentClientIdsRef.current, roomId);
+      }
+    };
+
+    const onClose = (event: CloseEvent) => {
       console.log('Disconnected from server');
-      setIsConnected(false);
+      if (disposed) return;
+      // The next connection identifies afresh, which rejoins our rooms, reloads
+      // their history and sends whatever is still queued
+      identifiedRef.current = false;
+      historyRequestedRef.current.clear();
+      sentClientIdsRef.current.clear();
+      readyRoomsRef.current.clear();
+      // 1009: we sent a frame over the server's size limit; 1013: we fell too far behind reading
+      if (event.code === 1009) {
+        setRoomError('The server dropped the connection because a message was too large.');
+      } else if (event.code === 1013) {
+        setRoomError('The connection fell too far behind and was reset.');
+      }
+      // 1012 comes with a restart hint; anything else backs off
+      const delay = restartAfterMs ?? reconnectDelay(attempt);
+      restartAfterMs = null;
+      attempt += 1;
+      setConnection('reconnecting');
+      reconnectTimer = window.setTimeout(connect, delay);
     };
 
+    // Coming back online skips the rest of the wait
+    const reconnectNow = () => {
+      if (reconnectTimer === undefined) return;
+      window.clearTimeout(reconnectTimer);
+      connect();
+    };
+
+    const connect = () => {
+      reconnectTimer = undefined;
+      const ws = new WebSocket(resolveWsUrl());
+      wsRef.current = ws;
+      ws.onopen = onOpen;
+      ws.onmessage = onMessage;
+      ws.onclose = onClose;
+    };
+    connect();
+    window.addEventListener('online', reconnectNow);
+
     return () => {
-      ws.close();
+      disposed = true;
+      window.removeEventListener('online', reconnectNow);
+      window.clearTimeout(reconnectTimer);
+      wsRef.current?.close();
     };
   }, []);
 
   useEffect(() => {
-    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+    // Report idle when the tab is hidden or untouched for a while
+    let status: MemberStatus = 'active';
+    let idleTimer: number | undefined;
+    const report = (next: MemberStatus) => {
+      if (next === status) return;
+      status = next;
+      if (identifiedRef.current && wsRef.current?.readyState === WebSocket.OPEN) {
+        wsRef.current.send(encodeClientMessage({ type: 'status', payload: { status } }));
+      }
+    };
+    const onActivity = () => {
+      window.clearTimeout(idleTimer);
+      if (document.visibilityState !== 'visible') {
+        report('idle');
+        return;
+      }
+      report('active');
+      idleTimer = window.setTimeout(() => report('idle'), IDLE_AFTER_MS);
+    };
+    const events = ['visibilitychange', 'mousemove', 'keydown', 'focus'];
+    for (const name of events) window.addEventListener(name, onActivity);
+    onActivity();
+    return () => {
+      window.clearTimeout(idleTimer);
+      for (const name of events) window.removeEventListener(name, onActivity);
+    };
+  }, []);
+
+  useEffect(() => {
+    // Drop typing indicators once they expire
+    let nextExpiry = Infinity;
+    for (const users of Object.values(typingByRoom)) {
+      for (const entry of Object.values(users)) nextExpiry = Math.min(nextExpiry, entry.until);
+    }
+    if (nextExpiry === Infinity) return;
+    const timer = window.setTimeout(() => setTypingByRoom((all) => pruneTyping(all, Date.now())), Math.max(0, nextExpiry - Date.now()));
+    return () => window.clearTimeout(timer);
+  }, [typingByRoom]);
+
+  const messages = useMemo(() => roomMessages[currentRoom] ?? [], [roomMessages, currentRoom]);
+  const messageById = useMemo(() => {
+    const byId = new Map<number, ChatItem>();
+    for (const item of messages) {
+      if (item.kind === 'chat' && item.id !== undefined) byId.set(item.id, item);
+    }
+    return byId;
   }, [messages]);
+  const threadItems = useMemo(
+    () => (threadView && threadView.roomId === currentRoom ? threadReplies(threadView.replies, messages, threadView.id) : []),
+    [threadView, messages, currentRoom],
+  );
+  const threadParent = threadView ? messageById.get(threadView.id) : undefined;
+  const threadQuote: ChatQuote | undefined =
+    threadParent?.kind === 'chat'
+      ? { sender: threadParent.sender, userId: threadParent.userId, message: threadParent.message }
+      : threadItems.flatMap((item) => (item.kind === 'chat' && item.quote ? [item.quote] : []))[0];
+  const { memberCount, historyReplay, hasMoreHistory, members, access, ownerUserId, moderatorUserIds, slowModeMs, mutedUntil, topic, readMarkers } =
+    roomInfo[currentRoom] ?? EMPTY_ROOM_INFO;
+  const isOwner = !!myUserId && ownerUserId === myUserId;
+  const isModerator = isOwner || moderatorUserIds.includes(myUserId);
+  // Rooms nobody owns (like the default one) stay open to everyone's settings
+  const canManage = !ownerUserId || isModerator;
+  const isMutedHere = (userId: string) => (mutedUntil[userId] ?? 0) > Date.now();
+  const myMute = !activeDm && isMutedHere(myUserId) ? mutedUntil[myUserId] : undefined;
+  // Owners can act on anyone else, moderators on plain members
+  const canModerate = (userId: string) =>
+    isModerator && userId !== myUserId && userId !== ownerUserId && (isOwner || !moderatorUserIds.includes(userId));
+  const sortedMembers = [...members].sort((a, b) => a.name.localeCompare(b.name));
+  const typingNames = Object.values(typingByRoom[currentRoom] ?? {}).map((entry) => entry.name);
+  const showThread = !activeDm && threadView !== null && threadView.roomId === currentRoom;
+
+  useLayoutEffect(() => {
+    const restore = scrollRestoreRef.current;
+    if (restore && scrollRef.current) {
+      scrollRestoreRef.current = null;
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight - restore.height + restore.top;
+    }
+  }, [messages]);
+
+  const visibleItems = useMemo(
+    () => (activeDm ? dmThreads[activeDm]?.items ?? [] : messages),
+    [activeDm, dmThreads, messages],
+  );
+
+  useEffect(() => {
+    // Only follow the bottom when something new arrived, not when older history was prepended
+    const last = visibleItems[visibleItems.length - 1];
+    if (last === lastItemRef.current) return;
+    lastItemRef.current = last;
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [visibleItems]);
+
+  useEffect(() => {
+    // Tell the server how far the open room has been read, whenever the tab is
+    // in view; rooms count as joined once their room_state has arrived
+    if (activeDm || connection !== 'open') return;
+    const newest = newestMessageId(messages);
+    if (newest === undefined) return;
+    const report = () => {
+      if (document.visibilityState !== 'visible' || (readSentRef.current[currentRoom] ?? 0) >= newest) return;
+      if (!readyRoomsRef.current.has(currentRoom) || wsRef.current?.readyState !== WebSocket.OPEN) return;
+      readSentRef.current[currentRoom] = newest;
+      wsRef.current.send(encodeClientMessage({ type: 'read', payload: { roomId: currentRoom, id: newest } }));
+    };
+    report();
+    document.addEventListener('visibilitychange', report);
+    return () => document.removeEventListener('visibilitychange', report);
+  }, [messages, currentRoom, activeDm, connection, readMarkers]);
+
+  useEffect(() => {
+    // A message jumped to from search is scrolled to once it has rendered,
+    // which may be after its history page arrives, then loses its ring
+    if (!highlight || highlight.roomId !== currentRoom || activeDm || highlightShownRef.current === highlight) return;
+    const element = scrollRef.current?.querySelector(`[data-message-id="${highlight.id}"]`);
+    if (!element) return;
+    const shown = highlight;
+    highlightShownRef.current = shown;
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    window.setTimeout(() => setHighlight((current) => (current === shown ? null : current)), HIGHLIGHT_MS);
+  }, [highlight, messages, currentRoom, activeDm]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(DM_STORAGE_KEY, JSON.stringify(dmThreads));
+    } catch {
+      // ignore quota errors
+    }
+  }, [dmThreads]);
 
-  // Persist only your own view per-room; not shared across users
   useEffect(() => {
-    // Load per-room local view on room change
-    const saved = localStorage.getItem(`room:${currentRoom}:messages`);
-    if (saved) {
+    // Save per-room local views, skipping rooms whose view didn't change
+    for (const [roomId, items] of Object.entries(roomMessages)) {
+      if (savedRoomItemsRef.current[roomId] === items) continue;
+      savedRoomItemsRef.current[roomId] = items;
       try {
-        const arr = JSON.parse(saved);
-        if (Array.isArray(arr)) setMessages(arr);
+        localStorage.setItem(roomStorageKey(roomId), JSON.stringify(items));
       } catch {
-        // ignore
+        // ignore quota errors
       }
-    } else {
-      setMessages([]);
     }
-  }, [currentRoom]);
+  }, [roomMessages]);
 
   useEffect(() => {
-    // Save per-room local view whenever messages change
     try {
-      localStorage.setItem(`room:${currentRoom}:messages`, JSON.stringify(messages));
+      localStorage.setItem(JOINED_ROOMS_KEY, JSON.stringify(joinedRooms));
     } catch {
       // ignore quota errors
     }
-  }, [messages, currentRoom]);
+  }, [joinedRooms]);
 
   const sendMessage = () => {
-    if (input.trim() !== '' && wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({ type: 'chat', payload: { message: input } }));
-      setInput('');
+    if (input.trim() === '' && (activeDm || draftAttachments.length === 0)) return;
+    if (activeDm) {
+      if (wsRef.current?.readyState !== WebSocket.OPEN) {
+        setDmError('You are offline; direct messages can only be sent while connected');
+        return;
+      }
+      wsRef.current.send(encodeClientMessage({ type: 'dm', payload: { toUserId: activeDm, message: input } }));
+    } else {
+      const clientId = newClientId();
+      const item: ChatItem = {
+        kind: 'chat',
+        message: input,
+        sender: myName,
+        timestamp: Date.now(),
+        roomId: currentRoom,
+        userId: myUserId,
+        verified: myVerified || undefined,
+        attachments: draftAttachments.length > 0 ? draftAttachments : undefined,
+        replyTo: replyingTo?.id,
+        quote: replyingTo?.quote,
+        clientId,
+        delivery: 'pending',
+      };
+      setRoomMessages((all) => appendRoomItem(all, currentRoom, item));
+      queueChat(currentRoom, clientId, input, item.attachments, item.replyTo);
+      setDraftAttachments([]);
+      setReplyingTo(null);
+    }
+    setInput('');
+    setRoomError('');
+    stopTyping();
+  };
+
+  // Room messages always go through the outbox; they're sent right away when
+  // the room is joined on this connection and after the next join otherwise
+  const queueChat = (roomId: string, clientId: string, message: string, attachments?: ChatAttachment[], replyTo?: number) => {
+    outboxRef.current = [...outboxRef.current, { clientId, roomId, message, attachments, replyTo }];
+    if (readyRoomsRef.current.has(roomId)) sendQueued(wsRef.current, outboxRef.current, sentClientIdsRef.current, roomId);
+  };
+
+  const retryChat = (item: ChatItem) => {
+    if (item.kind !== 'chat' || !item.clientId) return;
+    const { roomId, clientId, message, attachments, replyTo } = item;
+    setRoomMessages((all) => ({ ...all, [roomId]: setDelivery(all[roomId] ?? loadRoomItems(roomId), clientId, 'pending') }));
+    queueChat(roomId, clientId, message, attachments, replyTo);
+  };
+
+  // Replying to a reply continues the thread it is in, so the composer quotes the thread's start
+  const startReply = (item: ChatItem) => {
+    if (item.kind !== 'chat' || item.id === undefined) return;
+    const quote = item.replyTo !== undefined ? replyQuote(item, messageById) : undefined;
+    if (item.replyTo !== undefined && quote) {
+      setReplyingTo({ id: item.replyTo, quote });
+    } else {
+      setReplyingTo({ id: item.id, quote: { sender: item.sender, userId: item.userId, message: item.message } });
+    }
+    composerRef.current?.focus();
+  };
+
+  const openThread = (id: number) => {
+    setThreadView({ roomId: currentRoom, id, replies: [], hasMore: false });
+    if (historyReplay && wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(encodeClientMessage({ type: 'thread', payload: { roomId: currentRoom, id, limit: THREAD_PAGE_SIZE } }));
+    }
+  };
+
+  const loadOlderReplies = () => {
+    if (!threadView || !threadView.hasMore || wsRef.current?.readyState !== WebSocket.OPEN) return;
+    const before = oldestMessageId(threadView.replies);
+    if (before === undefined) return;
+    const { roomId, id } = threadView;
+    wsRef.current.send(encodeClientMessage({ type: 'thread', payload: { roomId, id, before, limit: THREAD_PAGE_SIZE } }));
+  };
+
+  // Searches every joined room with history on unless a room is picked; a
+  // before id asks for the next, older page of the same query
+  const runSearch = (before?: number) => {
+    const query = searchForm.query.trim();
+    if (!query || wsRef.current?.readyState !== WebSocket.OPEN) return;
+    if (before === undefined) setSearchResults({ query, items: [], hasMore: false, loading: true });
+    else setSearchResults((results) => results && { ...results, loading: true });
+    searchQueryRef.current = query;
+    setSearchError('');
+    wsRef.current.send(
+      encodeClientMessage({
+        type: 'search',
+        payload: {
+          query,
+          roomId: searchForm.roomId || undefined,
+          sender: searchForm.sender.trim() || undefined,
+          since: dayStart(searchForm.since),
+          until: dayStart(searchForm.until, 1),
+          before,
+          limit: SEARCH_PAGE_SIZE,
+        },
+      }),
+    );
+  };
+
+  // Opens a result's room and brings the message into view, loading the
+  // history around it when it isn't held locally
+  const jumpToMessage = (item: ChatItem) => {
+    if (item.kind !== 'chat' || item.id === undefined) return;
+    const { roomId, id } = item;
+    if (roomId !== currentRoomRef.current || activeDm) selectRoom(roomId);
+    const held = (roomMessages[roomId] ?? []).some((existing) => existing.kind === 'chat' && existing.id === id);
+    if (!held && wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(encodeClientMessage({ type: 'history', payload: { roomId, before: id + 1, limit: HISTORY_PAGE_SIZE } }));
     }
+    setHighlight({ roomId, id });
+    setSearchOpen(false);
   };
 
-  const submitIdentity = () => {
+  // Uploads go straight to the server's blob store; the message that uses
+  // them only carries their ids
+  const attachFiles = async (files: File[]) => {
+    if (draftAttachments.length + files.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      setRoomError(`A message can carry up to ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`);
+      return;
+    }
+    for (const file of files) {
+      const type = file.type || 'application/octet-stream';
+      if (!acceptsType(type, attachmentLimits.types)) {
+        setRoomError(`${file.name} can't be attached here`);
+        continue;
+      }
+      if (file.size > attachmentLimits.maxBytes) {
+        setRoomError(`${file.name} is over the ${formatBytes(attachmentLimits.maxBytes)} limit`);
+        continue;
+      }
+      setUploading((count) => count + 1);
+      try {
+        const url = apiUrl('/attachments');
+        url.searchParams.set('name', file.name);
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': type, Authorization: `Bearer ${storedResumeTokenRef.current ?? ''}` },
+          body: file,
+        });
+        const body = await response.json();
+        if (!response.ok) {
+          setRoomError(body?.error?.message ?? `Could not upload ${file.name}`);
+          continue;
+        }
+        const attachment = body as ChatAttachment;
+        setDraftAttachments((all) => (all.some((existing) => existing.id === attachment.id) ? all : [...all, attachment]));
+      } catch (err) {
+        console.warn('Attachment upload failed', err);
+        setRoomError(`Could not upload ${file.name}`);
+      } finally {
+        setUploading((count) => count - 1);
+      }
+    }
+  };
+
+  // Fetched rather than linked so the request can carry our token
+  const exportTranscript = async (format: string) => {
+    const roomId = currentRoom;
+    setTranscriptBusy(true);
+    try {
+      const url = apiUrl(`/rooms/${encodeURIComponent(roomId)}/transcript`);
+      url.searchParams.set('format', format);
+      const response = await fetch(url, { headers: { Authorization: `Bearer ${storedResumeTokenRef.current ?? ''}` } });
+      if (!response.ok) {
+        const body = await response.json();
+        setRoomError(body?.error?.message ?? `Could not export #${roomId}`);
+        return;
+      }
+      const href = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = href;
+      link.download = `${roomId}-transcript.${format}`;
+      link.click();
+      window.setTimeout(() => URL.revokeObjectURL(href), 1000);
+    } catch (err) {
+      console.warn('Transcript export failed', err);
+      setRoomError(`Could not export #${roomId}`);
+    } finally {
+      setTranscriptBusy(false);
+    }
+  };
+
+  const discardChat = (item: ChatItem) => {
+    if (item.kind !== 'chat' || !item.clientId) return;
+    const { roomId, clientId } = item;
+    setRoomMessages((all) => ({ ...all, [roomId]: (all[roomId] ?? []).filter((other) => other.kind !== 'chat' || other.clientId !== clientId) }));
+  };
+
+  const stopTyping = () => {
+    const sent = typingSentRef.current;
+    if (!sent) return;
+    typingSentRef.current = null;
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(encodeClientMessage({ type: 'typing', payload: { roomId: sent.roomId, typing: false } }));
+    }
+  };
+
+  const onInputChange = (value: string) => {
+    setInput(value);
+    if (activeDm || value.trim().length === 0) {
+      stopTyping();
+      return;
+    }
+    const sent = typingSentRef.current;
+    if (sent && sent.roomId === currentRoom && Date.now() - sent.at < TYPING_REPEAT_MS) return;
+    if (wsRef.current?.readyState !== WebSocket.OPEN) return;
+    typingSentRef.current = { roomId: currentRoom, at: Date.now() };
+    wsRef.current.send(encodeClientMessage({ type: 'typing', payload: { roomId: currentRoom, typing: true } }));
+  };
+
+  const saveEdit = () => {
+    if (!editing || wsRef.current?.readyState !== WebSocket.OPEN) return;
+    const message = editing.text.trim();
+    if (message.length > 0) {
+      wsRef.current.send(encodeClientMessage({ type: 'edit', payload: { roomId: currentRoom, id: editing.id, message } }));
+    }
+    setEditing(null);
+  };
+
+  const deleteMessage = (id: number) => {
+    if (wsRef.current?.readyState !== WebSocket.OPEN) return;
+    if (!window.confirm('Delete this message for everyone?')) return;
+    wsRef.current.send(encodeClientMessage({ type: 'delete', payload: { roomId: currentRoom, id } }));
+  };
+
+  const toggleReaction = (id: number, emoji: string) => {
+    if (wsRef.current?.readyState !== WebSocket.OPEN) return;
+    wsRef.current.send(encodeClientMessage({ type: 'react', payload: { roomId: currentRoom, id, emoji } }));
+  };
+
+  const openDm = (userId: string, name: string) => {
+    if (!userId || userId === myUserId) return;
+    setDmThreads((threads) => ({
+      ...threads,
+      [userId]: { ...(threads[userId] ?? { userId, name, items: [] }), unread: 0 },
+    }));
+    activeDmRef.current = userId;
+    setActiveDm(userId);
+    setShowDmList(false);
+    setReplyingTo(null);
+    setDmError('');
+  };
+
+  const closeDm = () => {
+    activeDmRef.current = null;
+    setActiveDm(null);
+    setDmError('');
+    setRoomInfo((all) => patchRoomInfo(all, currentRoomRef.current, { unread: 0, mentions: 0 }));
+  };
+
+  const dmUnreadTotal = Object.values(dmThreads).reduce((sum, thread) => sum + thread.unread, 0);
+  const dmList = Object.values(dmThreads).sort((a, b) => lastActivity(b) - lastActivity(a));
+
+  const loadOlderHistory = () => {
+    if (!historyReplay || !hasMoreHistory || loadingHistoryRef.current) return;
+    if (wsRef.current?.readyState !== WebSocket.OPEN) return;
+    const before = oldestMessageId(messages);
+    if (before === undefined) return;
+    loadingHistoryRef.current = true;
+    wsRef.current.send(encodeClientMessage({ type: 'history', payload: { roomId: currentRoom, before, limit: HISTORY_PAGE_SIZE } }));
+  };
+
+  const onMessagesScroll = () => {
+    if (activeDm) return;
+    if (scrollRef.current && scrollRef.current.scrollTop < 48) loadOlderHistory();
+  };
+
+  const toggleHistoryReplay = () => {
+    if (wsRef.current?.readyState !== WebSocket.OPEN) return;
+    wsRef.current.send(encodeClientMessage({ type: 'room_settings', payload: { roomId: currentRoom, historyReplay: !historyReplay } }));
+  };
+
+  const submitIdentity = (register = false) => {
     if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
+    if (!isRenaming && signInMode === 'local') {
+      const username = usernameInput.trim();
+      if (username.length === 0 || accountPassword.length === 0) {
+        setNameError('Enter your username and password');
+        return;
+      }
+      wsRef.current.send(encodeClientMessage({ type: 'identify', payload: { username, password: accountPassword, register } }));
+      return;
+    }
+    if (!isRenaming && signInMode === 'token') {
+      const token = tokenInput.trim();
+      if (token.length === 0) {
+        setNameError('Paste your sign-in token');
+        return;
+      }
+      storedAuthTokenRef.current = token;
+      try {
+        localStorage.setItem('authToken', token);
+      } catch (err) {
+        console.debug('localStorage set authToken failed', err);
+      }
+      wsRef.current.send(encodeClientMessage({ type: 'identify', payload: { token } }));
+      return;
+    }
     const trimmed = nameInput.trim();
     if (trimmed.length === 0) {
       setNameError('Please enter a name');
       return;
     }
-    wsRef.current.send(JSON.stringify({ type: 'identify', payload: { name: trimmed } }));
+    const message = isRenaming
+      ? encodeClientMessage({ type: 'rename', payload: { name: trimmed } })
+      : encodeClientMessage({ type: 'identify', payload: { name: trimmed } });
+    wsRef.current.send(message);
     // Do not set local state here; wait for server confirmation (identity event)
   };
 
-  const joinRoom = () => {
-    const target = roomInput.trim() || 'broadcast';
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({ type: 'join', payload: { roomId: target } }));
-      setCurrentRoom(target);
-      setMessages([]);
-      const next = new URL(window.location.href);
-      next.searchParams.set('room', target);
-      window.history.replaceState(null, '', next.toString());
+  const startRename = () => {
+    setNameInput(myName);
+    setNameError('');
+    setIsRenaming(true);
+  };
+
+  const cancelRename = () => {
+    setIsRenaming(false);
+    setNameError('');
+  };
+
+  // Forget the stored identity; the next visit starts at the sign-in screen
+  const signOut = () => {
+    for (const key of ['displayName', 'resumeToken', 'authToken']) {
+      localStorage.removeItem(key);
+    }
+    window.location.reload();
+  };
+
+  const selectRoom = (roomId: string) => {
+    currentRoomRef.current = roomId;
+    loadingHistoryRef.current = false;
+    setCurrentRoom(roomId);
+    setEditing(null);
+    setReplyingTo(null);
+    setThreadView(null);
+    stopTyping();
+    closeDm();
+    const next = new URL(window.location.href);
+    next.searchParams.set('room', roomId);
+    window.history.replaceState(null, '', next.toString());
+  };
+
+  const openRoom = (target: string, password?: string) => {
+    if (wsRef.current?.readyState !== WebSocket.OPEN) return;
+    setRoomError('');
+    if (!joinedRoomsRef.current.includes(target)) {
+      pendingJoinRef.current = { roomId: target, previousRoom: currentRoomRef.current };
+      const rooms = [...joinedRoomsRef.current, target];
+      joinedRoomsRef.current = rooms;
+      setJoinedRooms(rooms);
+      setRoomMessages((all) => (all[target] ? all : { ...all, [target]: loadRoomItems(target) }));
+      wsRef.current.send(encodeClientMessage({ type: 'join', payload: { roomId: target, password } }));
     }
+    selectRoom(target);
   };
 
-  const copyInviteLink = async () => {
+  const joinRoom = () => {
+    if (wsRef.current?.readyState !== WebSocket.OPEN) return;
+    setRoomInput('');
+    openRoom(roomInput.trim() || DEFAULT_ROOM);
+  };
+
+  const submitPassword = () => {
+    if (!passwordPrompt || passwordInput.length === 0) return;
+    openRoom(passwordPrompt.roomId, passwordInput);
+    setPasswordPrompt(null);
+    setPasswordInput('');
+  };
+
+  const leaveRoom = (roomId: string) => {
+    // Keep at least one room open
+    if (joinedRoomsRef.current.length <= 1) return;
+    if (wsRef.current?.readyState !== WebSocket.OPEN) return;
+    wsRef.current.send(encodeClientMessage({ type: 'leave', payload: { roomId } }));
+    const rooms = joinedRoomsRef.current.filter((joined) => joined !== roomId);
+    joinedRoomsRef.current = rooms;
+    setJoinedRooms(rooms);
+    historyRequestedRef.current.delete(roomId);
+    setRoomMessages((all) => withoutRoom(all, roomId));
+    setRoomInfo((all) => withoutRoom(all, roomId));
+    if (roomId === currentRoomRef.current) selectRoom(rooms[0]);
+  };
+
+  const copyLink = async (url: string) => {
     try {
-      const link = new URL(window.location.href);
-      link.searchParams.set('room', currentRoom);
-      await navigator.clipboard.writeText(link.toString());
+      await navigator.clipboard.writeText(url);
       setCopied(true);
       setTimeout(() => setCopied(false), 1500);
     } catch (err) {
@@ -216,139 +1597,1018 @@ function App() {
     }
   };
 
+  const copyInviteLink = () => {
+    if (access === 'open') {
+      const link = new URL(window.location.href);
+      link.searchParams.set('room', currentRoom);
+      link.searchParams.delete('invite');
+      void copyLink(link.toString());
+      return;
+    }
+    // Protected rooms need a signed invite; the server replies with one to copy
+    if (wsRef.current?.readyState !== WebSocket.OPEN) return;
+    wsRef.current.send(encodeClientMessage({ type: 'create_invite', payload: { roomId: currentRoom } }));
+  };
+
+  const saveAccess = () => {
+    if (!accessDraft || wsRef.current?.readyState !== WebSocket.OPEN) return;
+    const password = accessDraft.mode === 'password' && accessDraft.password ? accessDraft.password : undefined;
+    wsRef.current.send(encodeClientMessage({ type: 'room_access', payload: { roomId: currentRoom, mode: accessDraft.mode, password } }));
+    setAccessDraft(null);
+  };
+
+  const revokeInvites = () => {
+    if (wsRef.current?.readyState !== WebSocket.OPEN) return;
+    if (!window.confirm('Invalidate every invite link issued for this room?')) return;
+    wsRef.current.send(encodeClientMessage({ type: 'room_access', payload: { roomId: currentRoom, revokeInvites: true } }));
+  };
+
+  const setSlowMode = (ms: number) => {
+    if (wsRef.current?.readyState !== WebSocket.OPEN) return;
+    wsRef.current.send(encodeClientMessage({ type: 'room_settings', payload: { roomId: currentRoom, slowModeMs: ms } }));
+  };
+
+  const openMemberMenu = (event: MouseEvent, userId: string, name: string) => {
+    if (!userId || userId === myUserId) return;
+    event.preventDefault();
+    setMemberMenu({ userId, name, x: event.clientX, y: event.clientY });
+  };
+
+  const moderate = (action: ModerationAction, durationMs?: number) => {
+    const target = memberMenu;
+    setMemberMenu(null);
+    if (!target || wsRef.current?.readyState !== WebSocket.OPEN) return;
+    if (action === 'ban' && !window.confirm(`Ban ${target.name} from #${currentRoom}?`)) return;
+    wsRef.current.send(encodeClientMessage({ type: 'moderate', payload: { roomId: currentRoom, action, userId: target.userId, durationMs } }));
+  };
+
+  const setMemberRole = (userId: string, moderator: boolean) => {
+    if (wsRef.current?.readyState !== WebSocket.OPEN) return;
+    const role = moderator ? 'moderator' : 'member';
+    wsRef.current.send(encodeClientMessage({ type: 'room_role', payload: { roomId: currentRoom, userId, role } }));
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-gray-950 via-gray-900 to-black text-white">
-      <div className="mx-auto max-w-2xl h-screen flex flex-col">
-        {/* Header */}
-        <div className="p-4 bg-gray-900/60 backdrop-blur border-b border-white/10">
-          <div className="flex items-center justify-between">
-            <div className="text-lg font-semibold">
-              <img src="/logo.png" alt="Den Den Mushi Logo" className="inline-block w-8 h-8 mr-1" />
-              <span className="bg-gradient-to-r from-fuchsia-400 to-purple-400 bg-clip-text text-transparent">Den-Den-Mushi</span>
-              <span className="ml-2 text-xs text-gray-400">roomed chat</span>
+      <div className={`mx-auto ${showThread ? 'max-w-6xl' : 'max-w-4xl'} h-screen flex`}>
+        {/* Joined rooms */}
+        <aside className="w-44 shrink-0 flex flex-col bg-gray-900/40 border-r border-white/10">
+          <div className="px-4 pt-5 pb-2 text-xs uppercase tracking-wide text-gray-400">Rooms</div>
+          <div className="flex-1 overflow-y-auto px-2 space-y-0.5">
+            {joinedRooms.map((roomId) => {
+              const unread = roomInfo[roomId]?.unread ?? 0;
+              const mentionCount = roomInfo[roomId]?.mentions ?? 0;
+              const isActive = roomId === currentRoom && !activeDm;
+              return (
+                <div
+                  key={roomId}
+                  className={`group flex items-center rounded-lg text-sm ${isActive ? 'bg-white/10 text-white' : 'text-gray-300 hover:bg-white/5'}`}
+                >
+                  <button onClick={() => selectRoom(roomId)} className="flex-1 min-w-0 flex items-center gap-1 px-2 py-1.5 text-left">
+                    <span className="truncate"># {roomId}</span>
+                    {roomInfo[roomId] && roomInfo[roomId].access !== 'open' && (
+                      <span title={`${roomInfo[roomId].access === 'password' ? 'Password' : 'Invite'} protected`} className="text-xs">🔒</span>
+                    )}
+                    {unread > 0 && (
+                      <span
+                        title={mentionCount > 0 ? `${mentionCount} mentioning you` : undefined}
+                        className={`ml-auto px-1.5 rounded-full text-white text-xs ${mentionCount > 0 ? 'bg-amber-500' : 'bg-fuchsia-600'}`}
+                      >
+                        {mentionCount > 0 ? `@${unread}` : unread}
+                      </span>
+                    )}
+                  </button>
+                  {joinedRooms.length > 1 && (
+                    <button
+                      onClick={() => leaveRoom(roomId)}
+                      title={`Leave ${roomId}`}
+                      className="px-2 text-gray-500 hover:text-gray-200 opacity-0 group-hover:opacity-100 transition"
+                    >
+                      ×
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <div className="px-4 pt-4 pb-2 text-xs uppercase tracking-wide text-gray-400 border-t border-white/10">
+            In #{currentRoom}
+          </div>
+          <div className="max-h-[40%] overflow-y-auto px-2 pb-3 space-y-0.5">
+            {sortedMembers.map((member) => {
+              const memberIsOwner = member.userId === ownerUserId;
+              const memberIsModerator = moderatorUserIds.includes(member.userId);
+              return (
+                <div key={member.userId} className="group flex items-center rounded-lg hover:bg-white/5">
+                  <button
+                    onClick={() => openDm(member.userId, member.name)}
+                    onContextMenu={(e) => openMemberMenu(e, member.userId, member.name)}
+                    disabled={member.userId === myUserId}
+                    title={member.status === 'idle' ? `${member.name} is idle` : `${member.name} is active`}
+                    className="flex-1 min-w-0 flex items-center gap-2 px-2 py-1 text-sm text-left text-gray-300"
+                  >
+                    <span className={`inline-block h-2 w-2 shrink-0 rounded-full ${member.status === 'active' ? 'bg-emerald-400' : 'bg-amber-400'}`}></span>
+                    <span className="truncate" style={{ color: `hsl(${hashString(member.userId) % 360}, 70%, 60%)` }}>{member.name}</span>
+                    {member.verified && <span title="Verified account" className="text-[10px] text-emerald-300">✓</span>}
+                    {memberIsOwner && <span className="text-[10px] text-fuchsia-300">owner</span>}
+                    {memberIsModerator && <span className="text-[10px] text-purple-300">mod</span>}
+                    {isMutedHere(member.userId) && <span title={`Muted until ${timeOfDay(mutedUntil[member.userId])}`} className="text-xs">🔇</span>}
+                    {member.userId === myUserId && <span className="text-xs text-gray-500">(you)</span>}
+                  </button>
+                  {isOwner && !memberIsOwner && (
+                    <button
+                      onClick={() => setMemberRole(member.userId, !memberIsModerator)}
+                      title={memberIsModerator ? `Remove ${member.name} as moderator` : `Make ${member.name} a moderator`}
+                      className="px-2 text-[10px] text-gray-500 hover:text-gray-200 opacity-0 group-hover:opacity-100 transition"
+                    >
+                      {memberIsModerator ? 'unmod' : 'mod'}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </aside>
+
+        <div className="flex-1 min-w-0 flex flex-col">
+          {/* Header */}
+          <div className="p-4 bg-gray-900/60 backdrop-blur border-b border-white/10">
+            <div className="flex items-center justify-between">
+              <div className="text-lg font-semibold">
+                <img src="/logo.png" alt="Den Den Mushi Logo" className="inline-block w-8 h-8 mr-1" />
+                <span className="bg-gradient-to-r from-fuchsia-400 to-purple-400 bg-clip-text text-transparent">Den-Den-Mushi</span>
+                <span className="ml-2 text-xs text-gray-400">roomed chat</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-400">Room</span>
+                <span className="px-2 py-1 rounded-lg bg-gray-800/70 border border-white/10 text-sm">
+                  {access !== 'open' && <span className="mr-1">🔒</span>}
+                  {currentRoom}
+                </span>
+                <span
+                  title={connection}
+                  className={`inline-block h-2.5 w-2.5 rounded-full ${connection === 'open' ? 'bg-emerald-400' : 'bg-amber-400 animate-pulse'}`}
+                ></span>
+                {connection === 'reconnecting' && <span className="text-xs text-amber-300">reconnecting…</span>}
+                <span className="text-xs text-gray-400">{memberCount} online</span>
+              </div>
             </div>
-            <div className="flex items-center gap-2">
-              <span className="text-xs text-gray-400">Room</span>
-              <span className="px-2 py-1 rounded-lg bg-gray-800/70 border border-white/10 text-sm">{currentRoom}</span>
-              <span className={`inline-block h-2.5 w-2.5 rounded-full ${isConnected ? 'bg-emerald-400' : 'bg-red-400'}`}></span>
-              <span className="text-xs text-gray-400">{memberCount} online</span>
+            {!activeDm && topic && (
+              <div title={topic} className="mt-2 text-sm text-gray-300 truncate">
+                <span className="text-gray-500">Topic:</span> {topic}
+              </div>
+            )}
+            <div className="mt-3 flex items-center gap-2">
+              <input
+                value={roomInput}
+                onChange={(e) => setRoomInput(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') joinRoom(); }}
+                maxLength={ROOM_ID_MAX_LENGTH}
+                className="flex-1 max-w-xs px-3 py-2 rounded-lg text-white placeholder-gray-400 bg-transparent border border-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                placeholder="Enter room id (e.g. general)"
+              />
+              <button
+                onClick={joinRoom}
+                className="px-4 py-2 rounded-lg font-medium text-white bg-blue-600 hover:bg-blue-500 active:bg-blue-700 transition"
+              >
+                Join
+              </button>
+              <button
+                onClick={copyInviteLink}
+                className="px-4 py-2 rounded-lg font-medium text-white bg-gray-800 border border-gray-700 hover:bg-gray-700 transition"
+              >
+                {copied ? 'Copied!' : 'Copy invite link'}
+              </button>
+              {canManage && (
+                <button
+                  onClick={toggleHistoryReplay}
+                  title="Let members load this room's earlier messages"
+                  className="px-3 py-2 rounded-lg text-sm text-gray-300 bg-gray-800 border border-gray-700 hover:bg-gray-700 transition"
+                >
+                  History: {historyReplay ? 'on' : 'off'}
+                </button>
+              )}
+              {canManage && (
+                <select
+                  value={slowModeMs}
+                  onChange={(e) => setSlowMode(Number(e.target.value))}
+                  title="Minimum time between one member's messages"
+                  className="px-2 py-2 rounded-lg text-sm text-gray-300 bg-gray-800 border border-gray-700"
+                >
+                  {[...new Set([...SLOW_MODE_CHOICES, slowModeMs])].sort((a, b) => a - b).map((ms) => (
+                    <option key={ms} value={ms}>{ms === 0 ? 'Slow mode: off' : `Slow mode: ${shortDuration(ms)}`}</option>
+                  ))}
+                </select>
+              )}
+              {isOwner && (
+                <button
+                  onClick={() => setAccessDraft((draft) => (draft ? null : { mode: access, password: '' }))}
+                  title="Choose who may join this room"
+                  className="px-3 py-2 rounded-lg text-sm text-gray-300 bg-gray-800 border border-gray-700 hover:bg-gray-700 transition"
+                >
+                  Access: {access}
+                </button>
+              )}
+              {historyReplay && (
+                <select
+                  value=""
+                  disabled={transcriptBusy}
+                  onChange={(e) => void exportTranscript(e.target.value)}
+                  title="Download this room's stored messages"
+                  className="px-2 py-2 rounded-lg text-sm text-gray-300 bg-gray-800 border border-gray-700 disabled:opacity-40"
+                >
+                  <option value="" disabled>Export…</option>
+                  {TRANSCRIPT_CHOICES.map(([format, label]) => (
+                    <option key={format} value={format}>{label}</option>
+                  ))}
+                </select>
+              )}
+              <button
+                onClick={() => setShowDmList((v) => !v)}
+                className="relative px-3 py-2 rounded-lg text-sm text-gray-300 bg-gray-800 border border-gray-700 hover:bg-gray-700 transition"
+              >
+                Messages
+                {dmUnreadTotal > 0 && (
+                  <span className="ml-1.5 px-1.5 rounded-full bg-fuchsia-600 text-white text-xs">{dmUnreadTotal}</span>
+                )}
+              </button>
+              <button
+                onClick={() => setSearchOpen((v) => !v)}
+                title="Search messages"
+                className={`px-3 py-2 rounded-lg text-sm text-gray-300 border border-gray-700 hover:bg-gray-700 transition ${searchOpen ? 'bg-gray-700' : 'bg-gray-800'}`}
+              >
+                🔍 Search
+              </button>
             </div>
+            {searchOpen && (
+              <div className="mt-3 rounded-lg border border-white/10 bg-gray-900/80 text-sm">
+                <div className="flex flex-wrap items-center gap-2 px-3 py-2">
+                  <input
+                    autoFocus
+                    value={searchForm.query}
+                    onChange={(e) => setSearchForm({ ...searchForm, query: e.target.value })}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') runSearch();
+                      if (e.key === 'Escape') setSearchOpen(false);
+                    }}
+                    className="flex-1 min-w-40 px-2 py-1 rounded-md bg-gray-800 border border-gray-700 text-white placeholder-gray-500"
+                    placeholder="Search messages"
+                  />
+                  <select
+                    value={searchForm.roomId}
+                    onChange={(e) => setSearchForm({ ...searchForm, roomId: e.target.value })}
+                    className="px-2 py-1 rounded-md bg-gray-800 border border-gray-700 text-white"
+                  >
+                    <option value="">All rooms</option>
+                    {joinedRooms.map((roomId) => (
+                      <option key={roomId} value={roomId}>#{roomId}</option>
+                    ))}
+                  </select>
+                  <input
+                    value={searchForm.sender}
+                    onChange={(e) => setSearchForm({ ...searchForm, sender: e.target.value })}
+                    onKeyDown={(e) => { if (e.key === 'Enter') runSearch(); }}
+                    className="w-28 px-2 py-1 rounded-md bg-gray-800 border border-gray-700 text-white placeholder-gray-500"
+                    placeholder="From"
+                  />
+                  <input
+                    type="date"
+                    value={searchForm.since}
+                    onChange={(e) => setSearchForm({ ...searchForm, since: e.target.value })}
+                    title="From this day"
+                    className="px-2 py-1 rounded-md bg-gray-800 border border-gray-700 text-white"
+                  />
+                  <span className="text-gray-500">–</span>
+                  <input
+                    type="date"
+                    value={searchForm.until}
+                    onChange={(e) => setSearchForm({ ...searchForm, until: e.target.value })}
+                    title="Up to and including this day"
+                    className="px-2 py-1 rounded-md bg-gray-800 border border-gray-700 text-white"
+                  />
+                  <button
+                    onClick={() => runSearch()}
+                    disabled={!searchForm.query.trim()}
+                    className="px-3 py-1 rounded-md text-white bg-blue-600 hover:bg-blue-500 disabled:opacity-50 transition"
+                  >
+                    Search
+                  </button>
+                </div>
+                {searchError && <div className="px-3 pb-2 text-xs text-red-300">{searchError}</div>}
+                {searchResults && (
+                  <div className="max-h-80 overflow-y-auto border-t border-white/10 divide-y divide-white/5">
+                    {searchResults.items.length === 0 && !searchResults.loading && (
+                      <div className="px-3 py-2 text-xs text-gray-400">No messages match “{searchResults.query}”.</div>
+                    )}
+                    {searchResults.items.map((item) =>
+                      item.kind === 'chat' ? (
+                        <button
+                          key={`${item.roomId}:${item.id}`}
+                          onClick={() => jumpToMessage(item)}
+                          className="w-full px-3 py-2 text-left hover:bg-white/5"
+                        >
+                          <div className="flex items-center gap-2 text-xs text-gray-400">
+                            <span className="text-gray-300">#{item.roomId}</span>
+                            <span style={{ color: `hsl(${hashString(item.userId) % 360}, 70%, 60%)` }}>{item.sender}</span>
+                            <span>{new Date(item.timestamp).toLocaleString()}</span>
+                          </div>
+                          <div className="mt-0.5 text-gray-200 line-clamp-2 whitespace-pre-wrap break-words">
+                            {highlightMatches(item.message, searchResults.query)}
+                          </div>
+                        </button>
+                      ) : null,
+                    )}
+                    {searchResults.loading && <div className="px-3 py-2 text-xs text-gray-400">Searching…</div>}
+                    {searchResults.hasMore && !searchResults.loading && (
+                      <button
+                        onClick={() => runSearch(oldestMessageId(searchResults.items))}
+                        className="w-full px-3 py-2 text-xs text-gray-300 hover:bg-white/5"
+                      >
+                        Load more
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+            {showDmList && (
+              <div className="mt-3 rounded-lg border border-white/10 bg-gray-900/80 divide-y divide-white/5">
+                {dmList.length === 0 && (
+                  <div className="px-3 py-2 text-xs text-gray-400">No conversations yet. Click a sender’s name to message them privately.</div>
+                )}
+                {dmList.map((thread) => (
+                  <button
+                    key={thread.userId}
+                    onClick={() => openDm(thread.userId, thread.name)}
+                    className={`w-full flex items-center justify-between px-3 py-2 text-sm text-left hover:bg-white/5 ${activeDm === thread.userId ? 'bg-white/5' : ''}`}
+                  >
+                    <span style={{ color: `hsl(${hashString(thread.userId) % 360}, 70%, 60%)` }}>{thread.name}</span>
+                    {thread.unread > 0 && (
+                      <span className="px-1.5 rounded-full bg-fuchsia-600 text-white text-xs">{thread.unread}</span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            )}
+            {accessDraft && isOwner && (
+              <div className="mt-3 flex flex-wrap items-center gap-2 rounded-lg border border-white/10 bg-gray-900/80 px-3 py-2 text-sm">
+                <span className="text-gray-400">Who can join #{currentRoom}?</span>
+                <select
+                  value={accessDraft.mode}
+                  onChange={(e) => setAccessDraft({ ...accessDraft, mode: e.target.value as RoomAccessMode })}
+                  className="px-2 py-1 rounded-md bg-gray-800 border border-gray-700 text-white"
+                >
+                  <option value="open">Anyone</option>
+                  <option value="password">Anyone with the password</option>
+                  <option value="invite">Invited people only</option>
+                </select>
+                {accessDraft.mode === 'password' && (
+                  <input
+                    type="password"
+                    value={accessDraft.password}
+                    onChange={(e) => setAccessDraft({ ...accessDraft, password: e.target.value })}
+                    onKeyDown={(e) => { if (e.key === 'Enter') saveAccess(); }}
+                    placeholder={access === 'password' ? 'New password (optional)' : 'Password'}
+                    className="px-2 py-1 rounded-md bg-transparent border border-gray-700 text-white placeholder-gray-500"
+                  />
+                )}
+                <button onClick={saveAccess} className="px-3 py-1 rounded-md bg-blue-600 hover:bg-blue-500 text-white">Save</button>
+                {access !== 'open' && (
+                  <button onClick={revokeInvites} className="px-3 py-1 rounded-md text-red-300 hover:text-red-200">Revoke invites</button>
+                )}
+              </div>
+            )}
+            {inviteLink && inviteLink.roomId === currentRoom && (
+              <div className="mt-3 flex items-center gap-2 rounded-lg border border-white/10 bg-gray-900/80 px-3 py-2 text-sm">
+                <span className="shrink-0 text-gray-400">
+                  Invite expires {new Date(inviteLink.expiresAt).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' })}
+                </span>
+                <input readOnly value={inviteLink.url} onFocus={(e) => e.target.select()} className="min-w-0 flex-1 px-2 py-1 rounded-md bg-black/30 text-gray-200" />
+                <button onClick={() => copyLink(inviteLink.url)} className="px-3 py-1 rounded-md bg-gray-800 border border-gray-700 hover:bg-gray-700">
+                  {copied ? 'Copied!' : 'Copy'}
+                </button>
+                <button onClick={() => setInviteLink(null)} className="px-1 text-gray-500 hover:text-gray-200">×</button>
+              </div>
+            )}
           </div>
-          <div className="mt-3 flex items-center gap-2">
-            <input
-              value={roomInput}
-              onChange={(e) => setRoomInput(e.target.value)}
-              onKeyDown={(e) => { if (e.key === 'Enter') joinRoom(); }}
-              className="flex-1 max-w-xs px-3 py-2 rounded-lg text-white placeholder-gray-400 bg-transparent border border-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-500"
-              placeholder="Enter room id (e.g. general)"
-            />
-            <button
-              onClick={joinRoom}
-              className="px-4 py-2 rounded-lg font-medium text-white bg-blue-600 hover:bg-blue-500 active:bg-blue-700 transition"
-            >
-              Join
-            </button>
-            <button
-              onClick={copyInviteLink}
-              className="px-4 py-2 rounded-lg font-medium text-white bg-gray-800 border border-gray-700 hover:bg-gray-700 transition"
-            >
-              {copied ? 'Copied!' : 'Copy invite link'}
-            </button>
-          </div>
-        </div>
 
-        {/* Messages */}
-        <div className="flex-1 overflow-y-auto p-4 space-y-3">
-          {messages.length === 0 && (
-            <div className="text-center text-sm text-gray-400 mt-24">
-              No messages yet. Say hello to the room!
+          {roomError && (
+            <div className="px-4 py-2 text-sm text-red-300 bg-red-950/40 border-b border-red-500/20">{roomError}</div>
+          )}
+          {protocolError && (
+            <div className="px-4 py-2 text-sm text-amber-200 bg-amber-900/40 border-b border-amber-500/30">{protocolError}</div>
+          )}
+
+          {activeDm && (
+            <div className="px-4 py-2 flex items-center justify-between text-sm bg-fuchsia-950/40 border-b border-fuchsia-500/20">
+              <span className="text-gray-300">
+                Direct message with <span className="font-medium text-white">{dmThreads[activeDm]?.name ?? activeDm}</span>
+              </span>
+              <button onClick={closeDm} className="text-xs text-purple-300 hover:text-purple-200 underline">Back to {currentRoom}</button>
             </div>
           )}
-          {messages.map((item, idx) => {
-            if (item.kind === 'system') {
-              return (
-                <div key={idx} className="flex justify-center">
-                  <div className="text-xs text-gray-400 bg-gray-800/40 px-3 py-1 rounded-full">
-                    {item.message}
+          {activeDm && dmError && (
+            <div className="px-4 py-1.5 text-xs text-red-300 bg-red-950/40 border-b border-red-500/20">{dmError}</div>
+          )}
+
+          {/* Messages */}
+          <div ref={scrollRef} onScroll={onMessagesScroll} className="flex-1 overflow-y-auto p-4 space-y-3">
+            {!activeDm && hasMoreHistory && (
+              <div className="flex justify-center">
+                <button onClick={loadOlderHistory} className="text-xs text-gray-400 hover:text-gray-200">Load earlier messages</button>
+              </div>
+            )}
+            {visibleItems.length === 0 && (
+              <div className="text-center text-sm text-gray-400 mt-24">
+                {activeDm ? 'No messages yet. Only the two of you can see this conversation.' : 'No messages yet. Say hello to the room!'}
+              </div>
+            )}
+            {visibleItems.map((item, idx) => {
+              if (item.kind === 'system') {
+                return (
+                  <div key={idx} className="flex justify-center">
+                    <div className={`text-xs text-gray-400 bg-gray-800/40 px-3 py-1 whitespace-pre-line ${item.message.includes('\n') ? 'rounded-xl' : 'rounded-full'}`}>
+                      {item.message}
+                    </div>
                   </div>
-                </div>
-              );
-            }
-            if (item.kind === 'chat') {
-              const isMine = item.userId === myUserId;
-              const bubbleClass = isMine
-                ? 'bg-gradient-to-r from-purple-600 to-fuchsia-600 text-white ml-auto'
-                : 'bg-gray-800/70 border border-white/10 text-white';
-              const containerClass = isMine ? 'flex justify-end' : 'flex justify-start';
-              const hue = hashString(item.userId) % 360;
-              const senderColor = `hsl(${hue}, 70%, 60%)`;
-              return (
-                <div key={idx} className={containerClass}>
-                  <div className={`inline-block max-w-[80%] rounded-2xl px-4 py-2 shadow-lg shadow-black/30 ${bubbleClass}`}>
-                    {!isMine && (
-                      <div className="text-xs mb-1" style={{ color: senderColor }}>{item.sender}</div>
+                );
+              }
+              if (item.kind === 'chat' && item.deleted) {
+                return (
+                  <div key={idx} className={item.userId === myUserId ? 'flex justify-end' : 'flex justify-start'}>
+                    <div className="inline-block rounded-2xl px-4 py-2 text-sm italic text-gray-500 border border-white/5">
+                      {item.sender}’s message was deleted
+                    </div>
+                  </div>
+                );
+              }
+              if (item.kind === 'chat') {
+                // Restored from a transcript, whose userIds nobody vouches for, so
+                // shown as someone else's and only deleted by whoever manages the room
+                const imported = item.importedId !== undefined;
+                const isMine = item.userId === myUserId && !imported;
+                // Room messages with a server id can be edited, deleted and reacted to
+                const messageId = !activeDm ? item.id : undefined;
+                const isEditing = messageId !== undefined && editing?.id === messageId;
+                const reactions = Object.entries(item.reactions ?? {}).filter(([, userIds]) => userIds.length > 0);
+                const bubbleClass = isMine
+                  ? 'bg-gradient-to-r from-purple-600 to-fuchsia-600 text-white ml-auto'
+                  : 'bg-gray-800/70 border border-white/10 text-white';
+                const containerClass = isMine ? 'flex justify-end' : 'flex justify-start';
+                const hue = hashString(item.userId) % 360;
+                const senderColor = `hsl(${hue}, 70%, 60%)`;
+                const mentionsMe = !isMine && isMentioned(item, myUserId);
+                const isHighlighted = messageId !== undefined && highlight?.roomId === item.roomId && highlight.id === messageId;
+                const receipt = !activeDm ? receiptFor(item, myUserId, readMarkers) : undefined;
+                const quote = !activeDm ? replyQuote(item, messageById) : undefined;
+                return (
+                  <div key={idx} data-message-id={messageId} className={`group relative ${containerClass}`}>
+                    {messageId !== undefined && !isEditing && (
+                      <div
+                        className={`absolute -top-3 ${isMine ? 'right-2' : 'left-2'} z-10 flex items-center gap-0.5 px-1 rounded-lg bg-gray-900 border border-white/10 opacity-0 group-hover:opacity-100 transition`}
+                      >
+                        {REACTION_EMOJI.map((emoji) => (
+                          <button key={emoji} onClick={() => toggleReaction(messageId, emoji)} className="px-1 text-sm hover:scale-110 transition">
+                            {emoji}
+                          </button>
+                        ))}
+                        <button onClick={() => startReply(item)} className="px-1.5 text-xs text-gray-300 hover:text-white">
+                          Reply
+                        </button>
+                        {isMine && (
+                          <>
+                            <button
+                              onClick={() => setEditing({ id: messageId, text: item.message })}
+                              className="px-1.5 text-xs text-gray-300 hover:text-white"
+                            >
+                              Edit
+                            </button>
+                            <button onClick={() => deleteMessage(messageId)} className="px-1.5 text-xs text-red-300 hover:text-red-200">
+                              Delete
+                            </button>
+                          </>
+                        )}
+                        {imported && canManage && (
+                          <button onClick={() => deleteMessage(messageId)} className="px-1.5 text-xs text-red-300 hover:text-red-200">
+                            Delete
+                          </button>
+                        )}
+                      </div>
                     )}
-                    <div className="whitespace-pre-wrap leading-relaxed">{item.message}</div>
-                    <div className="text-[10px] text-white/70 mt-1">{new Date(item.timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}</div>
+                    <div className={`inline-block max-w-[80%] rounded-2xl px-4 py-2 shadow-lg shadow-black/30 ${bubbleClass} ${item.delivery === 'pending' ? 'opacity-60' : ''} ${isHighlighted ? 'ring-2 ring-sky-400' : mentionsMe ? 'ring-2 ring-amber-400/70' : ''}`}>
+                      {!isMine && (
+                        activeDm || item.bot || imported ? (
+                          <div className="text-xs mb-1" style={{ color: senderColor }}>
+                            {item.sender}
+                            {item.verified && <span title="Verified account" className="ml-1 text-emerald-300">✓</span>}
+                            {item.bot && <span title="Webhook reply" className="ml-1 px-1 rounded bg-white/10 text-[10px] text-gray-300">bot</span>}
+                            {imported && <span title="Imported from a transcript" className="ml-1 px-1 rounded bg-white/10 text-[10px] text-gray-300">imported</span>}
+                          </div>
+                        ) : (
+                          <button
+                            onClick={() => openDm(item.userId, item.sender)}
+                            onContextMenu={(e) => openMemberMenu(e, item.userId, item.sender)}
+                            title={`Message ${item.sender} privately`}
+                            className="block text-xs mb-1 hover:underline"
+                            style={{ color: senderColor }}
+                          >
+                            {item.sender}
+                            {item.verified && <span title="Verified account" className="ml-1 text-emerald-300">✓</span>}
+                          </button>
+                        )
+                      )}
+                      {quote && item.replyTo !== undefined && (
+                        <button
+                          onClick={() => item.replyTo !== undefined && openThread(item.replyTo)}
+                          title="Open thread"
+                          className="mb-1 block w-full min-w-0 border-l-2 border-white/40 pl-2 text-left text-xs text-white/70 hover:text-white"
+                        >
+                          <div className="font-medium">{quote.sender}</div>
+                          <div className="line-clamp-2 break-words">{quote.message || 'Attachment'}</div>
+                        </button>
+                      )}
+                      {isEditing ? (
+                        <div className="flex items-end gap-2">
+                          <textarea
+                            autoFocus
+                            value={editing.text}
+                            maxLength={maxMessageLength}
+                            rows={composerRows(editing.text)}
+                            onChange={(e) => setEditing({ id: editing.id, text: e.target.value })}
+                            onKeyDown={(e) => {
+                              if (isSubmitKey(e)) {
+                                e.preventDefault();
+                                saveEdit();
+                              }
+                              if (e.key === 'Escape') setEditing(null);
+                            }}
+                            className="min-w-0 flex-1 px-2 py-1 rounded-md bg-black/30 text-white resize-none focus:outline-none"
+                          />
+                          <button onClick={saveEdit} className="text-xs underline">Save</button>
+                          <button onClick={() => setEditing(null)} className="text-xs text-white/70 underline">Cancel</button>
+                        </div>
+                      ) : item.message.length > 0 ? (
+                        item.action ? (
+                          <div className="whitespace-pre-wrap leading-relaxed italic">{`* ${item.sender} ${item.message}`}</div>
+                        ) : (
+                          <div className="leading-relaxed break-words">
+                            <RichText text={item.message} mentions={item.mentions} myUserId={myUserId} />
+                          </div>
+                        )
+                      ) : null}
+                      {!isEditing && <LinkPreview text={item.message} endpoint={previewEndpoint()} token={storedResumeTokenRef.current} />}
+                      {item.attachments && item.attachments.length > 0 && (
+                        <div className="mt-1.5 flex flex-wrap gap-2">
+                          {item.attachments.map((attachment) =>
+                            attachment.contentType.startsWith('image/') ? (
+                              <a key={attachment.id} href={attachmentUrl(attachment.id, attachment.name)} target="_blank" rel="noreferrer">
+                                <img
+                                  src={attachmentUrl(attachment.id)}
+                                  alt={attachment.name}
+                                  loading="lazy"
+                                  className="max-h-60 max-w-full rounded-lg border border-white/10"
+                                />
+                              </a>
+                            ) : (
+                              <a
+                                key={attachment.id}
+                                href={attachmentUrl(attachment.id, attachment.name)}
+                                download={attachment.name}
+                                className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-black/20 border border-white/10 text-xs hover:bg-black/30"
+                              >
+                                <span>📄</span>
+                                <span className="truncate max-w-[12rem]">{attachment.name}</span>
+                                <span className="text-white/60">{formatBytes(attachment.size)}</span>
+                              </a>
+                            ),
+                          )}
+                        </div>
+                      )}
+                      {reactions.length > 0 && (
+                        <div className="mt-1.5 flex flex-wrap gap-1">
+                          {reactions.map(([emoji, userIds]) => (
+                            <button
+                              key={emoji}
+                              onClick={() => messageId !== undefined && toggleReaction(messageId, emoji)}
+                              className={`px-1.5 rounded-full text-xs border ${userIds.includes(myUserId) ? 'bg-white/25 border-white/40' : 'bg-black/20 border-white/10'}`}
+                            >
+                              {emoji} {userIds.length}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      {messageId !== undefined && (item.replyCount ?? 0) > 0 && (
+                        <button onClick={() => openThread(messageId)} className="mt-1.5 block text-xs font-medium text-white/80 hover:text-white hover:underline">
+                          💬 {item.replyCount} {item.replyCount === 1 ? 'reply' : 'replies'}
+                          {item.lastReplyAt && <span className="ml-1 font-normal text-white/60">· last {timeOfDay(item.lastReplyAt)}</span>}
+                        </button>
+                      )}
+                      <div className="text-[10px] text-white/70 mt-1">
+                        {new Date(item.timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+                        {item.editedAt && <span className="ml-1">(edited)</span>}
+                        {item.delivery === 'pending' && <span className="ml-1">· sending…</span>}
+                        {receipt && (
+                          <span
+                            title={
+                              receipt.seenBy.length > 0
+                                ? `Seen by ${receipt.seenBy.map((userId) => members.find((member) => member.userId === userId)?.name ?? 'a former member').join(', ')}`
+                                : receipt.delivered
+                                  ? 'Delivered'
+                                  : 'Sent; nobody else was connected'
+                            }
+                            className={`ml-1 ${receipt.seenBy.length > 0 ? 'text-sky-200' : ''}`}
+                          >
+                            · {receipt.delivered ? '✓✓' : '✓'}
+                            {receipt.seenBy.length > 0 && ` Seen by ${receipt.seenBy.length}`}
+                          </span>
+                        )}
+                        {item.delivery === 'failed' && (
+                          <span className="ml-1 text-red-200">
+                            · not sent
+                            <button onClick={() => retryChat(item)} className="ml-1.5 underline">Retry</button>
+                            <button onClick={() => discardChat(item)} className="ml-1.5 underline">Discard</button>
+                          </span>
+                        )}
+                      </div>
+                    </div>
                   </div>
+                );
+              }
+              return (
+                <div key={idx} className="flex justify-center">
+                  <span className="text-xs text-gray-500">{item.raw}</span>
                 </div>
               );
-            }
-            return (
-              <div key={idx} className="flex justify-center">
-                <span className="text-xs text-gray-500">{item.raw}</span>
-              </div>
-            );
-          })}
-          <div ref={endRef} />
-        </div>
-
-        {/* Composer */}
-        <div className="p-3 bg-gray-900/60 backdrop-blur border-t border-white/10">
-          <div className="flex items-center gap-2 bg-white/90 rounded-xl p-1 shadow-lg">
-            <input
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              onKeyDown={(e) => { if (e.key === 'Enter') sendMessage(); }}
-              className="flex-1 px-4 py-3 rounded-lg bg-transparent text-gray-900 placeholder-gray-500 focus:outline-none"
-              placeholder="Type your message..."
-            />
-            <button
-              onClick={sendMessage}
-              className="px-5 py-2.5 rounded-lg font-medium text-white bg-gradient-to-r from-purple-600 to-fuchsia-600 hover:from-purple-500 hover:to-fuchsia-500 active:from-purple-700 active:to-fuchsia-700 transition"
-            >
-              Send
-            </button>
+            })}
+            <div ref={endRef} />
           </div>
-          {!needsIdentity && (
-            <div className="mt-2 text-xs text-gray-400">Signed in as: <span className="text-gray-300 font-medium">{myName || '...'}</span></div>
+
+          {!activeDm && (
+            <div className="h-5 px-4 text-xs text-gray-400 italic">{typingText(typingNames)}</div>
           )}
-        </div>
 
-        {needsIdentity && (
-          <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
-            <div className="w-full max-w-sm bg-gray-900 border border-white/10 rounded-xl p-5">
-              <div className="text-lg font-semibold mb-1">Choose a name</div>
-              <div className="text-sm text-gray-400 mb-4">Pick a unique display name before joining any room.</div>
-              <input
-                autoFocus
-                value={nameInput}
-                onChange={(e) => setNameInput(e.target.value)}
-                onKeyDown={(e) => { if (e.key === 'Enter') submitIdentity(); }}
-                className="w-full px-3 py-2 rounded-lg text-white placeholder-gray-400 bg-transparent border border-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-500"
-                placeholder="e.g. raman"
+          {/* Composer */}
+          <div className="p-3 bg-gray-900/60 backdrop-blur border-t border-white/10">
+            {!activeDm && replyingTo && (
+              <div className="mb-2 flex items-center gap-2 px-3 py-1.5 rounded-lg bg-gray-800 border-l-2 border-purple-400 text-xs">
+                <span className="shrink-0 text-gray-400">Replying to</span>
+                <span className="shrink-0 font-medium" style={{ color: `hsl(${hashString(replyingTo.quote.userId) % 360}, 70%, 60%)` }}>
+                  {replyingTo.quote.sender}
+                </span>
+                <span className="truncate text-gray-400">{replyingTo.quote.message || 'Attachment'}</span>
+                <button onClick={() => setReplyingTo(null)} title="Cancel reply" className="ml-auto text-gray-500 hover:text-gray-200">
+                  ×
+                </button>
+              </div>
+            )}
+            {!activeDm && (draftAttachments.length > 0 || uploading > 0) && (
+              <div className="mb-2 flex flex-wrap gap-2">
+                {draftAttachments.map((attachment) => (
+                  <span
+                    key={attachment.id}
+                    className="flex items-center gap-1.5 px-2 py-1 rounded-lg bg-gray-800 border border-white/10 text-xs text-gray-200"
+                  >
+                    <span>{attachment.contentType.startsWith('image/') ? '🖼️' : '📄'}</span>
+                    <span className="truncate max-w-[10rem]">{attachment.name}</span>
+                    <span className="text-gray-400">{formatBytes(attachment.size)}</span>
+                    <button
+                      onClick={() => setDraftAttachments((all) => all.filter((existing) => existing.id !== attachment.id))}
+                      title="Remove"
+                      className="text-gray-400 hover:text-white"
+                    >
+                      ✕
+                    </button>
+                  </span>
+                ))}
+                {uploading > 0 && <span className="px-2 py-1 text-xs text-gray-400">Uploading…</span>}
+              </div>
+            )}
+            <div className="flex items-end gap-2 bg-white/90 rounded-xl p-1 shadow-lg">
+              {!activeDm && (
+                <>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    accept={attachmentLimits.types.join(',')}
+                    className="hidden"
+                    onChange={(e) => {
+                      void attachFiles([...(e.target.files ?? [])]);
+                      e.target.value = '';
+                    }}
+                  />
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={myMute !== undefined || attachmentLimits.types.length === 0}
+                    title="Attach files"
+                    className="px-3 py-2.5 rounded-lg text-gray-600 hover:bg-gray-200 disabled:opacity-40 transition"
+                  >
+                    📎
+                  </button>
+                </>
+              )}
+              <textarea
+                ref={composerRef}
+                value={input}
+                maxLength={maxMessageLength}
+                rows={composerRows(input)}
+                onChange={(e) => onInputChange(e.target.value)}
+                onKeyDown={(e) => {
+                  if (isSubmitKey(e)) {
+                    e.preventDefault();
+                    sendMessage();
+                  }
+                  if (e.key === 'Escape') setReplyingTo(null);
+                }}
+                disabled={myMute !== undefined}
+                className="flex-1 px-4 py-3 rounded-lg bg-transparent text-gray-900 placeholder-gray-500 resize-none focus:outline-none"
+                placeholder={
+                  activeDm
+                    ? `Message ${dmThreads[activeDm]?.name ?? ''} privately...`
+                    : myMute !== undefined
+                      ? `You're muted here until ${timeOfDay(myMute)}`
+                      : 'Type your message, or /help for commands...'
+                }
+              />
+              <button
+                onClick={sendMessage}
+                className="px-5 py-2.5 rounded-lg font-medium text-white bg-gradient-to-r from-purple-600 to-fuchsia-600 hover:from-purple-500 hover:to-fuchsia-500 active:from-purple-700 active:to-fuchsia-700 transition"
+              >
+                Send
+              </button>
+            </div>
+            {!needsIdentity && (
+              <div className="mt-2 text-xs text-gray-400">
+                Signed in as: <span className="text-gray-300 font-medium">{myName || '...'}</span>
+                {myVerified ? (
+                  <>
+                    <span title="Verified account" className="ml-1 text-emerald-300">✓</span>
+                    <button onClick={signOut} className="ml-2 text-purple-300 hover:text-purple-200 underline">Sign out</button>
+                  </>
+                ) : (
+                  <button onClick={startRename} className="ml-2 text-purple-300 hover:text-purple-200 underline">Change</button>
+                )}
+                {!activeDm && slowModeMs > 0 && (
+                  <span className="ml-3">Slow mode: one message every {shortDuration(slowModeMs)}{isModerator ? ' (moderators exempt)' : ''}</span>
+                )}
+              </div>
+            )}
+          </div>
+
+          {memberMenu && (
+            <>
+              <div
+                className="fixed inset-0 z-40"
+                onClick={() => setMemberMenu(null)}
+                onContextMenu={(e) => { e.preventDefault(); setMemberMenu(null); }}
               />
-              {nameError && <div className="mt-1 text-xs text-red-400">{nameError}</div>}
-              <div className="mt-4 flex justify-end gap-2">
+              <div
+                className="fixed z-50 min-w-40 py-1 rounded-lg bg-gray-900 border border-white/10 shadow-lg shadow-black/50 text-sm"
+                style={{ left: memberMenu.x, top: memberMenu.y }}
+              >
+                <div className="px-3 py-1 text-xs text-gray-500 truncate">{memberMenu.name}</div>
                 <button
-                  onClick={submitIdentity}
-                  className="px-4 py-2 rounded-lg font-medium text-white bg-gradient-to-r from-purple-600 to-fuchsia-600 hover:from-purple-500 hover:to-fuchsia-500"
+                  onClick={() => { openDm(memberMenu.userId, memberMenu.name); setMemberMenu(null); }}
+                  className="w-full px-3 py-1.5 text-left text-gray-200 hover:bg-white/10"
                 >
-                  Continue
+                  Message privately
                 </button>
+                {canModerate(memberMenu.userId) && (
+                  <>
+                    <div className="my-1 border-t border-white/10" />
+                    <button onClick={() => moderate('kick')} className="w-full px-3 py-1.5 text-left text-gray-200 hover:bg-white/10">
+                      Kick from #{currentRoom}
+                    </button>
+                    {isMutedHere(memberMenu.userId) ? (
+                      <button onClick={() => moderate('unmute')} className="w-full px-3 py-1.5 text-left text-gray-200 hover:bg-white/10">
+                        Unmute
+                      </button>
+                    ) : (
+                      MUTE_CHOICES.map((ms) => (
+                        <button key={ms} onClick={() => moderate('mute', ms)} className="w-full px-3 py-1.5 text-left text-gray-200 hover:bg-white/10">
+                          Mute for {shortDuration(ms)}
+                        </button>
+                      ))
+                    )}
+                    <button onClick={() => moderate('ban')} className="w-full px-3 py-1.5 text-left text-red-300 hover:bg-white/10">
+                      Ban
+                    </button>
+                    {/* We don't know who is banned; offer lifting it for anyone not in the room */}
+                    {!members.some((member) => member.userId === memberMenu.userId) && (
+                      <button onClick={() => moderate('unban')} className="w-full px-3 py-1.5 text-left text-gray-200 hover:bg-white/10">
+                        Lift ban
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
+            </>
+          )}
+
+          {passwordPrompt && !needsIdentity && (
+            <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+              <div className="w-full max-w-sm bg-gray-900 border border-white/10 rounded-xl p-5">
+                <div className="text-lg font-semibold mb-1">Join #{passwordPrompt.roomId}</div>
+                <div className="text-sm text-gray-400 mb-4">{passwordPrompt.message}</div>
+                <input
+                  autoFocus
+                  type="password"
+                  value={passwordInput}
+                  onChange={(e) => setPasswordInput(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') submitPassword(); }}
+                  className="w-full px-3 py-2 rounded-lg text-white placeholder-gray-400 bg-transparent border border-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  placeholder="Room password"
+                />
+                <div className="mt-4 flex justify-end gap-2">
+                  <button
+                    onClick={() => { setPasswordPrompt(null); setPasswordInput(''); }}
+                    className="px-4 py-2 rounded-lg font-medium text-white bg-gray-800 border border-gray-700 hover:bg-gray-700"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={submitPassword}
+                    className="px-4 py-2 rounded-lg font-medium text-white bg-gradient-to-r from-purple-600 to-fuchsia-600 hover:from-purple-500 hover:to-fuchsia-500"
+                  >
+                    Join
+                  </button>
+                </div>
               </div>
             </div>
-          </div>
+          )}
+
+          {(needsIdentity || isRenaming) && (
+            <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50">
+              <div className="w-full max-w-sm bg-gray-900 border border-white/10 rounded-xl p-5">
+                <div className="text-lg font-semibold mb-1">
+                  {isRenaming ? 'Change your name' : signInMode === 'guest' ? 'Choose a name' : 'Sign in'}
+                </div>
+                <div className="text-sm text-gray-400 mb-4">
+                  {isRenaming
+                    ? 'Your rooms will see the new name right away.'
+                    : signInMode === 'local'
+                      ? 'Use your account, or create one with a new username.'
+                      : signInMode === 'token'
+                        ? 'Paste the sign-in token from your identity provider.'
+                        : 'Pick a unique display name before joining any room.'}
+                </div>
+                {!isRenaming && signInModes(authOptions.providers, authOptions.guestsAllowed).length > 1 && (
+                  <div className="flex gap-1 mb-4 p-1 rounded-lg bg-gray-800/70">
+                    {signInModes(authOptions.providers, authOptions.guestsAllowed).map((mode) => (
+                      <button
+                        key={mode}
+                        onClick={() => { setSignInMode(mode); setNameError(''); }}
+                        className={`flex-1 px-3 py-1.5 rounded-md text-sm ${signInMode === mode ? 'bg-purple-600 text-white' : 'text-gray-300 hover:bg-white/5'}`}
+                      >
+                        {SIGN_IN_LABELS[mode]}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {!isRenaming && signInMode === 'local' ? (
+                  <div className="space-y-2">
+                    <input
+                      autoFocus
+                      value={usernameInput}
+                      onChange={(e) => setUsernameInput(e.target.value)}
+                      className="w-full px-3 py-2 rounded-lg text-white placeholder-gray-400 bg-transparent border border-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      placeholder="Username"
+                      autoComplete="username"
+                    />
+                    <input
+                      type="password"
+                      value={accountPassword}
+                      onChange={(e) => setAccountPassword(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') submitIdentity(); }}
+                      className="w-full px-3 py-2 rounded-lg text-white placeholder-gray-400 bg-transparent border border-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      placeholder="Password"
+                      autoComplete="current-password"
+                    />
+                  </div>
+                ) : !isRenaming && signInMode === 'token' ? (
+                  <textarea
+                    autoFocus
+                    value={tokenInput}
+                    onChange={(e) => setTokenInput(e.target.value)}
+                    rows={3}
+                    className="w-full px-3 py-2 rounded-lg text-white text-xs font-mono placeholder-gray-400 bg-transparent border border-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    placeholder="eyJhbGciOi..."
+                  />
+                ) : (
+                  <input
+                    autoFocus
+                    value={nameInput}
+                    onChange={(e) => setNameInput(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') submitIdentity(); }}
+                    className="w-full px-3 py-2 rounded-lg text-white placeholder-gray-400 bg-transparent border border-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    placeholder="e.g. raman"
+                  />
+                )}
+                {nameError && <div className="mt-1 text-xs text-red-400">{nameError}</div>}
+                <div className="mt-4 flex justify-end gap-2">
+                  {isRenaming && !needsIdentity && (
+                    <button
+                      onClick={cancelRename}
+                      className="px-4 py-2 rounded-lg font-medium text-white bg-gray-800 border border-gray-700 hover:bg-gray-700"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                  {!isRenaming && signInMode === 'local' && (
+                    <button
+                      onClick={() => submitIdentity(true)}
+                      className="px-4 py-2 rounded-lg font-medium text-white bg-gray-800 border border-gray-700 hover:bg-gray-700"
+                    >
+                      Create account
+                    </button>
+                  )}
+                  <button
+                    onClick={() => submitIdentity()}
+                    className="px-4 py-2 rounded-lg font-medium text-white bg-gradient-to-r from-purple-600 to-fuchsia-600 hover:from-purple-500 hover:to-fuchsia-500"
+                  >
+                    {!isRenaming && signInMode !== 'guest' ? 'Sign in' : 'Continue'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Thread */}
+        {showThread && threadView && (
+          <aside className="w-72 shrink-0 flex flex-col bg-gray-900/40 border-l border-white/10">
+            <div className="flex items-center justify-between px-4 pt-5 pb-2">
+              <span className="text-xs uppercase tracking-wide text-gray-400">Thread</span>
+              <button onClick={() => setThreadView(null)} title="Close thread" className="text-gray-500 hover:text-gray-200">
+                ×
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto px-3 pb-3 space-y-2">
+              {threadQuote && (
+                <div className="rounded-lg px-3 py-2 bg-white/5 border-l-2 border-purple-400 text-sm">
+                  <div className="text-xs font-medium" style={{ color: `hsl(${hashString(threadQuote.userId) % 360}, 70%, 60%)` }}>
+                    {threadQuote.sender}
+                  </div>
+                  {threadParent?.kind === 'chat' && threadParent.deleted ? (
+                    <div className="italic text-gray-500">Message deleted</div>
+                  ) : (
+                    <div className="leading-relaxed break-words">
+                      <RichText text={threadQuote.message} mentions={threadParent?.kind === 'chat' ? threadParent.mentions : undefined} myUserId={myUserId} />
+                    </div>
+                  )}
+                </div>
+              )}
+              {threadView.hasMore && (
+                <button onClick={loadOlderReplies} className="block mx-auto text-xs text-gray-400 hover:text-gray-200">Load earlier replies</button>
+              )}
+              {threadItems.length === 0 && <div className="text-center text-xs text-gray-500 py-4">No replies yet</div>}
+              {threadItems.map((reply, index) =>
+                reply.kind === 'chat' ? (
+                  <div key={reply.id ?? reply.clientId ?? index} className="rounded-lg px-3 py-2 bg-gray-800/60 border border-white/5 text-sm">
+                    <div className="flex items-baseline gap-2 text-xs">
+                      <span className="font-medium" style={{ color: `hsl(${hashString(reply.userId) % 360}, 70%, 60%)` }}>{reply.sender}</span>
+                      {reply.importedId !== undefined && <span title="Imported from a transcript" className="px-1 rounded bg-white/10 text-[10px] text-gray-300">imported</span>}
+                      <span className="text-gray-500">{timeOfDay(reply.timestamp)}</span>
+                      {reply.delivery === 'pending' && <span className="text-gray-500">sending…</span>}
+                      {reply.delivery === 'failed' && <span className="text-red-300">not sent</span>}
+                    </div>
+                    {reply.deleted ? (
+                      <div className="italic text-gray-500">Message deleted</div>
+                    ) : (
+                      <div className={`leading-relaxed break-words ${reply.action ? 'italic' : ''}`}>
+                        <RichText text={reply.message} mentions={reply.mentions} myUserId={myUserId} />
+                      </div>
+                    )}
+                    {!reply.deleted && <LinkPreview text={reply.message} endpoint={previewEndpoint()} token={storedResumeTokenRef.current} />}
+                    {reply.attachments?.map((attachment) => (
+                      <a
+                        key={attachment.id}
+                        href={attachmentUrl(attachment.id, attachment.name)}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="mt-1 block truncate text-xs text-purple-300 hover:underline"
+                      >
+                        📎 {attachment.name}
+                      </a>
+                    ))}
+                  </div>
+                ) : null,
+              )}
+            </div>
+            <div className="p-3 border-t border-white/10">
+              <button
+                onClick={() => {
+                  if (!threadQuote) return;
+                  setReplyingTo({ id: threadView.id, quote: threadQuote });
+                  composerRef.current?.focus();
+                }}
+                disabled={!threadQuote || myMute !== undefined}
+                className="w-full px-3 py-2 rounded-lg text-sm text-white bg-purple-600 hover:bg-purple-500 disabled:opacity-40 transition"
+              >
+                Reply in thread
+              </button>
+            </div>
+          </aside>
         )}
       </div>
     </div>
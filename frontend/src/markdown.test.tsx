@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { RichText } from './markdown.tsx';
+
+// Markup without the styling, which these tests don't care about
+function render(text: string, mentions: { userId: string; name: string }[] = []): string {
+  const markup = renderToStaticMarkup(<RichText text={text} mentions={mentions} myUserId="me" />);
+  return markup.replace(/ (class|target|rel)="[^"]*"/g, '');
+}
+
+// A one-line paragraph's contents
+function inline(text: string): string {
+  const markup = render(text);
+  const match = /^<div><span>(.*)<\/span><\/div>$/.exec(markup);
+  assert.ok(match, markup);
+  return match[1];
+}
+
+describe('inline markdown', () => {
+  it('renders each rule', () => {
+    assert.equal(inline('`a*b*`'), '<code>a*b*</code>');
+    assert.equal(inline('**bold** *it* _it_ ~~gone~~'), '<strong>bold</strong> <em>it</em> <em>it</em> <s>gone</s>');
+    assert.equal(inline('see https://a.example/x.'), 'see <a href="https://a.example/x">https://a.example/x</a>.');
+    assert.equal(inline('[docs](https://a.example)'), '<a href="https://a.example">docs</a>');
+  });
+
+  it('nests emphasis inside emphasis and links', () => {
+    assert.equal(inline('**a *b* ~~c~~**'), '<strong>a <em>b</em> <s>c</s></strong>');
+    assert.equal(inline('[**docs**](https://a.example)'), '<a href="https://a.example"><strong>docs</strong></a>');
+  });
+
+  it('never puts a link inside a link', () => {
+    assert.equal(inline('[https://a.example](https://b.example)'), '<a href="https://b.example">https://a.example</a>');
+    assert.equal(
+      inline('[[x](https://a.example)](https://b.example)'),
+      '<a href="https://a.example">[x</a>](<a href="https://b.example">https://b.example</a>)',
+    );
+  });
+
+  it('leaves code, unsafe links and unmatched markers alone', () => {
+    assert.equal(inline('`**not bold**`'), '<code>**not bold**</code>');
+    assert.equal(inline('[x](javascript:alert(1))'), '<span>x</span>)');
+    assert.equal(inline('2 * 3 * 4 and **open'), '2 * 3 * 4 and **open');
+    assert.equal(inline('snake_case_name'), 'snake_case_name');
+  });
+
+  it('shows HTML as text', () => {
+    assert.equal(inline('<img src=x onerror=alert(1)>'), '&lt;img src=x onerror=alert(1)&gt;');
+  });
+
+  it('marks mentions of room members only', () => {
+    const markup = render('hi @Bob Smith and @Eve', [{ userId: 'bob', name: 'Bob Smith' }]);
+    assert.equal(markup, '<div><span>hi <span>@Bob Smith</span> and @Eve</span></div>');
+  });
+
+  it('handles long unclosed runs quickly', () => {
+    const started = Date.now();
+    render(`${'**a '.repeat(2000)}${'[a'.repeat(2000)}${'~~b '.repeat(2000)}`);
+    assert.ok(Date.now() - started < 1000);
+  });
+});
+
+describe('blocks', () => {
+  it('renders quotes, lists and paragraphs', () => {
+    assert.equal(render('> quoted *text*\n- one\n- two\n1. first\nplain'), [
+      '<blockquote><div>quoted <em>text</em></div></blockquote>',
+      '<ul><li>one</li><li>two</li></ul>',
+      '<ol><li>first</li></ol>',
+      '<div><span>plain</span></div>',
+    ].join(''));
+  });
+});
+
+describe('code highlighting', () => {
+  const code = (text: string) => renderToStaticMarkup(<RichText text={text} />);
+
+  it('colours keywords, strings, numbers and comments', () => {
+    const markup = code('```ts\nconst a = "x"; // note\nreturn 42\n```');
+    assert.ok(markup.includes('<span class="text-fuchsia-300">const</span>'));
+    assert.ok(markup.includes('<span class="text-emerald-300">&quot;x&quot;</span>'));
+    assert.ok(markup.includes('<span class="text-gray-500 italic">// note</span>'));
+    assert.ok(markup.includes('<span class="text-fuchsia-300">return</span> <span class="text-amber-300">42</span>'));
+  });
+
+  it('follows language aliases and their comment styles', () => {
+    assert.ok(code('```python\ndef f(): # hi\n```').includes('<span class="text-gray-500 italic"># hi</span>'));
+    assert.ok(code('```postgres\nSELECT 1\n```').includes('<span class="text-fuchsia-300">SELECT</span>'));
+  });
+
+  it('leaves unknown languages and markdown inside code plain', () => {
+    const markup = code('```brainfuck\nif **x**\n```');
+    assert.ok(markup.includes('<code>if **x**</code>'));
+  });
+});
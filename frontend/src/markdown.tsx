@@ -0,0 +1,316 @@
+import { memo, type ReactNode } from 'react';
+import type { ChatMention } from '../../backend/src/protocol';
+
+// Chat markdown: a small subset rendered straight to React elements, so HTML in
+// a message is only ever shown as text. Fenced code blocks (lightly
+// highlighted), `code`, **bold**, *italic*, ~~strike~~, [links](https://…),
+// bare URLs, > quotes, lists and @mentions.
+
+type Block =
+  | { kind: 'code'; language: string; code: string }
+  | { kind: 'quote'; lines: string[] }
+  | { kind: 'list'; ordered: boolean; items: string[] }
+  | { kind: 'paragraph'; lines: string[] };
+
+type InlineRule = {
+  // The characters a match can begin with; the scan only tries the rule there
+  starts: string;
+  // Sticky, so it's tried at one position without searching ahead
+  pattern: RegExp;
+  render: (match: RegExpExecArray, context: InlineContext, key: string) => ReactNode;
+  // Makes a link, so it's left out of link labels: links can't nest
+  link?: boolean;
+};
+
+type InlineContext = {
+  rules: InlineRule[];
+  starts: RegExp;
+  mentions: ChatMention[];
+  myUserId: string;
+  // The same without the link rules, for link labels
+  label?: InlineContext;
+};
+
+const FENCE = /^\s*```\s*([\w+#.-]*)\s*$/;
+const QUOTE = /^>\s?/;
+const BULLET = /^\s*[-*+]\s+/;
+const NUMBERED = /^\s*\d+[.)]\s+/;
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+function parseBlocks(text: string): Block[] {
+  const lines = text.split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+  const collect = (pattern: RegExp): string[] => {
+    const collected: string[] = [];
+    while (i < lines.length && pattern.test(lines[i])) collected.push(lines[i++].replace(pattern, ''));
+    return collected;
+  };
+  while (i < lines.length) {
+    const fence = FENCE.exec(lines[i]);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !/^\s*```\s*$/.test(lines[i])) code.push(lines[i++]);
+      // Skip the closing fence; an unclosed block runs to the end of the message
+      i++;
+      blocks.push({ kind: 'code', language: fence[1].toLowerCase(), code: code.join('\n') });
+    } else if (QUOTE.test(lines[i])) {
+      blocks.push({ kind: 'quote', lines: collect(QUOTE) });
+    } else if (BULLET.test(lines[i])) {
+      blocks.push({ kind: 'list', ordered: false, items: collect(BULLET) });
+    } else if (NUMBERED.test(lines[i])) {
+      blocks.push({ kind: 'list', ordered: true, items: collect(NUMBERED) });
+    } else {
+      // Paragraphs keep their line breaks, blank lines included, as typed
+      const paragraph: string[] = [];
+      while (i < lines.length && !FENCE.test(lines[i]) && !QUOTE.test(lines[i]) && !BULLET.test(lines[i]) && !NUMBERED.test(lines[i])) {
+        paragraph.push(lines[i++]);
+      }
+      blocks.push({ kind: 'paragraph', lines: paragraph });
+    }
+  }
+  return blocks;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function link(href: string, children: ReactNode, key: string): ReactNode {
+  if (!SAFE_LINK.test(href)) return <span key={key}>{children}</span>;
+  return (
+    <a key={key} href={href} target="_blank" rel="noopener noreferrer nofollow" className="underline underline-offset-2 break-all hover:opacity-80">
+      {children}
+    </a>
+  );
+}
+
+// Bold and strike stop at the next pair of their markers, so an unclosed one
+// only scans that far rather than to the end of the line
+const INLINE_RULES: InlineRule[] = [
+  {
+    starts: '`',
+    pattern: /`([^`\n]+)`/y,
+    render: (match, _context, key) => (
+      <code key={key} className="px-1 rounded bg-black/30 font-mono text-[0.9em]">
+        {match[1]}
+      </code>
+    ),
+  },
+  {
+    starts: '[',
+    pattern: /\[([^\]\n]+)\]\(([^)\s]+)\)/y,
+    render: (match, context, key) => link(match[2], renderInline(match[1], context.label ?? context, key), key),
+    link: true,
+  },
+  {
+    starts: 'h',
+    pattern: /https?:\/\/[^\s<>()]*[^\s<>().,:;!?'"]/y,
+    render: (match, _context, key) => link(match[0], match[0], key),
+    link: true,
+  },
+  {
+    starts: '*',
+    pattern: /\*\*(?=\S)((?:[^*\n]|\*(?!\*))*?\S)\*\*/y,
+    render: (match, context, key) => <strong key={key}>{renderInline(match[1], context, key)}</strong>,
+  },
+  {
+    starts: '~',
+    pattern: /~~(?=\S)((?:[^~\n]|~(?!~))*?\S)~~/y,
+    render: (match, context, key) => <s key={key}>{renderInline(match[1], context, key)}</s>,
+  },
+  {
+    starts: '*_',
+    pattern: /(?<![\w*])\*(?=\S)([^*\n]*?\S)\*(?![\w*])|(?<![\w_])_(?=\S)([^_\n]*?\S)_(?![\w_])/y,
+    render: (match, context, key) => <em key={key}>{renderInline(match[1] ?? match[2], context, key)}</em>,
+  },
+];
+
+function mentionRule(mentions: ChatMention[]): InlineRule {
+  const names = [...mentions].sort((a, b) => b.name.length - a.name.length).map((mention) => escapeRegExp(mention.name));
+  return {
+    starts: '@',
+    pattern: new RegExp(`(?<![\\p{L}\\p{N}_])@(${names.join('|')})(?![\\p{L}\\p{N}_])`, 'iuy'),
+    render: (match, context, key) => {
+      const mention = context.mentions.find((candidate) => candidate.name.toLowerCase() === match[1].toLowerCase());
+      const isMe = mention?.userId === context.myUserId;
+      return (
+        <span key={key} className={`px-1 rounded font-medium ${isMe ? 'bg-amber-400/30 text-amber-100' : 'bg-white/15'}`}>
+          {match[0]}
+        </span>
+      );
+    },
+  };
+}
+
+function contextFor(rules: InlineRule[], mentions: ChatMention[], myUserId: string): InlineContext {
+  const startChars = [...new Set(rules.map((rule) => rule.starts).join(''))];
+  return { rules, starts: new RegExp(`[${startChars.map(escapeRegExp).join('')}]`, 'g'), mentions, myUserId };
+}
+
+function inlineContext(mentions: ChatMention[], myUserId: string): InlineContext {
+  const rules = mentions.length > 0 ? [...INLINE_RULES, mentionRule(mentions)] : INLINE_RULES;
+  return {
+    ...contextFor(rules, mentions, myUserId),
+    label: contextFor(rules.filter((rule) => !rule.link), mentions, myUserId),
+  };
+}
+
+// A single pass: at each character some rule can begin with, the first rule
+// matching there is rendered and the scan carries on after it
+function renderInline(text: string, context: InlineContext, keyPrefix: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let position = 0;
+  let emitted = 0;
+  let count = 0;
+  while (position < text.length) {
+    // lastIndex is set before every exec since rendering recurses with the same regexes
+    context.starts.lastIndex = position;
+    const start = context.starts.exec(text);
+    if (!start) break;
+    const index = start.index;
+    let match: RegExpExecArray | null = null;
+    let rule: InlineRule | undefined;
+    for (const candidate of context.rules) {
+      if (!candidate.starts.includes(start[0])) continue;
+      candidate.pattern.lastIndex = index;
+      match = candidate.pattern.exec(text);
+      if (match) {
+        rule = candidate;
+        break;
+      }
+    }
+    if (!match || !rule) {
+      position = index + 1;
+      continue;
+    }
+    if (index > emitted) nodes.push(text.slice(emitted, index));
+    nodes.push(rule.render(match, context, `${keyPrefix}.${count++}`));
+    position = emitted = index + match[0].length;
+  }
+  if (emitted < text.length) nodes.push(text.slice(emitted));
+  return nodes;
+}
+
+const JS_KEYWORDS =
+  'async await break case catch class const continue default delete do else export extends false finally for from function if import in instanceof let new null of return static super switch this throw true try typeof undefined var void while yield';
+
+const KEYWORDS: Record<string, string> = {
+  js: JS_KEYWORDS,
+  ts: `${JS_KEYWORDS} abstract any as boolean declare enum implements interface keyof namespace never number private protected public readonly string type unknown`,
+  py: 'and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return self True try while with yield',
+  go: 'break case chan const continue default defer else fallthrough false for func go goto if import interface map nil package range return select struct switch true type var',
+  rust: 'as async await break const continue crate else enum extern false fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait true type unsafe use where while',
+  java: 'abstract boolean break byte case catch char class const continue default do double else enum extends false final finally float for if implements import instanceof int interface long new null package private protected public return short static super switch this throw throws true try void volatile while',
+  c: 'auto bool break case char class const continue default delete do double else enum extern false float for if inline int long namespace new nullptr private protected public return short signed sizeof static struct switch template this true typedef union unsigned using virtual void volatile while',
+  sh: 'case cd do done echo elif else esac exit export fi for function if in local return then until while',
+  sql: 'add all alter and as asc between by case create delete desc distinct drop else end exists from group having in index inner insert into is join key left like limit not null on or order outer primary references right select set table then union update values when where',
+  json: 'true false null',
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  javascript: 'js',
+  jsx: 'js',
+  mjs: 'js',
+  typescript: 'ts',
+  tsx: 'ts',
+  python: 'py',
+  golang: 'go',
+  rs: 'rust',
+  kotlin: 'java',
+  cpp: 'c',
+  'c++': 'c',
+  h: 'c',
+  bash: 'sh',
+  shell: 'sh',
+  zsh: 'sh',
+  postgres: 'sql',
+  mysql: 'sql',
+};
+
+function commentPattern(language: string): string {
+  if (language === 'py' || language === 'sh') return '#.*';
+  if (language === 'sql') return '--.*';
+  if (language === 'json') return '(?!)';
+  return '\\/\\/.*|\\/\\*[\\s\\S]*?\\*\\/';
+}
+
+// Colours comments, strings, numbers and keywords; unknown languages stay plain
+function highlight(code: string, rawLanguage: string): ReactNode[] {
+  const language = LANGUAGE_ALIASES[rawLanguage] ?? rawLanguage;
+  const keywordList = KEYWORDS[language];
+  if (!keywordList) return [code];
+  // SQL is case-insensitive; everything else matches keywords exactly
+  const keywords = new Set(keywordList.split(' '));
+  const normalize = (word: string) => (language === 'sql' ? word.toLowerCase() : word);
+  const tokens = new RegExp(
+    `(${commentPattern(language)})|("(?:\\\\.|[^"\\\\\\n])*"|'(?:\\\\.|[^'\\\\\\n])*'|\`(?:\\\\.|[^\`\\\\])*\`)|(\\b\\d[\\w.]*)|([A-Za-z_$][\\w$]*)`,
+    'g',
+  );
+  const nodes: ReactNode[] = [];
+  let last = 0;
+  for (const match of code.matchAll(tokens)) {
+    const index = match.index ?? 0;
+    if (index > last) nodes.push(code.slice(last, index));
+    last = index + match[0].length;
+    const [token, comment, string, number, word] = match;
+    let className = '';
+    if (comment) className = 'text-gray-500 italic';
+    else if (string) className = 'text-emerald-300';
+    else if (number) className = 'text-amber-300';
+    else if (word && keywords.has(normalize(word))) className = 'text-fuchsia-300';
+    nodes.push(className ? <span key={index} className={className}>{token}</span> : token);
+  }
+  if (last < code.length) nodes.push(code.slice(last));
+  return nodes;
+}
+
+// Memoized: a message only renders again when its text or mentions change,
+// not on every update to the chat around it
+export const RichText = memo(function RichText({ text, mentions = [], myUserId = '' }: { text: string; mentions?: ChatMention[]; myUserId?: string }) {
+  const context = inlineContext(mentions, myUserId);
+  return (
+    <>
+      {parseBlocks(text).map((block, index) => {
+        const key = String(index);
+        switch (block.kind) {
+          case 'code':
+            return (
+              <pre key={key} className="my-1 overflow-x-auto rounded-lg bg-black/40 border border-white/10 p-3 text-xs leading-relaxed font-mono">
+                {block.language && <div className="mb-1 text-[10px] uppercase tracking-wide text-white/40">{block.language}</div>}
+                <code>{highlight(block.code, block.language)}</code>
+              </pre>
+            );
+          case 'quote':
+            return (
+              <blockquote key={key} className="my-1 border-l-2 border-white/30 pl-2 text-white/80">
+                {block.lines.map((line, lineIndex) => (
+                  <div key={lineIndex}>{renderInline(line, context, `${key}.${lineIndex}`)}</div>
+                ))}
+              </blockquote>
+            );
+          case 'list': {
+            const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item, context, `${key}.${itemIndex}`)}</li>);
+            return block.ordered ? (
+              <ol key={key} className="my-1 list-decimal pl-5">{items}</ol>
+            ) : (
+              <ul key={key} className="my-1 list-disc pl-5">{items}</ul>
+            );
+          }
+          case 'paragraph':
+            return (
+              <div key={key} className="whitespace-pre-wrap">
+                {block.lines.map((line, lineIndex) => (
+                  <span key={lineIndex}>
+                    {lineIndex > 0 && '\n'}
+                    {renderInline(line, context, `${key}.${lineIndex}`)}
+                  </span>
+                ))}
+              </div>
+            );
+        }
+      })}
+    </>
+  );
+});
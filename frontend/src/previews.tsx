@@ -0,0 +1,65 @@
+import { memo, useEffect, useState } from 'react';
+
+// Link preview cards: the first link in a message, outside code, previewed by
+// the server's /previews endpoint. Each URL is asked for once per page load.
+// Images come through the server too, under a path relative to the endpoint.
+
+type Preview = { url: string; title: string; description?: string; siteName?: string; image?: string };
+
+// Same shape as a bare link in markdown.tsx
+const LINK = /https?:\/\/[^\s<>()]*[^\s<>().,:;!?'"]/;
+const CODE = /```[\s\S]*?(```|$)|`[^`\n]+`/g;
+
+const linkToPreview = new Map<string, Promise<Preview | null>>();
+
+function firstLink(text: string): string | undefined {
+  return LINK.exec(text.replace(CODE, ' '))?.[0];
+}
+
+function loadPreview(endpoint: string, link: string, token: string | null): Promise<Preview | null> {
+  let preview = linkToPreview.get(link);
+  if (!preview) {
+    const url = new URL(endpoint);
+    url.searchParams.set('url', link);
+    preview = fetch(url, { headers: { Authorization: `Bearer ${token ?? ''}` } })
+      .then((response) => (response.status === 200 ? (response.json() as Promise<Preview>) : null))
+      .catch(() => null);
+    linkToPreview.set(link, preview);
+  }
+  return preview;
+}
+
+export const LinkPreview = memo(function LinkPreview({ text, endpoint, token }: { text: string; endpoint: string; token: string | null }) {
+  const link = firstLink(text);
+  const [loaded, setLoaded] = useState<{ link: string; preview: Preview | null } | null>(null);
+
+  useEffect(() => {
+    if (!link) return;
+    let cancelled = false;
+    loadPreview(endpoint, link, token).then((preview) => {
+      if (!cancelled) setLoaded({ link, preview });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [link, endpoint, token]);
+
+  // An edit can change the link while the old preview is still held
+  const preview = loaded && loaded.link === link ? loaded.preview : null;
+  if (!link || !preview) return null;
+  return (
+    <a
+      href={link}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      className="mt-1.5 flex max-w-md overflow-hidden rounded-lg bg-black/20 border border-white/10 text-left hover:bg-black/30"
+    >
+      <div className="min-w-0 flex-1 px-3 py-2 border-l-2 border-white/40">
+        {preview.siteName && <div className="truncate text-[10px] uppercase tracking-wide text-white/50">{preview.siteName}</div>}
+        <div className="line-clamp-2 text-sm font-medium break-words">{preview.title}</div>
+        {preview.description && <div className="mt-0.5 line-clamp-3 text-xs text-white/70 break-words">{preview.description}</div>}
+      </div>
+      {preview.image && <img src={new URL(preview.image, endpoint).toString()} alt="" loading="lazy" className="w-20 shrink-0 object-cover" />}
+    </a>
+  );
+});
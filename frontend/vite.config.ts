@@ -6,4 +6,10 @@ import tailwindcss from '@tailwindcss/vite'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react(), tailwindcss()],
+  server: {
+    fs: {
+      // The wire protocol module lives in ../backend/src and is shared with the server
+      allow: ['..'],
+    },
+  },
 })